@@ -1,209 +1,1120 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { compile } from '0x-lang/compiler';
-import { tokenize } from '0x-lang/tokenizer';
-import { EXAMPLES, EXAMPLE_NAMES } from './examples';
+import React, { useState, useCallback, useDeferredValue, useEffect, useMemo, useRef } from 'react';
+import {
+  DEFAULT_EXAMPLE,
+  EXAMPLES,
+  exampleById,
+  exampleIdFromSearch,
+  exampleSource,
+  isUntouchedExample,
+  urlWithExample,
+} from './examples';
+import CodeView, { type CodeViewHandle } from './CodeView';
+import CommandPalette, { type PaletteItem } from './CommandPalette';
+import CompareView from './CompareView';
+import Editor, { type EditorHandle } from './Editor';
+import ExampleGallery from './ExampleGallery';
+import FileTabs, { type FileTab } from './FileTabs';
+import InspectPanel from './InspectPanel';
+import LessonPanel from './LessonPanel';
+import MocksPanel from './MocksPanel';
+import Preview, { type PreviewHandle } from './Preview';
+import ProblemsPanel from './ProblemsPanel';
+import RealtimePanel from './RealtimePanel';
+import ShortcutSheet from './ShortcutSheet';
+import SnippetSidebar from './SnippetSidebar';
+import CompileOptionsPanel from './CompileOptionsPanel';
+import { DEFAULT_COMPILE_OPTIONS, isDefaultCompileOptions, type CompileOptions } from './compileOptions';
+import { COMPILERS, compilerLabel, compilerRelease, DEFAULT_COMPILER } from './compilerVersions';
+import { diagnosticsFromFileResult, sortDiagnostics, type Diagnostic } from './diagnostics';
+import { parseEmbedConfig, type EmbedPanel } from './embedProtocol';
+import { findEndpoints } from './endpoints';
+import { errorMessage, LOCALE_NAMES, type Locale } from './i18n';
+import { LESSONS, lessonById, loadLessonProgress, saveLessonProgress } from './lessons';
+import { LINT_RULES, lintProject, loadDisabledRules, saveDisabledRules, type LintRule } from './lint';
+import { useFormattedOutput } from './formatOutput';
+import { outlineDeclarations } from './outline';
+import { resolveMocks, type MockTable } from './mocks';
+import { highlightOutput } from './outputHighlight';
+import type { PreviewRequestLog } from './previewProtocol';
+import { findSockets, type SocketLog } from './realtime';
+import {
+  baseName,
+  outputFileName,
+  singleFile,
+  splitDeclarations,
+  uniqueFileName,
+  validateFileName,
+  type SourceFile,
+} from './project';
+import { downloadProjectArchive } from './projectArchive';
+import { formatProjectFile } from './sourceFormat';
+import { buildMappings, mappingForOutputLine, mappingForSourceLine, type LineRange } from './sourceMap';
+import { decodeShareLocation, shareUrlFor, ShareLinkError, urlWithoutShare } from './shareState';
+import {
+  COMMANDS,
+  commandForCombo,
+  comboFromEvent,
+  formatCombo,
+  hasCommandModifier,
+  loadShortcuts,
+  saveShortcuts,
+  type CommandId,
+} from './shortcuts';
+import { TARGET_LABELS, type Target } from './targets';
+import { compareSides, type Metrics, type TokenMethod } from './tokenMetrics';
+import TokenReport from './TokenReport';
+import VersionDiff from './VersionDiff';
+import { useCompiler } from './useCompiler';
+import { useEmbedBridge } from './useEmbedBridge';
+import { useLocale } from './useLocale';
+import { useWorkspace } from './useWorkspace';
+import { loadAutosave, type Snippet } from './workspace';
 
-type Target = 'react' | 'vue' | 'svelte';
+interface FileOutput {
+  // The source the output was compiled from, for mapping lines between them.
+  source: string;
+  code: string;
+  // Both sides counted alike, in the compile worker.
+  metrics: Metrics;
+}
 
-const TARGET_LABELS: Record<Target, string> = {
-  react: 'React',
-  vue: 'Vue 3',
-  svelte: 'Svelte 5',
-};
+// Where to move the editor's cursor: a diagnostic, or any declaration.
+type SourceLocation = Pick<Diagnostic, 'file' | 'line' | 'column'>;
 
-const TARGET_EXT: Record<Target, string> = {
-  react: '.jsx',
-  vue: '.vue',
-  svelte: '.svelte',
+// Most recent entries kept in the request and socket logs.
+const LOG_SIZE = 50;
+
+// Last good output per source file, for one target. Files whose latest
+// compile failed keep their previous entry and are listed in `stale`.
+interface ProjectOutput {
+  target: Target;
+  files: Record<string, FileOutput>;
+  stale: string[];
+}
+
+const EMPTY_OUTPUT: FileOutput = {
+  source: '',
+  code: '',
+  metrics: compareSides('lexical', { lines: 0, tokens: 0 }, { lines: 0, tokens: 0 }),
 };
 
 function App() {
-  const [source, setSource] = useState(EXAMPLES.counter);
+  // Embedded in another page (`?embed=1`): compact, host-driven, no autosave.
+  const [embed] = useState(() => parseEmbedConfig(window.location.search));
+  const { locale, setLocale, t } = useLocale();
+  const [files, setFiles] = useState<SourceFile[]>(() => singleFile(exampleSource(DEFAULT_EXAMPLE, locale)));
+  const [activeFile, setActiveFile] = useState(files[0].name);
+  const [outputFile, setOutputFile] = useState(activeFile);
   const [target, setTarget] = useState<Target>('react');
-  const [output, setOutput] = useState('');
-  const [error, setError] = useState('');
-  const [stats, setStats] = useState({ lines: 0, tokens: 0, srcLines: 0, srcTokens: 0 });
-  const [selectedExample, setSelectedExample] = useState('counter');
+  const [project, setProject] = useState<ProjectOutput>({ target: 'react', files: {}, stale: [] });
+  const [disabledRules, setDisabledRules] = useState(loadDisabledRules);
+  const [options, setOptions] = useState<CompileOptions>(DEFAULT_COMPILE_OPTIONS);
+  const [compiler, setCompiler] = useState(DEFAULT_COMPILER);
+  const [showVersionDiff, setShowVersionDiff] = useState(false);
+  const [selectedExample, setSelectedExample] = useState<string | null>(DEFAULT_EXAMPLE.id);
+  const [showExamples, setShowExamples] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [activeSnippetId, setActiveSnippetId] = useState<string | null>(null);
+  const [showSnippets, setShowSnippets] = useState(embed === null);
+  const [restored, setRestored] = useState(false);
   const [copied, setCopied] = useState(false);
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [prettify, setPrettify] = useState(false);
+  const [compare, setCompare] = useState(false);
+  const [showInspect, setShowInspect] = useState(false);
+  const [tokenMethod, setTokenMethod] = useState<TokenMethod>('bpe');
+  const [showReport, setShowReport] = useState(false);
+  const [inspectRange, setInspectRange] = useState<LineRange | null>(null);
+  const [pendingReveal, setPendingReveal] = useState<SourceLocation | null>(null);
+  const [showMocks, setShowMocks] = useState(false);
+  const [mocks, setMocks] = useState<MockTable>({});
+  const [requests, setRequests] = useState<PreviewRequestLog[]>([]);
+  const [showRealtime, setShowRealtime] = useState(false);
+  const [showOptions, setShowOptions] = useState(false);
+  const [showLessons, setShowLessons] = useState(false);
+  const [lessonProgress, setLessonProgress] = useState(loadLessonProgress);
+  // The lesson whose code is in the editor; opening anything else leaves it.
+  const [activeLesson, setActiveLesson] = useState<string | null>(null);
+  const [shortcuts, setShortcuts] = useState(loadShortcuts);
+  const [showPalette, setShowPalette] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [socketLog, setSocketLog] = useState<SocketLog[]>([]);
+  const [hover, setHover] = useState<{ side: 'source' | 'output'; line: number } | null>(null);
+  const editorRef = useRef<EditorHandle>(null);
+  const outputRef = useRef<CodeViewHandle>(null);
+  const previewRef = useRef<PreviewHandle>(null);
 
-  const doCompile = useCallback((src: string, tgt: Target) => {
-    try {
-      const result = compile(src, { target: tgt, validate: true });
-      setOutput(result.code);
-      setError('');
-
-      const srcLines = src.split('\n').filter(l => l.trim()).length;
-      const srcTokens = src.split(/\s+/).filter(Boolean).length;
-      setStats({
-        lines: result.lineCount,
-        tokens: result.tokenCount,
-        srcLines,
-        srcTokens,
-      });
-    } catch (e: any) {
-      setOutput('');
-      setError(e.message || String(e));
-      setStats({ lines: 0, tokens: 0, srcLines: 0, srcTokens: 0 });
-    }
-  }, []);
+  const source = files.find(f => f.name === activeFile)?.source ?? '';
+  const setSource = (value: string) =>
+    setFiles(fs => fs.map(f => (f.name === activeFile ? { ...f, source: value } : f)));
+
+  const openProject = (next: SourceFile[], active: string) => {
+    setFiles(next);
+    setActiveFile(active);
+    setOutputFile(active);
+    setActiveLesson(null);
+  };
+
+  const { outcome, compiling } = useCompiler(files, target, options, compiler, tokenMethod);
 
   useEffect(() => {
-    doCompile(source, target);
-  }, [source, target, doCompile]);
+    if (!outcome) return;
+    const { response, files: compiled, target: compiledTarget } = outcome;
+    setProject(prev => {
+      const previous = prev.target === compiledTarget ? prev.files : {};
+      const next: Record<string, FileOutput> = {};
+      const stale: string[] = [];
+      for (const result of response.results) {
+        if (result.ok) {
+          next[result.name] = {
+            source: compiled.find(f => f.name === result.name)?.source ?? '',
+            code: result.code,
+            metrics: compareSides(response.tokenMethod, result.sourceSize, result.outputSize),
+          };
+        } else {
+          // Keep the last good output (and its stats) on screen, marked stale.
+          if (previous[result.name]) next[result.name] = previous[result.name];
+          stale.push(result.name);
+        }
+      }
+      return { target: compiledTarget, files: next, stale };
+    });
+  }, [outcome]);
+
+  // Derived rather than stored so the playground's own messages follow the UI language.
+  const diagnostics = useMemo(
+    () => (outcome
+      ? outcome.response.results.flatMap(result =>
+        diagnosticsFromFileResult(result, outcome.files.find(f => f.name === result.name)?.source ?? '', locale))
+      : []),
+    [outcome, locale],
+  );
+
+  const current = project.files[outputFile] ?? EMPTY_OUTPUT;
+  const stale = project.stale.includes(outputFile);
+  const formatted = useFormattedOutput(current.code, project.target, prettify);
+  const outputHighlights = useMemo(
+    () => highlightOutput(formatted.code, project.target),
+    [formatted.code, project.target],
+  );
+
+  // Lines are only linked while the output of the file being edited is shown.
+  const mappings = useMemo(
+    () => (outputFile === activeFile && current.code ? buildMappings(current.source, formatted.code, project.target) : []),
+    [outputFile, activeFile, current, formatted.code, project.target],
+  );
+  const linked = !hover ? null : hover.side === 'source'
+    ? mappingForSourceLine(mappings, hover.line)
+    : mappingForOutputLine(mappings, hover.line);
+
+  const revealInOutput = (line: number) => {
+    const mapping = mappingForSourceLine(mappings, line);
+    if (mapping) outputRef.current?.revealLine(mapping.output.start);
+  };
 
-  const handleExampleChange = (name: string) => {
-    setSelectedExample(name);
-    setSource(EXAMPLES[name]);
+  const revealInSource = (line: number) => {
+    const mapping = mappingForOutputLine(mappings, line);
+    if (!mapping) return;
+    const text = source.split('\n')[mapping.source.start] ?? '';
+    editorRef.current?.revealPosition(mapping.source.start + 1, text.length - text.trimStart().length + 1);
+  };
+
+  // The preview mounts the selected output file; the others are importable.
+  const previewFiles = useMemo(() => {
+    const out: Record<string, string> = {};
+    for (const [name, file] of Object.entries(project.files)) out[outputFileName(name, project.target)] = file.code;
+    return out;
+  }, [project]);
+
+  const workspace = useWorkspace(
+    { files, activeFile, target, options, compiler, example: selectedExample, snippetId: activeSnippetId },
+    restored && embed === null,
+  );
+
+  const readOnly = embed?.readOnly ?? false;
+  const shown = (panel: EmbedPanel) => !embed || embed.panels.includes(panel);
+
+  useEmbedBridge(
+    embed,
+    {
+      files,
+      activeFile,
+      target,
+      compiledTarget: project.target,
+      outputs: project.files,
+      stale: project.stale,
+      diagnostics,
+    },
+    {
+      openFiles: (next, active) => {
+        setSelectedExample(null);
+        setActiveSnippetId(null);
+        openProject(next, active);
+      },
+      setTarget,
+    },
+  );
+
+  // Every file compiled for the current target, with no failed recompile.
+  const downloadable = project.target === target && project.stale.length === 0
+    && files.every(f => f.name in project.files);
+
+  const downloadProject = () => {
+    const page = files.find(f => outlineDeclarations(f.source).some(d => d.topLevel && d.kind === 'page'));
+    const entry = page?.name ?? activeFile;
+    const snippet = workspace.snippets.find(s => s.id === activeSnippetId);
+    const outputs: Record<string, string> = {};
+    for (const [name, file] of Object.entries(project.files)) outputs[name] = file.code;
+    downloadProjectArchive({
+      name: snippet?.name ?? (exampleById(selectedExample)?.title[locale] ?? baseName(entry)),
+      target: project.target,
+      files,
+      outputs,
+      entry,
+    });
+  };
+
+  const openExample = (id: string) => {
+    const example = exampleById(id);
+    if (!example) return;
+    setSelectedExample(id);
+    setActiveSnippetId(null);
+    const next = singleFile(exampleSource(example, locale));
+    openProject(next, next[0].name);
+  };
+
+  // Id of the example the project still matches exactly, if any; `?example=` names it.
+  const untouchedExample = useMemo(() => {
+    const example = exampleById(selectedExample);
+    return example && isUntouchedExample(example, files) ? example.id : null;
+  }, [selectedExample, files]);
+  const untouchedExampleRef = useRef(untouchedExample);
+  untouchedExampleRef.current = untouchedExample;
+
+  // An example that is still exactly as opened follows the UI language. Only
+  // a language change re-opens it, so the example is read through a ref.
+  useEffect(() => {
+    if (untouchedExampleRef.current) openExample(untouchedExampleRef.current);
+  }, [locale]);
+
+  const pickExample = (id: string) => {
+    setShowExamples(false);
+    openExample(id);
+  };
+
+  const startLesson = (id: string, lessonSource: string) => {
+    const lesson = lessonById(id);
+    if (!lesson) return;
+    setSelectedExample(null);
+    setActiveSnippetId(null);
+    const next = singleFile(lessonSource);
+    openProject(next, next[0].name);
+    setTarget(lesson.target);
+    setActiveLesson(id);
+    setLessonProgress(prev => ({ ...prev, current: id }));
+  };
+
+  useEffect(() => saveLessonProgress(lessonProgress), [lessonProgress]);
+
+  // The learner's code is kept per lesson, so leaving one and coming back
+  // resumes where they were.
+  useEffect(() => {
+    const lesson = lessonById(activeLesson);
+    if (!lesson || files.length !== 1) return;
+    const draft = files[0].source;
+    setLessonProgress(prev => {
+      if (prev.drafts[lesson.id] === draft || (draft === lesson.starter && !(lesson.id in prev.drafts))) return prev;
+      const drafts = { ...prev.drafts };
+      if (draft === lesson.starter) delete drafts[lesson.id];
+      else drafts[lesson.id] = draft;
+      return { ...prev, drafts };
+    });
+  }, [files, activeLesson]);
+
+  const openSnippet = (snippet: Snippet) => {
+    setActiveSnippetId(snippet.id);
+    setSelectedExample(null);
+    openProject(snippet.files, snippet.activeFile);
+    setTarget(snippet.target);
+    setOptions(snippet.options);
+    setCompiler(snippet.compiler);
+  };
+
+  const createSnippet = async () => {
+    const snippet = await workspace.create({ files, activeFile, target, options, compiler });
+    if (snippet) {
+      setActiveSnippetId(snippet.id);
+      setSelectedExample(null);
+    }
+  };
+
+  const duplicateSnippet = async (id: string) => {
+    const copy = await workspace.duplicate(id);
+    if (copy) openSnippet(copy);
+  };
+
+  const deleteSnippet = async (id: string) => {
+    await workspace.remove(id);
+    if (id === activeSnippetId) setActiveSnippetId(null);
+  };
+
+  const importSnippets = async (file: File) => {
+    const count = await workspace.importFromFile(file);
+    if (count !== undefined) setNotice(t('app.imported', { count }));
+  };
+
+  const selectFile = (name: string) => {
+    setInspectRange(null);
+    setActiveFile(name);
+    setOutputFile(name);
+  };
+
+  const addFile = () => {
+    const name = uniqueFileName(files, 'Component');
+    setFiles(fs => [...fs, { name, source: `component ${baseName(name)}:\n  text "${baseName(name)}"\n` }]);
+    selectFile(name);
+  };
+
+  const renameFile = (name: string, next: string): string | null => {
+    const error = validateFileName(next, files, name);
+    if (error) return t(error.code, error.params);
+    setFiles(fs => fs.map(f => (f.name === name ? { ...f, name: next } : f)));
+    if (activeFile === name) setActiveFile(next);
+    if (outputFile === name) setOutputFile(next);
+    return null;
+  };
+
+  const deleteFile = (name: string) => {
+    const index = files.findIndex(f => f.name === name);
+    const rest = files.filter(f => f.name !== name);
+    if (rest.length === 0) return;
+    setFiles(rest);
+    if (activeFile === name) selectFile(rest[Math.max(0, index - 1)].name);
+    else if (outputFile === name) setOutputFile(activeFile);
+  };
+
+  const splitFile = (name: string) => {
+    const file = files.find(f => f.name === name);
+    if (!file) return;
+    const parts = splitDeclarations(file, files);
+    const index = files.indexOf(file);
+    setFiles([...files.slice(0, index), ...parts, ...files.slice(index + 1)]);
+    selectFile(parts[0].name);
+  };
+
+  const [formatting, setFormatting] = useState(false);
+  // The latest source, for checking that nothing was typed while formatting.
+  const sourceRef = useRef(source);
+  sourceRef.current = source;
+
+  const formatActive = async () => {
+    if (formatting) return;
+    const original = source;
+    setFormatting(true);
+    try {
+      const next = await formatProjectFile(files, activeFile, options, compiler);
+      if (sourceRef.current === original) editorRef.current?.replaceText(next);
+    } catch (e) {
+      setNotice(errorMessage(locale, e));
+    } finally {
+      setFormatting(false);
+    }
+  };
+
+  const canSplit = (name: string) => {
+    const file = files.find(f => f.name === name);
+    return !!file && outlineDeclarations(file.source).filter(d => d.topLevel).length > 1;
   };
 
   const copyOutput = useCallback(() => {
-    navigator.clipboard.writeText(output).then(() => {
+    navigator.clipboard.writeText(formatted.code).then(() => {
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     });
-  }, [output]);
+  }, [formatted.code]);
 
   const shareUrl = useCallback(() => {
-    const encoded = encodeURIComponent(source);
-    const url = `${window.location.origin}${window.location.pathname}?src=${encoded}&target=${target}`;
+    const url = shareUrlFor({ files, activeFile, target, options, example: selectedExample, compiler });
     navigator.clipboard.writeText(url);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
-  }, [source, target]);
+  }, [files, activeFile, target, options, selectedExample, compiler]);
 
-  // Load from URL params on mount
-  useEffect(() => {
-    const params = new URLSearchParams(window.location.search);
-    const srcParam = params.get('src');
-    const targetParam = params.get('target') as Target | null;
-    if (srcParam) setSource(decodeURIComponent(srcParam));
-    if (targetParam && TARGET_LABELS[targetParam]) setTarget(targetParam);
-  }, []);
+  const toggleInspect = () => {
+    setShowInspect(v => !v);
+    setInspectRange(null);
+  };
+
+  const commands: Record<CommandId, () => void> = {
+    'palette': () => setShowPalette(v => !v),
+    'shortcuts': () => setShowShortcuts(v => !v),
+    'examples': () => setShowExamples(true),
+    'target.react': () => setTarget('react'),
+    'target.vue': () => setTarget('vue'),
+    'target.svelte': () => setTarget('svelte'),
+    'format': () => {
+      if (!readOnly) formatActive();
+    },
+    'copyOutput': copyOutput,
+    'share': shareUrl,
+    'saveSnippet': () => {
+      createSnippet();
+    },
+    'addFile': addFile,
+    'download': downloadProject,
+    'toggle.snippets': () => setShowSnippets(v => !v),
+    'toggle.lessons': () => setShowLessons(v => !v),
+    'toggle.inspect': toggleInspect,
+    'toggle.mocks': () => setShowMocks(v => !v),
+    'toggle.realtime': () => setShowRealtime(v => !v),
+    'toggle.options': () => setShowOptions(v => !v),
+    'toggle.compare': () => setCompare(v => !v),
+    'toggle.prettify': () => setPrettify(p => !p),
+    'report': () => setShowReport(true),
+    'versions': () => {
+      if (COMPILERS.length > 1) setShowVersionDiff(true);
+    },
+  };
+  const commandsRef = useRef(commands);
+  commandsRef.current = commands;
 
-  const handleTab = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-    if (e.key === 'Tab') {
+  useEffect(() => saveShortcuts(shortcuts), [shortcuts]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Components that use a key themselves (the editor, the shortcut
+      // recorder) prevent its default; an IME that is composing owns it.
+      if (e.defaultPrevented || e.isComposing || e.keyCode === 229) return;
+      const combo = comboFromEvent(e);
+      const id = combo ? commandForCombo(shortcuts, combo) : undefined;
+      // Embeds have no palette or panels; formatting is all they keep.
+      if (!combo || !id || (embed && id !== 'format')) return;
+      const el = e.target instanceof HTMLElement ? e.target : null;
+      const typing = !!el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName));
+      if (typing && !hasCommandModifier(combo)) return;
       e.preventDefault();
-      const ta = textareaRef.current!;
-      const start = ta.selectionStart;
-      const end = ta.selectionEnd;
-      const val = ta.value;
-      const newVal = val.substring(0, start) + '  ' + val.substring(end);
-      setSource(newVal);
-      requestAnimationFrame(() => {
-        ta.selectionStart = ta.selectionEnd = start + 2;
-      });
+      commandsRef.current[id]();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [shortcuts, embed]);
+
+  const withShortcut = (title: string, id: CommandId) => {
+    const combo = shortcuts[id];
+    return combo ? `${title} (${formatCombo(combo)})` : title;
+  };
+
+  const paletteItems: PaletteItem[] = [
+    ...COMMANDS.filter(c => c.id !== 'palette').map(c => ({
+      key: c.id,
+      label: t(`command.${c.id}`),
+      group: t(`command.group.${c.group}`),
+      shortcut: shortcuts[c.id],
+      run: () => commandsRef.current[c.id](),
+    })),
+    ...EXAMPLES.map(example => ({
+      key: `example.${example.id}`,
+      label: t('command.openExample', { title: example.title[locale] }),
+      group: t('command.group.examples'),
+      shortcut: null,
+      run: () => pickExample(example.id),
+    })),
+  ];
+
+  // Load shared state from the URL on mount, else restore the last session
+  useEffect(() => {
+    try {
+      const shared = decodeShareLocation(window.location);
+      if (shared) {
+        openProject(shared.files, shared.activeFile);
+        setTarget(shared.target);
+        setOptions(shared.options);
+        setCompiler(shared.compiler);
+        setSelectedExample(shared.example);
+        // Embeds never autosave, so they keep the link to reload from.
+        if (!embed) window.history.replaceState(null, '', urlWithoutShare(window.location));
+        setRestored(true);
+        return;
+      }
+    } catch (e) {
+      if (!(e instanceof ShareLinkError)) throw e;
+      setNotice(errorMessage(locale, e));
+      if (!embed) window.history.replaceState(null, '', urlWithoutShare(window.location));
+    }
+    const linked = exampleById(exampleIdFromSearch(window.location.search));
+    // Embeds start from their link or the host, never from this browser's session.
+    if (embed) {
+      if (linked) openExample(linked.id);
+      setRestored(true);
+      return;
     }
+    loadAutosave()
+      .catch(e => {
+        setNotice(errorMessage(locale, e));
+        return null;
+      })
+      .then(saved => {
+        // An example link only replaces a last session that was itself an
+        // unedited example, unless the user agrees to lose it.
+        const savedExample = saved && exampleById(saved.example);
+        const disposable = !saved || (!!savedExample && isUntouchedExample(savedExample, saved.files));
+        if (linked && (disposable || window.confirm(t('app.replaceSession', { title: linked.title[locale] })))) {
+          openExample(linked.id);
+          return;
+        }
+        if (!saved) return;
+        openProject(saved.files, saved.activeFile);
+        setTarget(saved.target);
+        setOptions(saved.options);
+        setCompiler(saved.compiler);
+        setSelectedExample(saved.example);
+        setActiveSnippetId(saved.snippetId);
+      })
+      .finally(() => setRestored(true));
+  }, []);
+
+  // Keep `?example=` naming the example while the project is still exactly
+  // that example, so reloading after an edit restores the edit instead.
+  useEffect(() => {
+    if (!restored || embed) return;
+    window.history.replaceState(null, '', urlWithExample(window.location, untouchedExample));
+  }, [restored, untouchedExample]);
+
+  // Diagnostics in another file are revealed once its source is in the editor.
+  useEffect(() => {
+    if (!pendingReveal || (pendingReveal.file !== undefined && pendingReveal.file !== activeFile)) return;
+    if (pendingReveal.line !== undefined) editorRef.current?.revealPosition(pendingReveal.line, pendingReveal.column);
+    setPendingReveal(null);
+  }, [pendingReveal, activeFile]);
+
+  const revealDiagnostic = (d: SourceLocation) => {
+    if (d.file !== undefined && d.file !== activeFile) selectFile(d.file);
+    setPendingReveal(d);
+  };
+
+  const endpoints = useMemo(() => findEndpoints(files), [files]);
+  const previewMocks = useMemo(() => resolveMocks(endpoints, mocks, files), [endpoints, mocks, files]);
+
+  const logRequest = useCallback((request: PreviewRequestLog) => {
+    setRequests(prev => [request, ...prev].slice(0, LOG_SIZE));
+  }, []);
+
+  const sockets = useMemo(() => findSockets(files), [files]);
+  const socketUrls = useMemo(() => sockets.map(s => s.url), [sockets]);
+
+  const logSocketEvent = useCallback((event: SocketLog) => {
+    setSocketLog(prev => [event, ...prev].slice(0, LOG_SIZE));
+  }, []);
+
+  // Lint findings join the compiler's; linting lags typing slightly so it
+  // never holds up the editor.
+  const lintFiles = useDeferredValue(files);
+  const lintDiagnostics = useMemo(() => lintProject(lintFiles, disabledRules), [lintFiles, disabledRules]);
+  const problems = useMemo(
+    () => files.flatMap(f => sortDiagnostics([...diagnostics, ...lintDiagnostics].filter(d => d.file === f.name))),
+    [files, diagnostics, lintDiagnostics],
+  );
+
+  const lintRuleLabels = useMemo(
+    () => Object.fromEntries((Object.keys(LINT_RULES) as LintRule[]).map(rule => [rule, t(`lint.${rule}`)])),
+    [t],
+  );
+
+  const toggleRule = (rule: string) => {
+    setDisabledRules(prev => {
+      const next = new Set(prev);
+      if (next.has(rule as LintRule)) next.delete(rule as LintRule);
+      else next.add(rule as LintRule);
+      saveDisabledRules(next);
+      return next;
+    });
   };
 
-  const savings = stats.srcTokens > 0
-    ? Math.round((1 - stats.srcTokens / stats.tokens) * 100)
-    : 0;
+  const fileDiagnostics = problems.filter(d => d.file === activeFile);
+  const firstError = diagnostics.find(d => d.severity === 'error' && d.file === outputFile);
+
+  const sourceTabs: FileTab[] = files.map(f => ({
+    name: f.name,
+    errors: problems.filter(d => d.file === f.name && d.severity === 'error').length,
+    warnings: problems.filter(d => d.file === f.name && d.severity === 'warning').length,
+  }));
+  const outputTabs: FileTab[] = files.map(f => ({
+    name: f.name,
+    label: outputFileName(f.name, project.target),
+    stale: project.stale.includes(f.name),
+  }));
+
+  // The output measured against the source it came from.
+  const { metrics } = current;
+  const sourceSize = outcome?.response.results.find(r => r.name === activeFile)?.sourceSize;
+  const countedWith = outcome?.response.tokenMethod ?? tokenMethod;
+
+  const targetTabs = (
+    <div style={styles.targetTabs}>
+      {(Object.keys(TARGET_LABELS) as Target[]).map(t => (
+        <button
+          key={t}
+          onClick={() => setTarget(t)}
+          style={{
+            ...styles.targetTab,
+            ...(target === t ? styles.targetTabActive : {}),
+          }}
+        >
+          {TARGET_LABELS[t]}
+        </button>
+      ))}
+    </div>
+  );
 
   return (
     <div style={styles.container}>
       {/* Header */}
-      <header style={styles.header}>
-        <div style={styles.headerLeft}>
-          <h1 style={styles.logo}>
-            <span style={styles.logoAi}>0x</span>
-            <span style={styles.badge}>Playground</span>
-          </h1>
-        </div>
-        <div style={styles.headerCenter}>
-          <div style={styles.exampleButtons}>
-            {Object.entries(EXAMPLE_NAMES).map(([key, label]) => (
-              <button
-                key={key}
-                onClick={() => handleExampleChange(key)}
-                style={{
-                  ...styles.exampleBtn,
-                  ...(selectedExample === key ? styles.exampleBtnActive : {}),
-                }}
-              >
-                {label}
-              </button>
-            ))}
+      {embed ? (
+        <header style={styles.embedHeader}>
+          <span style={styles.embedLogo}>
+            <span style={styles.logoAi}>0x</span> Playground
+          </span>
+          <span style={styles.headerRight}>
+            {targetTabs}
+            <button
+              onClick={() => window.open(
+                shareUrlFor({ files, activeFile, target, options, example: selectedExample, compiler }),
+                '_blank',
+                'noopener',
+              )}
+              style={styles.copyBtn}
+              title={t('app.openTitle')}
+            >
+              {t('app.open')}
+            </button>
+          </span>
+        </header>
+      ) : (
+        <header style={styles.header}>
+          <div style={styles.headerLeft}>
+            <h1 style={styles.logo}>
+              <span style={styles.logoAi}>0x</span>
+              <span style={styles.badge}>Playground</span>
+            </h1>
           </div>
-        </div>
-        <div style={styles.headerRight}>
-          <div style={styles.targetTabs}>
-            {(Object.keys(TARGET_LABELS) as Target[]).map(t => (
-              <button
-                key={t}
-                onClick={() => setTarget(t)}
-                style={{
-                  ...styles.targetTab,
-                  ...(target === t ? styles.targetTabActive : {}),
-                }}
-              >
-                {TARGET_LABELS[t]}
-              </button>
-            ))}
+          <div style={styles.headerCenter}>
+            <button
+              onClick={() => setShowSnippets(v => !v)}
+              style={{ ...styles.exampleBtn, ...(showSnippets ? styles.exampleBtnActive : {}) }}
+            >
+              {t('app.snippets')}
+            </button>
+            <button
+              onClick={() => setShowExamples(true)}
+              style={{ ...styles.exampleBtn, ...(showExamples ? styles.exampleBtnActive : {}) }}
+              title={t('app.examplesTitle')}
+            >
+              {t('app.examples')}{selectedExample && `: ${exampleById(selectedExample)?.title[locale] ?? selectedExample}`}
+            </button>
+            <button
+              onClick={() => setShowLessons(v => !v)}
+              style={{ ...styles.exampleBtn, ...(showLessons ? styles.exampleBtnActive : {}) }}
+              title={t('app.lessonsTitle')}
+            >
+              {t('app.lessons')} ({lessonProgress.completed.length}/{LESSONS.length})
+            </button>
+          </div>
+          <div style={styles.headerRight}>
+            <button
+              onClick={toggleInspect}
+              style={{ ...styles.exampleBtn, ...(showInspect ? styles.exampleBtnActive : {}) }}
+              title={t('app.inspectTitle')}
+            >
+              {t('app.inspect')}
+            </button>
+            <button
+              onClick={() => setShowMocks(v => !v)}
+              style={{ ...styles.exampleBtn, ...(showMocks ? styles.exampleBtnActive : {}) }}
+              title={t('app.mocksTitle')}
+            >
+              {t('app.mocks')}{endpoints.length > 0 && ` (${endpoints.length})`}
+            </button>
+            <button
+              onClick={() => setShowRealtime(v => !v)}
+              style={{ ...styles.exampleBtn, ...(showRealtime ? styles.exampleBtnActive : {}) }}
+              title={t('app.realtimeTitle')}
+            >
+              {t('app.realtime')}{sockets.length > 0 && ` (${sockets.length})`}
+            </button>
+            <button
+              onClick={() => setShowOptions(v => !v)}
+              style={{ ...styles.exampleBtn, ...(showOptions ? styles.exampleBtnActive : {}) }}
+              title={t('app.optionsTitle')}
+            >
+              {t('app.options')}{!isDefaultCompileOptions(options) && ' •'}
+            </button>
+            <button
+              onClick={() => setCompare(v => !v)}
+              style={{ ...styles.exampleBtn, ...(compare ? styles.exampleBtnActive : {}) }}
+              title={t('app.compareTitle')}
+            >
+              {t('app.compare')}
+            </button>
+            {targetTabs}
           </div>
+        </header>
+      )}
+
+      {(notice || workspace.error) && (
+        <div style={styles.notice}>
+          <span>{notice || workspace.error}</span>
+          <button
+            onClick={() => {
+              setNotice('');
+              workspace.clearError();
+            }}
+            style={styles.copyBtn}
+          >
+            {t('app.dismiss')}
+          </button>
         </div>
-      </header>
+      )}
 
       {/* Main Content */}
       <div style={styles.main}>
+        {showSnippets && (
+          <SnippetSidebar
+            snippets={workspace.snippets}
+            activeId={activeSnippetId}
+            onOpen={openSnippet}
+            onNew={createSnippet}
+            onRename={workspace.rename}
+            onDuplicate={duplicateSnippet}
+            onDelete={deleteSnippet}
+            onImport={importSnippets}
+            onExport={workspace.exportToFile}
+          />
+        )}
         {/* Editor Panel */}
-        <div style={styles.panel}>
-          <div style={styles.panelHeader}>
-            <span style={styles.panelTitle}>0x Source</span>
-            <span style={styles.panelInfo}>
-              {stats.srcLines} lines / {stats.srcTokens} tokens
-            </span>
+        {(shown('source') || shown('problems')) && (
+          <div style={styles.panel}>
+            {shown('source') && (
+              <>
+                <div style={styles.panelHeader}>
+                  <span style={styles.panelTitle}>{t('app.source')}</span>
+                  <span style={styles.panelInfo}>
+                    {sourceSize && t('common.lineTokenCount', { lines: sourceSize.lines, tokens: sourceSize.tokens })}
+                    {!readOnly && (
+                      <button
+                        onClick={formatActive}
+                        disabled={formatting}
+                        style={styles.copyBtn}
+                        title={withShortcut(t('app.formatTitle'), 'format')}
+                      >
+                        {formatting ? t('app.formatting') : t('app.format')}
+                      </button>
+                    )}
+                  </span>
+                </div>
+                {readOnly ? (
+                  <FileTabs tabs={sourceTabs} active={activeFile} onSelect={selectFile} />
+                ) : (
+                  <FileTabs
+                    tabs={sourceTabs}
+                    active={activeFile}
+                    onSelect={selectFile}
+                    onAdd={addFile}
+                    onRename={renameFile}
+                    onDelete={deleteFile}
+                    onSplit={splitFile}
+                    canSplit={canSplit}
+                  />
+                )}
+                <Editor
+                  ref={editorRef}
+                  value={source}
+                  onChange={setSource}
+                  diagnostics={fileDiagnostics}
+                  linkedLines={linked?.source ?? inspectRange}
+                  onHoverLine={line => setHover(line === null ? null : { side: 'source', line })}
+                  onLineClick={revealInOutput}
+                  readOnly={readOnly}
+                />
+              </>
+            )}
+            {shown('problems') && (
+              <ProblemsPanel
+                diagnostics={problems}
+                onSelect={revealDiagnostic}
+                rules={lintRuleLabels}
+                disabledRules={disabledRules}
+                onToggleRule={toggleRule}
+              />
+            )}
           </div>
-          <textarea
-            ref={textareaRef}
-            value={source}
-            onChange={e => setSource(e.target.value)}
-            onKeyDown={handleTab}
-            style={styles.editor}
-            spellCheck={false}
-          />
-        </div>
+        )}
+
+        {showLessons && (
+          <>
+            <div style={styles.divider} />
+            <LessonPanel
+              progress={lessonProgress}
+              activeLesson={activeLesson}
+              source={source}
+              compiler={compiler}
+              onSelect={id => setLessonProgress(prev => ({ ...prev, current: id }))}
+              onStart={startLesson}
+              onComplete={id => setLessonProgress(prev => (prev.completed.includes(id)
+                ? prev
+                : { ...prev, completed: [...prev.completed, id] }))}
+            />
+          </>
+        )}
+
+        {showMocks && (
+          <>
+            <div style={styles.divider} />
+            <MocksPanel
+              endpoints={endpoints}
+              files={files}
+              table={mocks}
+              onChange={(key, route) => setMocks(prev => {
+                const next = { ...prev };
+                if (route) next[key] = route;
+                else delete next[key];
+                return next;
+              })}
+              requests={requests}
+              onClearRequests={() => setRequests([])}
+              onReveal={endpoint => revealDiagnostic({ file: endpoint.file, line: endpoint.line })}
+            />
+          </>
+        )}
+
+        {showRealtime && (
+          <>
+            <div style={styles.divider} />
+            <RealtimePanel
+              sockets={sockets}
+              log={socketLog}
+              onPush={(url, action, data) => previewRef.current?.pushSocket(url, action, data)}
+              onClearLog={() => setSocketLog([])}
+              onReveal={socket => revealDiagnostic({ file: socket.file, line: socket.line })}
+            />
+          </>
+        )}
+
+        {showOptions && (
+          <>
+            <div style={styles.divider} />
+            <CompileOptionsPanel options={options} target={target} onChange={setOptions} />
+          </>
+        )}
+
+        {showInspect && (
+          <>
+            <div style={styles.divider} />
+            <InspectPanel
+              source={source}
+              onSelectRange={range => {
+                setInspectRange(range);
+                if (range) editorRef.current?.scrollToLine(range.start);
+              }}
+            />
+          </>
+        )}
 
         {/* Divider */}
-        <div style={styles.divider} />
-
-        {/* Output Panel */}
-        <div style={styles.panel}>
-          <div style={styles.panelHeader}>
-            <span style={styles.panelTitle}>
-              Output ({TARGET_LABELS[target]} {TARGET_EXT[target]})
-            </span>
-            <span style={styles.panelInfo}>
-              {stats.lines} lines / {stats.tokens} tokens
-              {savings > 0 && (
-                <span style={styles.savings}> ({savings}% savings)</span>
-              )}
-              <button onClick={copyOutput} style={styles.copyBtn}>
-                {copied ? 'Copied!' : 'Copy'}
-              </button>
-              <button onClick={shareUrl} style={styles.copyBtn}>
-                Share
-              </button>
-            </span>
-          </div>
-          {error ? (
-            <div style={styles.errorPanel}>
-              <div style={styles.errorTitle}>Compilation Error</div>
-              <pre style={styles.errorText}>{error}</pre>
-            </div>
-          ) : (
-            <pre style={styles.outputCode}><code>{output}</code></pre>
-          )}
-        </div>
+        {(shown('source') || shown('problems')) && (shown('output') || shown('preview')) && <div style={styles.divider} />}
+
+        {compare ? (
+          <CompareView
+            files={files}
+            activeFile={activeFile}
+            options={options}
+            compiler={compiler}
+            tokenMethod={tokenMethod}
+            onRevealDiagnostic={revealDiagnostic}
+          />
+        ) : (
+          <>
+            {/* Output Panel */}
+            {shown('output') && (
+              <div style={styles.panel}>
+                <div style={styles.panelHeader}>
+                  <span style={styles.panelTitle}>
+                    {t('app.output', { target: TARGET_LABELS[project.target] })}
+                    <span style={styles.compileStatus}>
+                      {compiling
+                        ? t('common.compiling')
+                        : outcome && t('app.compiledIn', { ms: Math.round(outcome.response.durationMs) })}
+                    </span>
+                  </span>
+                  <span style={styles.panelInfo}>
+                    {t('common.lineTokenCount', { lines: metrics.output.lines, tokens: metrics.output.tokens })}
+                    {metrics.savings !== null && (
+                      <span
+                        style={metrics.savings >= 0 ? styles.savings : styles.growth}
+                        title={t('app.sourceTokens', { tokens: metrics.source.tokens })}
+                      >
+                        {metrics.savings >= 0
+                          ? t('app.savings', { percent: metrics.savings })
+                          : t('app.larger', { percent: -metrics.savings })}
+                      </span>
+                    )}
+                    <button
+                      onClick={() => setTokenMethod(m => (m === 'bpe' ? 'lexical' : 'bpe'))}
+                      style={styles.copyBtn}
+                      title={t('app.countingTitle', { method: t(`tokenMethod.${countedWith}`) })}
+                    >
+                      {countedWith === 'bpe' ? t('app.methodBpe') : t('app.methodLexical')}
+                    </button>
+                    <button onClick={() => setShowReport(true)} style={styles.copyBtn} title={t('app.reportTitle')}>
+                      {t('app.report')}
+                    </button>
+                    <button
+                      onClick={() => setPrettify(p => !p)}
+                      style={{ ...styles.copyBtn, ...(prettify ? styles.toggleOn : {}) }}
+                      title={formatted.error ? t('app.prettifyError', { error: formatted.error }) : t('app.prettifyTitle')}
+                    >
+                      {formatted.pending ? t('app.formatting') : formatted.error ? t('app.prettifyFailed') : t('app.prettify')}
+                    </button>
+                    <button onClick={copyOutput} style={styles.copyBtn}>
+                      {copied ? t('common.copied') : t('common.copy')}
+                    </button>
+                    <button onClick={shareUrl} style={styles.copyBtn}>
+                      {t('app.share')}
+                    </button>
+                    <button
+                      onClick={downloadProject}
+                      disabled={!downloadable}
+                      style={styles.copyBtn}
+                      title={downloadable ? t('app.downloadTitle') : t('app.downloadBlocked')}
+                    >
+                      {t('app.download')}
+                    </button>
+                  </span>
+                </div>
+                <FileTabs tabs={outputTabs} active={outputFile} onSelect={setOutputFile} />
+                {stale && firstError && (
+                  <button onClick={() => revealDiagnostic(firstError)} style={styles.staleBanner}>
+                    <span style={styles.errorTitle}>{t('common.compileError')}</span>
+                    <span style={styles.errorText}>
+                      {firstError.line !== undefined && t('common.lineNumber', { line: firstError.line })}{firstError.message}
+                    </span>
+                    <span style={styles.staleNote}>{t('app.staleOutput')}</span>
+                  </button>
+                )}
+                <CodeView
+                  ref={outputRef}
+                  code={formatted.code}
+                  highlights={outputHighlights}
+                  dimmed={stale}
+                  linkedLines={linked?.output}
+                  onHoverLine={line => setHover(line === null ? null : { side: 'output', line })}
+                  onLineClick={revealInSource}
+                />
+              </div>
+            )}
+
+            {shown('output') && shown('preview') && <div style={styles.divider} />}
+
+            {/* Preview Panel */}
+            {shown('preview') && (
+              <div style={styles.panel}>
+                <div style={styles.panelHeader}>
+                  <span style={styles.panelTitle}>{t('app.preview')}</span>
+                  <span style={styles.panelInfo}>{TARGET_LABELS[project.target]}</span>
+                </div>
+                <Preview
+                  ref={previewRef}
+                  target={project.target}
+                  entry={outputFileName(outputFile, project.target)}
+                  files={previewFiles}
+                  mocks={previewMocks}
+                  onRequest={logRequest}
+                  sockets={socketUrls}
+                  onSocketEvent={logSocketEvent}
+                />
+              </div>
+            )}
+          </>
+        )}
       </div>
 
+      {showExamples && (
+        <ExampleGallery
+          activeId={selectedExample}
+          onOpen={pickExample}
+          onClose={() => setShowExamples(false)}
+        />
+      )}
+
+      {showPalette && <CommandPalette items={paletteItems} onClose={() => setShowPalette(false)} />}
+
+      {showShortcuts && (
+        <ShortcutSheet shortcuts={shortcuts} onChange={setShortcuts} onClose={() => setShowShortcuts(false)} />
+      )}
+
+      {showReport && (
+        <TokenReport
+          files={files}
+          options={options}
+          compiler={compiler}
+          method={tokenMethod}
+          onMethodChange={setTokenMethod}
+          onClose={() => setShowReport(false)}
+        />
+      )}
+
+      {showVersionDiff && (
+        <VersionDiff
+          files={files}
+          activeFile={activeFile}
+          target={target}
+          options={options}
+          compiler={compiler}
+          onClose={() => setShowVersionDiff(false)}
+        />
+      )}
+
       {/* Footer */}
-      <footer style={styles.footer}>
-        <span>0x Compiler v0.1.0 — AI-First Programming Language</span>
-        <span style={styles.footerRight}>
-          React / Vue 3 / Svelte 5 code generation
-        </span>
-      </footer>
+      {!embed && (
+        <footer style={styles.footer}>
+          <span>
+            {t('app.compiler')}{' '}
+            <select
+              value={compiler}
+              onChange={e => setCompiler(e.target.value)}
+              style={styles.footerSelect}
+              title={t('app.compilerTitle', { version: compilerRelease(compiler).version })}
+            >
+              {COMPILERS.map(c => <option key={c.id} value={c.id}>{compilerLabel(c.id)}</option>)}
+            </select>
+            <button
+              onClick={() => setShowVersionDiff(true)}
+              disabled={COMPILERS.length < 2}
+              style={styles.copyBtn}
+              title={t('app.diffVersionsTitle')}
+            >
+              {t('app.diffVersions')}
+            </button>
+            {' '}— {t('app.tagline')}
+          </span>
+          <span style={styles.footerRight}>
+            {t('app.codegen')}
+            <button
+              onClick={() => setShowShortcuts(true)}
+              style={styles.copyBtn}
+              title={withShortcut(t('app.shortcutsTitle'), 'shortcuts')}
+            >
+              {t('app.shortcuts')}
+            </button>
+            <select
+              value={locale}
+              onChange={e => setLocale(e.target.value as Locale)}
+              style={styles.footerSelect}
+              aria-label={t('app.language')}
+            >
+              {(Object.keys(LOCALE_NAMES) as Locale[]).map(l => <option key={l} value={l}>{LOCALE_NAMES[l]}</option>)}
+            </select>
+          </span>
+        </footer>
+      )}
     </div>
   );
 }
@@ -230,15 +1141,33 @@ const styles: Record<string, React.CSSProperties> = {
     display: 'flex',
     alignItems: 'center',
   },
+  embedHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '4px 12px',
+    backgroundColor: '#161b22',
+    borderBottom: '1px solid #30363d',
+    gap: '12px',
+    flexShrink: 0,
+  },
+  embedLogo: {
+    fontSize: '13px',
+    fontWeight: 600,
+    color: '#e6edf3',
+    whiteSpace: 'nowrap',
+  },
   headerCenter: {
     display: 'flex',
     alignItems: 'center',
     flex: 1,
     justifyContent: 'center',
+    gap: '8px',
   },
   headerRight: {
     display: 'flex',
     alignItems: 'center',
+    gap: '8px',
   },
   logo: {
     fontSize: '18px',
@@ -259,10 +1188,6 @@ const styles: Record<string, React.CSSProperties> = {
     border: '1px solid #30363d',
     borderRadius: '12px',
   },
-  exampleButtons: {
-    display: 'flex',
-    gap: '4px',
-  },
   exampleBtn: {
     padding: '4px 12px',
     fontSize: '13px',
@@ -302,6 +1227,17 @@ const styles: Record<string, React.CSSProperties> = {
     color: '#e6edf3',
     backgroundColor: '#30363d',
   },
+  notice: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '6px 16px',
+    fontSize: '13px',
+    color: '#e6edf3',
+    backgroundColor: '#3d2a12',
+    borderBottom: '1px solid #d29922',
+    flexShrink: 0,
+  },
   main: {
     display: 'flex',
     flex: 1,
@@ -331,53 +1267,42 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: '12px',
     color: '#8b949e',
   },
+  compileStatus: {
+    marginLeft: '8px',
+    fontSize: '11px',
+    fontWeight: 400,
+    color: '#8b949e',
+  },
   savings: {
     color: '#3fb950',
     fontWeight: 600,
   },
-  editor: {
-    flex: 1,
-    padding: '16px',
-    backgroundColor: '#0d1117',
-    color: '#e6edf3',
-    border: 'none',
-    outline: 'none',
-    resize: 'none',
-    fontFamily: "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, monospace",
-    fontSize: '14px',
-    lineHeight: '1.6',
-    tabSize: 2,
-    whiteSpace: 'pre',
-    overflowWrap: 'normal',
-    overflowX: 'auto',
+  growth: {
+    color: '#f85149',
+    fontWeight: 600,
   },
   divider: {
     width: '1px',
     backgroundColor: '#30363d',
     flexShrink: 0,
   },
-  outputCode: {
-    flex: 1,
-    padding: '16px',
-    margin: 0,
-    backgroundColor: '#0d1117',
-    color: '#e6edf3',
-    fontFamily: "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, monospace",
-    fontSize: '13px',
-    lineHeight: '1.6',
-    overflow: 'auto',
-    whiteSpace: 'pre',
-  },
-  errorPanel: {
-    flex: 1,
-    padding: '16px',
-    backgroundColor: '#0d1117',
-    overflow: 'auto',
+  staleBanner: {
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'flex-start',
+    gap: '4px',
+    padding: '10px 16px',
+    backgroundColor: '#1c1214',
+    border: 'none',
+    borderBottom: '1px solid #f85149',
+    textAlign: 'left',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+    flexShrink: 0,
   },
   errorTitle: {
     color: '#f85149',
     fontWeight: 600,
-    marginBottom: '8px',
     fontSize: '14px',
   },
   errorText: {
@@ -388,6 +1313,10 @@ const styles: Record<string, React.CSSProperties> = {
     whiteSpace: 'pre-wrap',
     margin: 0,
   },
+  staleNote: {
+    color: '#8b949e',
+    fontSize: '12px',
+  },
   footer: {
     display: 'flex',
     justifyContent: 'space-between',
@@ -400,8 +1329,20 @@ const styles: Record<string, React.CSSProperties> = {
     flexShrink: 0,
   },
   footerRight: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
     color: '#58a6ff',
   },
+  footerSelect: {
+    padding: '1px 4px',
+    fontSize: '12px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    fontFamily: 'inherit',
+  },
   copyBtn: {
     marginLeft: '8px',
     padding: '2px 8px',
@@ -413,6 +1354,10 @@ const styles: Record<string, React.CSSProperties> = {
     cursor: 'pointer',
     fontFamily: 'inherit',
   },
+  toggleOn: {
+    color: '#58a6ff',
+    borderColor: '#58a6ff',
+  },
 };
 
 export default App;
@@ -0,0 +1,303 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import type { LineRange } from './sourceMap';
+import { TOKEN_COLORS, type HighlightRange, type TokenKind } from './tokenColors';
+import { useLocale } from './useLocale';
+
+// Scroll positions are fractional 0-based line numbers, so folded regions
+// and wrapped toolbars do not throw off callers that align several views.
+export interface CodeViewHandle {
+  topLine(): number;
+  scrollToLine(line: number): void;
+  // Unfolds and centers a line.
+  revealLine(line: number): void;
+}
+
+interface CodeViewProps {
+  code: string;
+  highlights: HighlightRange[];
+  dimmed?: boolean;
+  onScroll?(): void;
+  // Lines tied to whatever is hovered in the editor.
+  linkedLines?: LineRange | null;
+  onHoverLine?(line: number | null): void;
+  onLineClick?(line: number): void;
+}
+
+interface FoldRegion {
+  start: number;
+  end: number; // last hidden line, inclusive
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+// A region starts at any line followed by more deeply indented lines and
+// runs until the indentation comes back, so closing braces and tags stay
+// visible under the folded header.
+function foldRegions(lines: string[]): Map<number, FoldRegion> {
+  const regions = new Map<number, FoldRegion>();
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const indent = indentOf(lines[i]);
+    let end = i;
+    for (let j = i + 1; j < lines.length; j++) {
+      if (!lines[j].trim()) continue;
+      if (indentOf(lines[j]) <= indent) break;
+      end = j;
+    }
+    if (end - i >= 2) regions.set(i, { start: i, end });
+  }
+  return regions;
+}
+
+function splitRuns(text: string, ranges: HighlightRange[]): { text: string; kind: TokenKind }[] {
+  const runs: { text: string; kind: TokenKind }[] = [];
+  let pos = 0;
+  for (const r of ranges) {
+    if (r.start < pos) continue;
+    if (r.start > pos) runs.push({ text: text.slice(pos, r.start), kind: 'plain' });
+    runs.push({ text: text.slice(r.start, r.end), kind: r.kind });
+    pos = r.end;
+  }
+  if (pos < text.length) runs.push({ text: text.slice(pos), kind: 'plain' });
+  return runs;
+}
+
+const CodeView = forwardRef<CodeViewHandle, CodeViewProps>(function CodeView(props, ref) {
+  const { code, highlights, dimmed, onScroll, linkedLines, onHoverLine, onLineClick } = props;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const linesRef = useRef<HTMLDivElement>(null);
+  const lines = useMemo(() => code.split('\n'), [code]);
+  const regions = useMemo(() => foldRegions(lines), [lines]);
+  const { t } = useLocale();
+  const [folded, setFolded] = useState<Set<number>>(new Set());
+  const [revealing, setRevealing] = useState<number | null>(null);
+
+  // Drop folds whose region no longer exists after the output changes.
+  useEffect(() => {
+    setFolded(prev => {
+      const next = new Set([...prev].filter(start => regions.has(start)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [regions]);
+
+  const byLine = useMemo(() => {
+    const map = new Map<number, HighlightRange[]>();
+    for (const h of highlights) map.set(h.line, [...(map.get(h.line) ?? []), h]);
+    for (const list of map.values()) list.sort((a, b) => a.start - b.start);
+    return map;
+  }, [highlights]);
+
+  // Scrolls once the unfolded rows are in the DOM.
+  useEffect(() => {
+    if (revealing === null) return;
+    const container = containerRef.current;
+    const row = linesRef.current?.querySelector<HTMLElement>(`[data-line="${revealing}"]`);
+    if (container && row) container.scrollTop = row.offsetTop - (container.clientHeight - row.offsetHeight) / 2;
+    setRevealing(null);
+  }, [revealing]);
+
+  const visibleRows = () => [...(linesRef.current?.children ?? [])] as HTMLElement[];
+
+  useImperativeHandle(ref, () => ({
+    topLine() {
+      const top = containerRef.current?.scrollTop ?? 0;
+      for (const row of visibleRows()) {
+        if (row.offsetTop + row.offsetHeight <= top) continue;
+        return Number(row.dataset.line) + Math.max(0, top - row.offsetTop) / row.offsetHeight;
+      }
+      return lines.length;
+    },
+    scrollToLine(line) {
+      const container = containerRef.current;
+      if (!container) return;
+      // Lines inside a fold scroll to the fold's header row.
+      let target: HTMLElement | undefined;
+      for (const row of visibleRows()) {
+        if (Number(row.dataset.line) > line) break;
+        target = row;
+      }
+      if (!target) {
+        container.scrollTop = 0;
+        return;
+      }
+      const inside = Math.min(1, line - Number(target.dataset.line));
+      container.scrollTop = target.offsetTop + inside * target.offsetHeight;
+    },
+    revealLine(line) {
+      setFolded(prev => {
+        const next = new Set([...prev].filter(start => {
+          const region = regions.get(start);
+          return !region || line <= start || line > region.end;
+        }));
+        return next.size === prev.size ? prev : next;
+      });
+      setRevealing(line);
+    },
+  }), [lines, regions]);
+
+  const toggle = (start: number) => {
+    setFolded(prev => {
+      const next = new Set(prev);
+      if (next.has(start)) next.delete(start);
+      else next.add(start);
+      return next;
+    });
+  };
+
+  const rows: React.ReactNode[] = [];
+  const numberWidth = `${String(lines.length).length}ch`;
+  for (let i = 0; i < lines.length; i++) {
+    const region = regions.get(i);
+    const isFolded = folded.has(i) && region;
+    rows.push(
+      <div
+        key={i}
+        data-line={i}
+        style={{
+          ...styles.row,
+          ...(linkedLines && i >= linkedLines.start && i <= linkedLines.end ? styles.rowLinked : {}),
+        }}
+        onMouseEnter={() => onHoverLine?.(i)}
+        onClick={() => {
+          // Ignore clicks that end a text selection.
+          if (onLineClick && window.getSelection()?.isCollapsed !== false) onLineClick(i);
+        }}
+      >
+        <span style={styles.gutter}>
+          <span style={{ ...styles.lineNumber, width: numberWidth }}>{i + 1}</span>
+          <button
+            onClick={e => {
+              e.stopPropagation();
+              if (region) toggle(i);
+            }}
+            style={{ ...styles.foldToggle, visibility: region ? 'visible' : 'hidden' }}
+            tabIndex={region ? 0 : -1}
+          >
+            {isFolded ? '▸' : '▾'}
+          </button>
+        </span>
+        <span style={styles.code}>
+          {splitRuns(lines[i], byLine.get(i) ?? []).map((run, j) => (
+            <span key={j} style={{ color: TOKEN_COLORS[run.kind] }}>{run.text}</span>
+          ))}
+          {isFolded && (
+            <button
+              onClick={e => {
+                e.stopPropagation();
+                toggle(i);
+              }}
+              style={styles.foldPlaceholder}
+            >
+              ⋯ {region.end - region.start} lines
+            </button>
+          )}
+        </span>
+      </div>,
+    );
+    if (isFolded) i = region.end;
+  }
+
+  return (
+    <div ref={containerRef} onScroll={onScroll} style={{ ...styles.container, ...(dimmed ? styles.dimmed : {}) }}>
+      {regions.size > 0 && (
+        <div style={styles.toolbar}>
+          <button onClick={() => setFolded(new Set(regions.keys()))} style={styles.toolbarBtn}>{t('code.foldAll')}</button>
+          <button onClick={() => setFolded(new Set())} style={styles.toolbarBtn}>{t('code.unfoldAll')}</button>
+        </div>
+      )}
+      <div ref={linesRef} style={styles.lines} onMouseLeave={() => onHoverLine?.(null)}>{rows}</div>
+    </div>
+  );
+});
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    flex: 1,
+    position: 'relative',
+    overflow: 'auto',
+    backgroundColor: '#0d1117',
+    fontFamily: "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, monospace",
+    fontSize: '13px',
+    lineHeight: '1.6',
+  },
+  dimmed: {
+    opacity: 0.45,
+  },
+  toolbar: {
+    position: 'sticky',
+    top: 0,
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: '4px',
+    height: 0,
+    overflow: 'visible',
+    zIndex: 1,
+  },
+  toolbarBtn: {
+    marginTop: '6px',
+    padding: '1px 6px',
+    height: '20px',
+    fontSize: '11px',
+    color: '#8b949e',
+    backgroundColor: '#161b22',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  lines: {
+    padding: '16px 16px 16px 0',
+    minWidth: 'max-content',
+  },
+  row: {
+    display: 'flex',
+    whiteSpace: 'pre',
+  },
+  rowLinked: {
+    backgroundColor: 'rgba(56, 139, 253, 0.15)',
+  },
+  gutter: {
+    position: 'sticky',
+    left: 0,
+    display: 'flex',
+    alignItems: 'center',
+    flexShrink: 0,
+    paddingLeft: '8px',
+    marginRight: '12px',
+    backgroundColor: '#0d1117',
+    userSelect: 'none',
+  },
+  lineNumber: {
+    color: '#484f58',
+    fontSize: '12px',
+    textAlign: 'right',
+  },
+  foldToggle: {
+    width: '16px',
+    padding: 0,
+    marginLeft: '4px',
+    fontSize: '10px',
+    color: '#8b949e',
+    backgroundColor: 'transparent',
+    border: 'none',
+    cursor: 'pointer',
+  },
+  code: {
+    flex: 1,
+  },
+  foldPlaceholder: {
+    marginLeft: '8px',
+    padding: '0 6px',
+    fontSize: '11px',
+    color: '#8b949e',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+};
+
+export default CodeView;
@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { formatCombo } from './shortcuts';
+import { useLocale } from './useLocale';
+
+export interface PaletteItem {
+  key: string;
+  label: string;
+  group: string;
+  // The combination that runs it directly, if any.
+  shortcut: string | null;
+  run(): void;
+}
+
+interface CommandPaletteProps {
+  items: PaletteItem[];
+  onClose(): void;
+}
+
+// Every playground action in one searchable list. Arrow keys move the
+// selection, Enter runs it, Escape closes.
+function CommandPalette({ items, onClose }: CommandPaletteProps) {
+  const { t } = useLocale();
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const shown = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return items.filter(item => {
+      const haystack = `${item.label} ${item.group}`.toLowerCase();
+      return words.every(word => haystack.includes(word));
+    });
+  }, [items, query]);
+
+  useEffect(() => setSelected(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const run = (item: PaletteItem) => {
+    onClose();
+    item.run();
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelected(i => (shown.length ? (i + step + shown.length) % shown.length : 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (shown[selected]) run(shown[selected]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div style={styles.backdrop} onClick={onClose}>
+      <div style={styles.dialog} onClick={e => e.stopPropagation()} role="dialog" aria-label={t('command.palette')}>
+        <input
+          autoFocus
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={onKeyDown}
+          placeholder={t('palette.placeholder')}
+          style={styles.search}
+        />
+        {shown.length === 0 && <div style={styles.empty}>{t('palette.empty')}</div>}
+        <ul ref={listRef} style={styles.list} role="listbox">
+          {shown.map((item, i) => (
+            <li
+              key={item.key}
+              role="option"
+              aria-selected={i === selected}
+              onMouseMove={() => setSelected(i)}
+              onClick={() => run(item)}
+              style={{ ...styles.item, ...(i === selected ? styles.itemSelected : {}) }}
+            >
+              <span style={styles.group}>{item.group}</span>
+              <span style={styles.label}>{item.label}</span>
+              {item.shortcut && <kbd style={styles.kbd}>{formatCombo(item.shortcut)}</kbd>}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+const MONO = "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, monospace";
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: 'fixed',
+    inset: 0,
+    display: 'flex',
+    alignItems: 'flex-start',
+    justifyContent: 'center',
+    paddingTop: '12vh',
+    backgroundColor: 'rgba(1, 4, 9, 0.7)',
+    zIndex: 10,
+  },
+  dialog: {
+    width: 'min(560px, 92vw)',
+    maxHeight: '60vh',
+    display: 'flex',
+    flexDirection: 'column',
+    backgroundColor: '#161b22',
+    border: '1px solid #30363d',
+    borderRadius: '8px',
+    overflow: 'hidden',
+  },
+  search: {
+    padding: '10px 14px',
+    fontSize: '14px',
+    color: '#e6edf3',
+    backgroundColor: '#0d1117',
+    border: 'none',
+    borderBottom: '1px solid #30363d',
+    outline: 'none',
+    fontFamily: 'inherit',
+  },
+  empty: {
+    padding: '10px 14px',
+    fontSize: '12px',
+    color: '#8b949e',
+  },
+  list: {
+    listStyle: 'none',
+    margin: 0,
+    padding: '4px 0',
+    overflow: 'auto',
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: '10px',
+    padding: '6px 14px',
+    fontSize: '13px',
+    color: '#e6edf3',
+    cursor: 'pointer',
+  },
+  itemSelected: {
+    backgroundColor: '#1f6feb33',
+  },
+  group: {
+    width: '72px',
+    flexShrink: 0,
+    fontSize: '11px',
+    color: '#8b949e',
+  },
+  label: {
+    flex: 1,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  kbd: {
+    padding: '0 6px',
+    fontFamily: MONO,
+    fontSize: '11px',
+    color: '#8b949e',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+  },
+};
+
+export default CommandPalette;
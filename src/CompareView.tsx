@@ -0,0 +1,266 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import CodeView, { type CodeViewHandle } from './CodeView';
+import { alignOutput, anchorAt, mapLine, type Anchor } from './alignment';
+import type { CompileOptions } from './compileOptions';
+import { diagnosticsFromFileResult, type Diagnostic } from './diagnostics';
+import { highlightOutput } from './outputHighlight';
+import { outputFileName, type SourceFile } from './project';
+import { TARGETS, TARGET_LABELS, type Target } from './targets';
+import type { SideMetrics, TokenMethod } from './tokenMetrics';
+import { useCompiler } from './useCompiler';
+import { useLocale } from './useLocale';
+
+interface CompareViewProps {
+  files: SourceFile[];
+  activeFile: string;
+  options: CompileOptions;
+  compiler: string;
+  tokenMethod: TokenMethod;
+  onRevealDiagnostic(diagnostic: Diagnostic): void;
+}
+
+// What a column publishes so its siblings can scroll along with it.
+interface ColumnInfo {
+  view: CodeViewHandle | null;
+  anchors: Anchor[];
+  sourceLines: number;
+  outputLines: number;
+}
+
+interface ColumnProps extends CompareViewProps {
+  target: Target;
+  register(target: Target, info: ColumnInfo): void;
+  onDrive(target: Target): void;
+  onScroll(target: Target): void;
+}
+
+interface GoodOutput {
+  source: string;
+  code: string;
+  size: SideMetrics;
+}
+
+// Compiles every target side by side. Each column runs its own compile
+// worker, so one target failing or timing out never holds up the others.
+// Scrolling any column scrolls the rest to the same 0x construct.
+function CompareView(props: CompareViewProps) {
+  const columns = useRef(new Map<Target, ColumnInfo>());
+  const driver = useRef<Target | null>(null);
+  const { t } = useLocale();
+  const [construct, setConstruct] = useState<string | null>(null);
+
+  const register = useCallback((target: Target, info: ColumnInfo) => {
+    columns.current.set(target, info);
+  }, []);
+
+  const onDrive = useCallback((target: Target) => {
+    driver.current = target;
+  }, []);
+
+  // Only the column under the pointer (or holding focus) drives; the scroll
+  // events caused by aligning the others are ignored.
+  const onScroll = useCallback((target: Target) => {
+    if (driver.current !== target) return;
+    const from = columns.current.get(target);
+    if (!from?.view) return;
+    const sourceLine = mapLine(from.anchors, from.view.topLine(), 'toSource', from.sourceLines, from.outputLines);
+    setConstruct(anchorAt(from.anchors, sourceLine)?.label ?? null);
+    for (const [other, info] of columns.current) {
+      if (other === target || !info.view) continue;
+      info.view.scrollToLine(mapLine(info.anchors, sourceLine, 'toOutput', info.sourceLines, info.outputLines));
+    }
+  }, []);
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <span style={styles.title}>{t('compare.title')}</span>
+        <span style={styles.info}>{construct ? t('compare.alignedAt', { construct }) : t('compare.hint')}</span>
+      </div>
+      <div style={styles.columns}>
+        {TARGETS.map((target, i) => (
+          <React.Fragment key={target}>
+            {i > 0 && <div style={styles.divider} />}
+            <CompareColumn
+              {...props}
+              target={target}
+              register={register}
+              onDrive={onDrive}
+              onScroll={onScroll}
+            />
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function CompareColumn(props: ColumnProps) {
+  const { files, activeFile, options, compiler, tokenMethod, target, register, onDrive, onScroll, onRevealDiagnostic } = props;
+  const { outcome, compiling } = useCompiler(files, target, options, compiler, tokenMethod);
+  const { locale, t } = useLocale();
+  const viewRef = useRef<CodeViewHandle>(null);
+  // Last good output per file, so a failing compile dims instead of blanking.
+  const [good, setGood] = useState<Record<string, GoodOutput>>({});
+
+  const result = outcome?.response.results.find(r => r.name === activeFile);
+  const compiledSource = outcome?.files.find(f => f.name === activeFile)?.source ?? '';
+
+  useEffect(() => {
+    if (!outcome) return;
+    setGood(prev => {
+      const next = { ...prev };
+      for (const r of outcome.response.results) {
+        if (!r.ok) continue;
+        const source = outcome.files.find(f => f.name === r.name)?.source ?? '';
+        next[r.name] = { source, code: r.code, size: r.outputSize };
+      }
+      return next;
+    });
+  }, [outcome]);
+
+  const shown = good[activeFile];
+  const code = shown?.code ?? '';
+  const highlights = useMemo(() => highlightOutput(code, target), [code, target]);
+  const anchors = useMemo(() => (shown ? alignOutput(shown.source, shown.code, target) : []), [shown, target]);
+
+  useEffect(() => {
+    register(target, {
+      view: viewRef.current,
+      anchors,
+      sourceLines: shown ? shown.source.split('\n').length : 0,
+      outputLines: code.split('\n').length,
+    });
+  }, [register, target, anchors, shown, code]);
+
+  const firstError = result && !result.ok
+    ? diagnosticsFromFileResult(result, compiledSource, locale).find(d => d.severity === 'error')
+    : undefined;
+
+  return (
+    <div
+      style={styles.column}
+      onMouseEnter={() => onDrive(target)}
+      onFocus={() => onDrive(target)}
+    >
+      <div style={styles.columnHeader}>
+        <span style={styles.columnTitle}>
+          {TARGET_LABELS[target]}
+          <span style={styles.fileName}>{outputFileName(activeFile, target)}</span>
+        </span>
+        <span style={styles.info}>
+          {compiling
+            ? t('common.compiling')
+            : shown ? t('common.lineTokenCount', { lines: shown.size.lines, tokens: shown.size.tokens }) : ''}
+        </span>
+      </div>
+      {firstError && (
+        <button onClick={() => onRevealDiagnostic(firstError)} style={styles.errorBanner}>
+          <span style={styles.errorTitle}>{t('compare.failed', { target: TARGET_LABELS[target] })}</span>
+          <span style={styles.errorText}>
+            {firstError.line !== undefined && t('common.lineNumber', { line: firstError.line })}{firstError.message}
+          </span>
+        </button>
+      )}
+      <CodeView
+        ref={viewRef}
+        code={code}
+        highlights={highlights}
+        dimmed={!!firstError}
+        onScroll={() => onScroll(target)}
+      />
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    flex: 2,
+    display: 'flex',
+    flexDirection: 'column',
+    overflow: 'hidden',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '8px 16px',
+    backgroundColor: '#161b22',
+    borderBottom: '1px solid #30363d',
+    flexShrink: 0,
+  },
+  title: {
+    fontSize: '13px',
+    fontWeight: 600,
+    color: '#e6edf3',
+  },
+  info: {
+    fontSize: '12px',
+    color: '#8b949e',
+  },
+  columns: {
+    flex: 1,
+    display: 'flex',
+    overflow: 'hidden',
+  },
+  divider: {
+    width: '1px',
+    backgroundColor: '#30363d',
+    flexShrink: 0,
+  },
+  column: {
+    flex: 1,
+    minWidth: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    overflow: 'hidden',
+  },
+  columnHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '6px 12px',
+    backgroundColor: '#0d1117',
+    borderBottom: '1px solid #30363d',
+    flexShrink: 0,
+  },
+  columnTitle: {
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#e6edf3',
+    whiteSpace: 'nowrap',
+  },
+  fileName: {
+    marginLeft: '8px',
+    fontWeight: 400,
+    color: '#8b949e',
+  },
+  errorBanner: {
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'flex-start',
+    gap: '2px',
+    padding: '8px 12px',
+    backgroundColor: '#1c1214',
+    border: 'none',
+    borderBottom: '1px solid #f85149',
+    textAlign: 'left',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+    flexShrink: 0,
+  },
+  errorTitle: {
+    color: '#f85149',
+    fontWeight: 600,
+    fontSize: '12px',
+  },
+  errorText: {
+    color: '#f85149',
+    fontFamily: "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, monospace",
+    fontSize: '12px',
+    whiteSpace: 'pre-wrap',
+  },
+};
+
+export default CompareView;
@@ -0,0 +1,155 @@
+import React from 'react';
+import {
+  COMPILE_OPTION_SPECS,
+  compilerArguments,
+  DEFAULT_COMPILE_OPTIONS,
+  type CompileOptions,
+} from './compileOptions';
+import type { Target } from './targets';
+import { useLocale } from './useLocale';
+
+interface CompileOptionsPanelProps {
+  options: CompileOptions;
+  target: Target;
+  onChange(options: CompileOptions): void;
+}
+
+// Every option passed to `compile()`, each with its control, and the exact
+// arguments the compiler receives.
+function CompileOptionsPanel({ options, target, onChange }: CompileOptionsPanelProps) {
+  const { t } = useLocale();
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <span style={styles.title}>{t('options.title')}</span>
+        <button onClick={() => onChange(DEFAULT_COMPILE_OPTIONS)} style={styles.smallBtn}>
+          {t('common.reset')}
+        </button>
+      </div>
+
+      <div style={styles.scroll}>
+        {COMPILE_OPTION_SPECS.map(spec => (
+          <label key={spec.key} style={styles.option}>
+            <input
+              type="checkbox"
+              checked={options[spec.key]}
+              onChange={e => onChange({ ...options, [spec.key]: e.target.checked })}
+            />
+            <span style={styles.optionText}>
+              <span style={styles.optionLabel}>
+                {t(`compileOption.${spec.key}`)}
+                <code style={styles.key}>{spec.key}</code>
+                {options[spec.key] !== DEFAULT_COMPILE_OPTIONS[spec.key] && <span style={styles.changed}>{t('options.changed')}</span>}
+              </span>
+              <span style={styles.description}>{t(`compileOption.${spec.key}.description`)}</span>
+            </span>
+          </label>
+        ))}
+
+        <div style={styles.section}>
+          <span style={styles.optionLabel}>{t('options.receives')}</span>
+          <pre style={styles.preview}>{JSON.stringify(compilerArguments(options, target), null, 2)}</pre>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const MONO = "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, monospace";
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    width: '340px',
+    flexShrink: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    overflow: 'hidden',
+    backgroundColor: '#0d1117',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '8px 12px',
+    backgroundColor: '#161b22',
+    borderBottom: '1px solid #30363d',
+    flexShrink: 0,
+  },
+  title: {
+    fontSize: '13px',
+    fontWeight: 600,
+    color: '#e6edf3',
+  },
+  scroll: {
+    flex: 1,
+    overflow: 'auto',
+  },
+  option: {
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: '8px',
+    padding: '10px 12px',
+    borderBottom: '1px solid #21262d',
+    cursor: 'pointer',
+  },
+  optionText: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+  },
+  optionLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#e6edf3',
+  },
+  key: {
+    fontFamily: MONO,
+    fontSize: '11px',
+    fontWeight: 400,
+    color: '#8b949e',
+  },
+  changed: {
+    fontSize: '10px',
+    fontWeight: 400,
+    color: '#d29922',
+  },
+  description: {
+    fontSize: '12px',
+    lineHeight: '1.5',
+    color: '#8b949e',
+  },
+  section: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    padding: '10px 12px',
+    borderBottom: '1px solid #21262d',
+  },
+  preview: {
+    margin: 0,
+    padding: '6px 8px',
+    fontFamily: MONO,
+    fontSize: '12px',
+    color: '#a5d6ff',
+    backgroundColor: '#010409',
+    border: '1px solid #21262d',
+    borderRadius: '4px',
+    overflowX: 'auto',
+  },
+  smallBtn: {
+    padding: '2px 8px',
+    fontSize: '11px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+};
+
+export default CompileOptionsPanel;
@@ -0,0 +1,735 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import type { Diagnostic } from './diagnostics';
+import { completionsAt, hoverAt, type Completion, type CompletionKind, type HoverInfo } from './languageService';
+import type { LineRange } from './sourceMap';
+import { highlightSource } from './sourceHighlight';
+import { TOKEN_COLORS, type TokenKind } from './tokenColors';
+import { useLocale } from './useLocale';
+
+export interface EditorHandle {
+  revealPosition(line: number, column?: number): void;
+  // Centers a 0-based line without moving the caret or focus.
+  scrollToLine(line: number): void;
+  // Replaces the whole text as one undoable edit, keeping the caret's line.
+  replaceText(text: string): void;
+}
+
+interface EditorProps {
+  value: string;
+  onChange(value: string): void;
+  diagnostics: Diagnostic[];
+  // Lines tied to whatever is hovered in the output panel.
+  linkedLines?: LineRange | null;
+  // 0-based line under the pointer, or null when it leaves the text.
+  onHoverLine?(line: number | null): void;
+  // Ctrl/Cmd+click on a line.
+  onLineClick?(line: number): void;
+  readOnly?: boolean;
+}
+
+const SEVERITY_COLORS = {
+  error: '#f85149',
+  warning: '#d29922',
+};
+
+const KIND_BADGES: Record<CompletionKind, { label: string; color: string }> = {
+  keyword: { label: 'kw', color: '#ff7b72' },
+  element: { label: 'el', color: '#7ee787' },
+  prop: { label: 'pr', color: '#79c0ff' },
+  value: { label: 'va', color: '#a5d6ff' },
+  identifier: { label: 'id', color: '#d2a8ff' },
+};
+
+// Pointer rest time before a hover card appears.
+const HOVER_DELAY = 400;
+
+const BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSING: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+// Everything that can change how a single character is drawn in the
+// backdrop. Adjacent characters with equal decorations share one span.
+interface Decoration {
+  kind: TokenKind;
+  diagnostic?: Diagnostic;
+  bracket: boolean;
+  guide: 'none' | 'dim' | 'active';
+}
+
+interface Run extends Decoration {
+  text: string;
+}
+
+// Where a popup hangs, in px from the top-left of the text area.
+interface Anchor {
+  left: number;
+  top: number;
+}
+
+function detectIndentUnit(lines: string[]): number {
+  let unit = 0;
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const indent = line.length - line.trimStart().length;
+    if (indent > 0 && (unit === 0 || indent < unit)) unit = indent;
+  }
+  return unit === 0 ? 2 : unit;
+}
+
+// Indent depth per line. Blank lines inherit the shallower of their
+// neighbours so guides run through the gaps between `fn` blocks.
+function indentDepths(lines: string[], unit: number): number[] {
+  const raw = lines.map(l => (l.trim() ? Math.floor((l.length - l.trimStart().length) / unit) : -1));
+  return raw.map((depth, i) => {
+    if (depth !== -1) return depth;
+    let prev = 0;
+    for (let j = i - 1; j >= 0; j--) if (raw[j] !== -1) { prev = raw[j]; break; }
+    let next = 0;
+    for (let j = i + 1; j < raw.length; j++) if (raw[j] !== -1) { next = raw[j]; break; }
+    return Math.min(prev, next);
+  });
+}
+
+function matchBracket(text: string, caret: number): [number, number] | null {
+  for (const pos of [caret - 1, caret]) {
+    const ch = text[pos];
+    if (ch && (BRACKETS[ch] || CLOSING[ch])) {
+      const forward = Boolean(BRACKETS[ch]);
+      const other = forward ? BRACKETS[ch] : CLOSING[ch];
+      let depth = 0;
+      for (let i = pos; forward ? i < text.length : i >= 0; i += forward ? 1 : -1) {
+        if (text[i] === ch) depth++;
+        else if (text[i] === other && --depth === 0) return [pos, i];
+      }
+      return null;
+    }
+  }
+  return null;
+}
+
+function lineOffsets(lines: string[]): number[] {
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    offsets.push(offset);
+    offset += line.length + 1;
+  }
+  return offsets;
+}
+
+const Editor = forwardRef<EditorHandle, EditorProps>(function Editor({ value, onChange, diagnostics, linkedLines, onHoverLine, onLineClick, readOnly = false }, ref) {
+  const { locale } = useLocale();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const hoverLine = useRef<number | null>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [completion, setCompletion] = useState<(Completion & { selected: number; anchor: Anchor }) | null>(null);
+  const [hover, setHover] = useState<(HoverInfo & { anchor: Anchor }) | null>(null);
+  const hoverTimer = useRef<number>();
+
+  useEffect(() => () => window.clearTimeout(hoverTimer.current), []);
+
+  const lines = useMemo(() => value.split('\n'), [value]);
+  const offsets = useMemo(() => lineOffsets(lines), [lines]);
+  const unit = useMemo(() => detectIndentUnit(lines), [lines]);
+  const depths = useMemo(() => indentDepths(lines, unit), [lines, unit]);
+  const highlights = useMemo(() => highlightSource(value), [value]);
+
+  const caretLine = useMemo(() => {
+    let line = 0;
+    while (line + 1 < offsets.length && offsets[line + 1] <= caret) line++;
+    return line;
+  }, [offsets, caret]);
+
+  // The guide for the block the caret sits in, as [depth, firstLine, lastLine].
+  const activeGuide = useMemo(() => {
+    const depth = lines[caretLine]?.trim() ? depths[caretLine] : depths[caretLine] + 1;
+    if (depth <= 0) return null;
+    let first = caretLine;
+    while (first > 0 && depths[first - 1] >= depth) first--;
+    let last = caretLine;
+    while (last + 1 < lines.length && depths[last + 1] >= depth) last++;
+    return [depth - 1, first, last] as const;
+  }, [lines, depths, caretLine]);
+
+  const runs = useMemo(() => {
+    const decorations: Decoration[][] = lines.map(l =>
+      Array.from({ length: l.length }, () => ({ kind: 'plain' as TokenKind, bracket: false, guide: 'none' as const })));
+
+    for (const h of highlights) {
+      const row = decorations[h.line];
+      if (!row) continue;
+      for (let c = h.start; c < h.end && c < row.length; c++) row[c].kind = h.kind;
+    }
+    for (const d of diagnostics) {
+      if (d.line === undefined || d.column === undefined) continue;
+      const row = decorations[d.line - 1];
+      if (!row) continue;
+      // Squiggles past the end of a line (or on an empty one) still need a
+      // glyph to hang from.
+      const end = Math.max((d.endColumn ?? d.column + 1) - 1, d.column);
+      while (row.length < end) row.push({ kind: 'plain', bracket: false, guide: 'none' });
+      for (let c = d.column - 1; c < end; c++) {
+        if (!row[c].diagnostic || d.severity === 'error') row[c].diagnostic = d;
+      }
+    }
+    const pair = matchBracket(value, caret);
+    for (const pos of pair ?? []) {
+      let row = 0;
+      while (row + 1 < offsets.length && offsets[row + 1] <= pos) row++;
+      const cell = decorations[row]?.[pos - offsets[row]];
+      if (cell) cell.bracket = true;
+    }
+
+    return decorations.map((row, i) => {
+      const guides = depths[i];
+      // Blank lines get padded so their guides have something to draw on.
+      while (row.length < guides * unit) row.push({ kind: 'plain', bracket: false, guide: 'none' });
+      for (let g = 0; g < guides; g++) {
+        const cell = row[g * unit];
+        const active = activeGuide && activeGuide[0] === g && i >= activeGuide[1] && i <= activeGuide[2];
+        if (cell) cell.guide = active ? 'active' : 'dim';
+      }
+      const text = lines[i].padEnd(row.length, ' ');
+      const out: Run[] = [];
+      row.forEach((cell, c) => {
+        const last = out[out.length - 1];
+        if (last && last.kind === cell.kind && last.diagnostic === cell.diagnostic &&
+          last.bracket === cell.bracket && last.guide === 'none' && cell.guide === 'none') {
+          last.text += text[c];
+        } else {
+          out.push({ ...cell, text: text[c] });
+        }
+      });
+      return out;
+    });
+  }, [lines, offsets, highlights, diagnostics, depths, unit, activeGuide, value, caret]);
+
+  const lineMarkers = useMemo(() => {
+    const markers = new Map<number, Diagnostic[]>();
+    for (const d of diagnostics) {
+      if (d.line !== undefined) markers.set(d.line, [...(markers.get(d.line) ?? []), d]);
+    }
+    return markers;
+  }, [diagnostics]);
+
+  // Glyph metrics for placing popups; the textarea is monospace.
+  const metrics = () => {
+    const ta = textareaRef.current!;
+    const style = getComputedStyle(ta);
+    const ctx = document.createElement('canvas').getContext('2d')!;
+    ctx.font = `${style.fontSize} ${style.fontFamily}`;
+    return {
+      charWidth: ctx.measureText('0').width,
+      lineHeight: parseFloat(style.lineHeight),
+      padLeft: parseFloat(style.paddingLeft),
+      padTop: parseFloat(style.paddingTop),
+    };
+  };
+
+  // Just below the character at `offset`, in the textarea's current scroll.
+  const anchorAt = (text: string, offset: number): Anchor => {
+    const ta = textareaRef.current!;
+    const m = metrics();
+    const before = text.slice(0, offset).split('\n');
+    return {
+      left: m.padLeft + before[before.length - 1].length * m.charWidth - ta.scrollLeft,
+      top: m.padTop + before.length * m.lineHeight - ta.scrollTop,
+    };
+  };
+
+  const suggest = (explicit: boolean) => {
+    const ta = textareaRef.current!;
+    const result = ta.selectionStart === ta.selectionEnd ? completionsAt(ta.value, ta.selectionStart, locale, explicit) : null;
+    setCompletion(result && { ...result, selected: 0, anchor: anchorAt(ta.value, result.from) });
+  };
+
+  const syncScroll = () => {
+    const ta = textareaRef.current;
+    if (!ta) return;
+    setCompletion(null);
+    setHover(null);
+    if (backdropRef.current) {
+      backdropRef.current.style.transform = `translate(${-ta.scrollLeft}px, ${-ta.scrollTop}px)`;
+    }
+    if (gutterRef.current) {
+      gutterRef.current.style.transform = `translateY(${-ta.scrollTop}px)`;
+    }
+  };
+
+  useImperativeHandle(ref, () => ({
+    revealPosition(line, column = 1) {
+      const ta = textareaRef.current;
+      if (!ta) return;
+      const row = Math.min(Math.max(line, 1), lines.length) - 1;
+      const offset = offsets[row] + Math.min(column - 1, lines[row].length);
+      ta.focus();
+      ta.setSelectionRange(offset, offset);
+      setCaret(offset);
+      const lineHeight = parseFloat(getComputedStyle(ta).lineHeight);
+      ta.scrollTop = Math.max(0, row * lineHeight - ta.clientHeight / 2);
+      syncScroll();
+    },
+    scrollToLine(line) {
+      const ta = textareaRef.current;
+      if (!ta) return;
+      const lineHeight = parseFloat(getComputedStyle(ta).lineHeight);
+      ta.scrollTop = Math.max(0, line * lineHeight - ta.clientHeight / 2);
+      syncScroll();
+    },
+    replaceText(text) {
+      const ta = textareaRef.current;
+      if (!ta || text === ta.value) return;
+      const { scrollTop } = ta;
+      const next = text.split('\n');
+      const row = Math.min(caretLine, next.length - 1);
+      const column = Math.min(caret - offsets[caretLine], next[row].length);
+      const offset = next.slice(0, row).reduce((sum, l) => sum + l.length + 1, 0) + column;
+      ta.focus();
+      replaceRange(0, ta.value.length, text, offset);
+      ta.scrollTop = scrollTop;
+      syncScroll();
+    },
+  }), [lines, offsets, caret, caretLine]);
+
+  // Edits go through `insertText` so the browser keeps its undo stack and the
+  // caret stays put; the DOM value already matches the state React receives.
+  const replaceRange = (start: number, end: number, text: string, selStart?: number, selEnd?: number) => {
+    const ta = textareaRef.current!;
+    ta.setSelectionRange(start, end);
+    if (!document.execCommand('insertText', false, text)) {
+      ta.setRangeText(text, start, end, 'end');
+      onChange(ta.value);
+    }
+    if (selStart !== undefined) ta.setSelectionRange(selStart, selEnd ?? selStart);
+    setCaret(ta.selectionStart);
+  };
+
+  const shiftLines = (outdent: boolean) => {
+    const ta = textareaRef.current!;
+    const { selectionStart: start, selectionEnd: end } = ta;
+    const blockStart = ta.value.lastIndexOf('\n', start - 1) + 1;
+    // A selection ending at column 0 does not include that last line.
+    const endLine = end > start && ta.value[end - 1] === '\n' ? end - 1 : end;
+    const nl = ta.value.indexOf('\n', endLine);
+    const blockEnd = nl === -1 ? ta.value.length : nl;
+    const block = ta.value.slice(blockStart, blockEnd).split('\n');
+    const pad = ' '.repeat(unit);
+
+    let firstDelta = 0;
+    let totalDelta = 0;
+    const shifted = block.map((line, i) => {
+      let delta: number;
+      let next: string;
+      if (outdent) {
+        const removable = Math.min(unit, line.length - line.trimStart().length);
+        next = line.slice(removable);
+        delta = -removable;
+      } else {
+        next = line.trim() ? pad + line : line;
+        delta = next.length - line.length;
+      }
+      if (i === 0) firstDelta = delta;
+      totalDelta += delta;
+      return next;
+    });
+    const newStart = Math.max(blockStart, start + firstDelta);
+    replaceRange(blockStart, blockEnd, shifted.join('\n'), newStart, end + totalDelta);
+  };
+
+  const accept = (index: number) => {
+    if (!completion) return;
+    const item = completion.items[index];
+    setCompletion(null);
+    replaceRange(completion.from, completion.to, item.insert);
+  };
+
+  // Suggestions follow typing: word characters and `=` (prop values) open or
+  // refine them, deleting refines an open list, anything else closes it.
+  const handleInput = (e: React.FormEvent<HTMLTextAreaElement>) => {
+    const { inputType, data } = e.nativeEvent as InputEvent;
+    if (inputType === 'insertText' && data && /[\w=]$/.test(data)) suggest(false);
+    else if (inputType === 'deleteContentBackward' && completion) suggest(false);
+    else setCompletion(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const ta = textareaRef.current!;
+    const { selectionStart: start, selectionEnd: end, value: val } = ta;
+    setHover(null);
+    // Keys pressed while an IME is composing (Hangul, for one) belong to it.
+    if (readOnly || e.nativeEvent.isComposing || e.keyCode === 229) return;
+
+    if (completion) {
+      const count = completion.items.length;
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : count - 1;
+        setCompletion({ ...completion, selected: (completion.selected + step) % count });
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        accept(completion.selected);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setCompletion(null);
+        return;
+      }
+      if (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'Home' || e.key === 'End') setCompletion(null);
+    }
+
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault();
+      suggest(true);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      if (e.shiftKey || val.slice(start, end).includes('\n')) {
+        shiftLines(e.shiftKey);
+      } else {
+        replaceRange(start, end, ' '.repeat(unit));
+      }
+    } else if (e.key === 'Enter' && !e.metaKey && !e.ctrlKey) {
+      e.preventDefault();
+      const line = val.slice(val.lastIndexOf('\n', start - 1) + 1, start);
+      const indent = line.slice(0, line.length - line.trimStart().length);
+      const opensBlock = line.trimEnd().endsWith(':');
+      replaceRange(start, end, '\n' + indent + (opensBlock ? ' '.repeat(unit) : ''));
+    }
+  };
+
+  const lineAt = (e: React.MouseEvent<HTMLTextAreaElement>): number | null => {
+    const ta = e.currentTarget;
+    const style = getComputedStyle(ta);
+    const y = e.clientY - ta.getBoundingClientRect().top + ta.scrollTop - parseFloat(style.paddingTop);
+    const line = Math.floor(y / parseFloat(style.lineHeight));
+    return line >= 0 && line < lines.length ? line : null;
+  };
+
+  const setHoverLine = (line: number | null) => {
+    if (line === hoverLine.current) return;
+    hoverLine.current = line;
+    onHoverLine?.(line);
+  };
+
+  // Waits for the pointer to rest, then shows docs for the word under it.
+  const scheduleHover = (e: React.MouseEvent<HTMLTextAreaElement>, line: number | null) => {
+    window.clearTimeout(hoverTimer.current);
+    setHover(null);
+    if (line === null || e.buttons) return;
+    const ta = e.currentTarget;
+    const m = metrics();
+    const x = e.clientX - ta.getBoundingClientRect().left + ta.scrollLeft - m.padLeft;
+    const column = Math.floor(x / m.charWidth);
+    if (column < 0 || column >= lines[line].length) return;
+    const offset = offsets[line] + column;
+    hoverTimer.current = window.setTimeout(() => {
+      const info = hoverAt(value, offset, locale);
+      if (info) setHover({ ...info, anchor: anchorAt(value, offset) });
+    }, HOVER_DELAY);
+  };
+
+  const gutterWidth = `${String(lines.length).length + 3}ch`;
+
+  return (
+    <div style={styles.container}>
+      <div style={{ ...styles.gutter, width: gutterWidth }}>
+        <div ref={gutterRef} style={styles.gutterInner}>
+          {lines.map((_, i) => {
+            const marks = lineMarkers.get(i + 1);
+            const severity = marks?.some(d => d.severity === 'error') ? 'error' : marks ? 'warning' : null;
+            return (
+              <div
+                key={i}
+                style={{
+                  ...styles.gutterLine,
+                  ...(i === caretLine ? styles.gutterLineActive : {}),
+                  ...(linkedLines && i >= linkedLines.start && i <= linkedLines.end ? styles.gutterLineLinked : {}),
+                }}
+                title={marks?.map(d => d.message).join('\n')}
+              >
+                <span style={{ ...styles.marker, backgroundColor: severity ? SEVERITY_COLORS[severity] : 'transparent' }} />
+                <span style={styles.lineNumber}>{i + 1}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      <div style={styles.area}>
+        <div style={styles.backdropClip} aria-hidden>
+          <div ref={backdropRef} style={{ ...styles.text, ...styles.backdrop }}>
+            {linkedLines && (
+              <div
+                style={{
+                  ...styles.linkBand,
+                  top: `calc(16px + ${linkedLines.start * 1.6}em)`,
+                  height: `${(linkedLines.end - linkedLines.start + 1) * 1.6}em`,
+                }}
+              />
+            )}
+            {runs.map((line, i) => (
+              <React.Fragment key={i}>
+                {line.map((run, j) => (
+                  <span
+                    key={j}
+                    style={{
+                      color: TOKEN_COLORS[run.kind],
+                      ...(run.diagnostic ? { ...styles.squiggle, textDecorationColor: SEVERITY_COLORS[run.diagnostic.severity] } : {}),
+                      ...(run.bracket ? styles.bracket : {}),
+                      ...(run.guide === 'dim' ? styles.guide : run.guide === 'active' ? styles.guideActive : {}),
+                    }}
+                  >
+                    {run.text}
+                  </span>
+                ))}
+                {'\n'}
+              </React.Fragment>
+            ))}
+            {' '}
+          </div>
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={e => onChange(e.target.value)}
+          onInput={handleInput}
+          onKeyDown={handleKeyDown}
+          onSelect={e => setCaret(e.currentTarget.selectionStart)}
+          onScroll={syncScroll}
+          onBlur={() => setCompletion(null)}
+          onMouseDown={() => setCompletion(null)}
+          onMouseMove={e => {
+            const line = lineAt(e);
+            setHoverLine(line);
+            scheduleHover(e, line);
+          }}
+          onMouseLeave={() => {
+            setHoverLine(null);
+            window.clearTimeout(hoverTimer.current);
+            setHover(null);
+          }}
+          onClick={e => {
+            const line = lineAt(e);
+            if ((e.metaKey || e.ctrlKey) && line !== null) onLineClick?.(line);
+          }}
+          style={{ ...styles.text, ...styles.textarea }}
+          spellCheck={false}
+          readOnly={readOnly}
+        />
+        {completion && (
+          <div
+            style={{ ...styles.completion, left: completion.anchor.left, top: completion.anchor.top }}
+            // Keeps focus (and the caret) in the textarea.
+            onMouseDown={e => e.preventDefault()}
+          >
+            {completion.items.map((item, i) => (
+              <div
+                key={item.label}
+                ref={i === completion.selected ? el => el?.scrollIntoView({ block: 'nearest' }) : undefined}
+                onClick={() => accept(i)}
+                onMouseEnter={() => setCompletion({ ...completion, selected: i })}
+                style={{ ...styles.completionItem, ...(i === completion.selected ? styles.completionSelected : {}) }}
+              >
+                <span style={{ ...styles.kindBadge, color: KIND_BADGES[item.kind].color }}>{KIND_BADGES[item.kind].label}</span>
+                <span style={styles.completionLabel}>{item.label}</span>
+                <span style={styles.completionDetail}>{item.detail}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {hover && !completion && (
+          <div style={{ ...styles.hoverCard, left: hover.anchor.left, top: hover.anchor.top }}>
+            <div style={styles.hoverTitle}>{hover.title}</div>
+            {hover.syntax && <code style={styles.hoverSyntax}>{hover.syntax}</code>}
+            {hover.summary && <div style={styles.hoverSummary}>{hover.summary}</div>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
+
+const FONT = "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, monospace";
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    flex: 1,
+    display: 'flex',
+    overflow: 'hidden',
+    backgroundColor: '#0d1117',
+  },
+  gutter: {
+    flexShrink: 0,
+    overflow: 'hidden',
+    paddingTop: '16px',
+    fontFamily: FONT,
+    fontSize: '14px',
+    lineHeight: '1.6',
+    color: '#484f58',
+    borderRight: '1px solid #21262d',
+    userSelect: 'none',
+  },
+  gutterInner: {
+    willChange: 'transform',
+  },
+  gutterLine: {
+    height: '1.6em',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '4px',
+    paddingRight: '8px',
+    paddingLeft: '4px',
+  },
+  lineNumber: {
+    fontSize: '12px',
+  },
+  gutterLineActive: {
+    color: '#e6edf3',
+  },
+  gutterLineLinked: {
+    backgroundColor: 'rgba(56, 139, 253, 0.15)',
+  },
+  marker: {
+    width: '7px',
+    height: '7px',
+    borderRadius: '50%',
+    flexShrink: 0,
+  },
+  area: {
+    flex: 1,
+    position: 'relative',
+    overflow: 'hidden',
+  },
+  text: {
+    margin: 0,
+    padding: '16px',
+    fontFamily: FONT,
+    fontSize: '14px',
+    lineHeight: '1.6',
+    tabSize: 2,
+    whiteSpace: 'pre',
+    overflowWrap: 'normal',
+  },
+  backdropClip: {
+    position: 'absolute',
+    inset: 0,
+    overflow: 'hidden',
+    pointerEvents: 'none',
+  },
+  backdrop: {
+    position: 'relative',
+    willChange: 'transform',
+  },
+  // Drawn behind the text: the backdrop's transform makes it a stacking context.
+  linkBand: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    zIndex: -1,
+    backgroundColor: 'rgba(56, 139, 253, 0.15)',
+  },
+  squiggle: {
+    textDecorationLine: 'underline',
+    textDecorationStyle: 'wavy',
+    textDecorationSkipInk: 'none',
+    textUnderlineOffset: '3px',
+  },
+  bracket: {
+    outline: '1px solid #8b949e',
+    borderRadius: '2px',
+  },
+  guide: {
+    boxShadow: 'inset 1px 0 0 #21262d',
+  },
+  guideActive: {
+    boxShadow: 'inset 1px 0 0 #484f58',
+  },
+  textarea: {
+    position: 'absolute',
+    inset: 0,
+    width: '100%',
+    height: '100%',
+    backgroundColor: 'transparent',
+    color: 'transparent',
+    caretColor: '#e6edf3',
+    border: 'none',
+    outline: 'none',
+    resize: 'none',
+    overflowX: 'auto',
+  },
+  completion: {
+    position: 'absolute',
+    zIndex: 5,
+    minWidth: '220px',
+    maxWidth: '420px',
+    maxHeight: '220px',
+    overflowY: 'auto',
+    padding: '4px 0',
+    fontFamily: FONT,
+    fontSize: '12px',
+    backgroundColor: '#161b22',
+    border: '1px solid #30363d',
+    borderRadius: '6px',
+    boxShadow: '0 8px 24px rgba(1, 4, 9, 0.6)',
+  },
+  completionItem: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: '8px',
+    padding: '2px 8px',
+    color: '#e6edf3',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+  completionSelected: {
+    backgroundColor: '#1f6feb',
+  },
+  kindBadge: {
+    width: '16px',
+    flexShrink: 0,
+    fontSize: '10px',
+  },
+  completionLabel: {
+    flexShrink: 0,
+  },
+  completionDetail: {
+    minWidth: 0,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    color: '#8b949e',
+  },
+  hoverCard: {
+    position: 'absolute',
+    zIndex: 5,
+    maxWidth: '420px',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    padding: '8px 10px',
+    fontSize: '12px',
+    lineHeight: '1.5',
+    color: '#e6edf3',
+    backgroundColor: '#161b22',
+    border: '1px solid #30363d',
+    borderRadius: '6px',
+    boxShadow: '0 8px 24px rgba(1, 4, 9, 0.6)',
+    pointerEvents: 'none',
+  },
+  hoverTitle: {
+    fontFamily: FONT,
+    fontWeight: 600,
+  },
+  hoverSyntax: {
+    fontFamily: FONT,
+    color: '#a5d6ff',
+    whiteSpace: 'pre-wrap',
+  },
+  hoverSummary: {
+    color: '#8b949e',
+  },
+};
+
+export default Editor;
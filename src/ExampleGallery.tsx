@@ -0,0 +1,252 @@
+import React, { useMemo, useState } from 'react';
+import {
+  EXAMPLE_CATEGORIES,
+  EXAMPLE_TAGS,
+  EXAMPLES,
+  matchesExampleQuery,
+  type ExampleCategory,
+} from './examples';
+import { useLocale } from './useLocale';
+
+interface ExampleGalleryProps {
+  // The example the playground was last opened on, if any.
+  activeId: string | null;
+  onOpen(id: string): void;
+  onClose(): void;
+}
+
+// Searchable list of the bundled examples, filterable by category and by the
+// constructs they use. Picking one replaces the current project.
+function ExampleGallery({ activeId, onOpen, onClose }: ExampleGalleryProps) {
+  const { locale, t } = useLocale();
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<ExampleCategory | null>(null);
+  // An example must carry every selected tag.
+  const [tags, setTags] = useState<string[]>([]);
+
+  const shown = useMemo(
+    () => EXAMPLES.filter(e =>
+      (category === null || e.category === category)
+      && tags.every(tag => e.tags.includes(tag))
+      && matchesExampleQuery(e, query)),
+    [query, category, tags],
+  );
+
+  const toggleTag = (tag: string) =>
+    setTags(prev => (prev.includes(tag) ? prev.filter(other => other !== tag) : [...prev, tag]));
+
+  const chip = (label: string, active: boolean, onClick: () => void) => (
+    <button key={label} onClick={onClick} style={{ ...styles.chip, ...(active ? styles.chipActive : {}) }}>
+      {label}
+    </button>
+  );
+
+  return (
+    <div style={styles.backdrop} onClick={onClose}>
+      <div style={styles.dialog} onClick={e => e.stopPropagation()} role="dialog" aria-label={t('gallery.title')}>
+        <div style={styles.header}>
+          <span style={styles.title}>{t('gallery.title')}</span>
+          <span style={styles.actions}>
+            <input
+              autoFocus
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Escape') onClose();
+                if (e.key === 'Enter' && shown.length > 0) onOpen(shown[0].id);
+              }}
+              placeholder={t('gallery.search')}
+              style={styles.search}
+            />
+            <button onClick={onClose} style={styles.smallBtn}>{t('common.close')}</button>
+          </span>
+        </div>
+        <div style={styles.filters}>
+          <div style={styles.filterRow}>
+            {chip(t('gallery.all'), category === null, () => setCategory(null))}
+            {(Object.keys(EXAMPLE_CATEGORIES) as ExampleCategory[]).map(c =>
+              chip(EXAMPLE_CATEGORIES[c][locale], category === c, () => setCategory(category === c ? null : c)))}
+          </div>
+          <div style={styles.filterRow}>
+            {EXAMPLE_TAGS.map(tag => chip(tag, tags.includes(tag), () => toggleTag(tag)))}
+          </div>
+        </div>
+        <div style={styles.body}>
+          {shown.length === 0 && <div style={styles.empty}>{t('gallery.empty')}</div>}
+          <div style={styles.grid}>
+            {shown.map(example => (
+              <button
+                key={example.id}
+                onClick={() => onOpen(example.id)}
+                style={{ ...styles.card, ...(example.id === activeId ? styles.cardActive : {}) }}
+              >
+                <span style={styles.cardTitle}>{example.title[locale]}</span>
+                <span style={styles.description}>{example.description[locale]}</span>
+                <span style={styles.meta}>
+                  <span style={styles.category}>{EXAMPLE_CATEGORIES[example.category][locale]}</span>
+                  {example.tags.map(tag => (
+                    <span key={tag} style={{ ...styles.tag, ...(tags.includes(tag) ? styles.tagActive : {}) }}>{tag}</span>
+                  ))}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const MONO = "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, monospace";
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: 'fixed',
+    inset: 0,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(1, 4, 9, 0.7)',
+    zIndex: 10,
+  },
+  dialog: {
+    width: 'min(960px, 92vw)',
+    height: '80vh',
+    display: 'flex',
+    flexDirection: 'column',
+    backgroundColor: '#161b22',
+    border: '1px solid #30363d',
+    borderRadius: '8px',
+    overflow: 'hidden',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '10px 16px',
+    borderBottom: '1px solid #30363d',
+  },
+  title: {
+    fontSize: '14px',
+    fontWeight: 600,
+    color: '#e6edf3',
+  },
+  actions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  search: {
+    width: '240px',
+    padding: '4px 8px',
+    fontSize: '12px',
+    color: '#e6edf3',
+    backgroundColor: '#0d1117',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    outline: 'none',
+    fontFamily: 'inherit',
+  },
+  smallBtn: {
+    padding: '2px 8px',
+    fontSize: '11px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  filters: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    padding: '8px 16px',
+    borderBottom: '1px solid #30363d',
+  },
+  filterRow: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '4px',
+  },
+  chip: {
+    padding: '1px 8px',
+    fontSize: '11px',
+    color: '#8b949e',
+    backgroundColor: 'transparent',
+    border: '1px solid #30363d',
+    borderRadius: '12px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  chipActive: {
+    color: '#0d1117',
+    backgroundColor: '#58a6ff',
+    border: '1px solid #58a6ff',
+  },
+  body: {
+    flex: 1,
+    overflow: 'auto',
+    padding: '12px 16px',
+    backgroundColor: '#0d1117',
+  },
+  empty: {
+    fontSize: '12px',
+    color: '#8b949e',
+  },
+  grid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fill, minmax(260px, 1fr))',
+    gap: '10px',
+  },
+  card: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    padding: '10px 12px',
+    textAlign: 'left',
+    backgroundColor: '#161b22',
+    border: '1px solid #30363d',
+    borderRadius: '6px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  cardActive: {
+    border: '1px solid #58a6ff',
+  },
+  cardTitle: {
+    fontSize: '13px',
+    fontWeight: 600,
+    color: '#e6edf3',
+  },
+  description: {
+    fontSize: '12px',
+    lineHeight: '1.5',
+    color: '#8b949e',
+  },
+  meta: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '4px',
+  },
+  category: {
+    padding: '0 6px',
+    fontSize: '11px',
+    color: '#d29922',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+  },
+  tag: {
+    padding: '0 6px',
+    fontSize: '11px',
+    fontFamily: MONO,
+    color: '#8b949e',
+    backgroundColor: '#21262d',
+    borderRadius: '4px',
+  },
+  tagActive: {
+    color: '#58a6ff',
+  },
+};
+
+export default ExampleGallery;
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { useLocale } from './useLocale';
+
+export interface FileTab {
+  name: string;
+  // Shown instead of `name`, e.g. the output file a source file compiles to.
+  label?: string;
+  errors?: number;
+  warnings?: number;
+  stale?: boolean;
+}
+
+interface FileTabsProps {
+  tabs: FileTab[];
+  active: string;
+  onSelect(name: string): void;
+  // Editing callbacks; without them the tab bar is read-only.
+  onAdd?(): void;
+  // Returns an error message when `next` cannot be used.
+  onRename?(name: string, next: string): string | null;
+  onDelete?(name: string): void;
+  onSplit?(name: string): void;
+  canSplit?(name: string): boolean;
+}
+
+function FileTabs(props: FileTabsProps) {
+  const { tabs, active, onSelect, onAdd, onRename, onDelete, onSplit, canSplit } = props;
+  const { t } = useLocale();
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [renameError, setRenameError] = useState<string | null>(null);
+
+  const startRename = (name: string) => {
+    if (!onRename) return;
+    setEditing(name);
+    setDraftName(name);
+    setRenameError(null);
+  };
+
+  // Enter keeps an invalid name in the input to be fixed; blur abandons it.
+  const commitRename = (keepInvalid: boolean) => {
+    if (!editing || !onRename) return;
+    const next = draftName.trim();
+    const error = next === editing ? null : onRename(editing, next);
+    if (error && keepInvalid) {
+      setRenameError(error);
+      return;
+    }
+    setEditing(null);
+  };
+
+  return (
+    <div style={styles.bar}>
+      {tabs.map(tab => (
+        <div
+          key={tab.name}
+          style={{ ...styles.tab, ...(tab.name === active ? styles.tabActive : {}) }}
+        >
+          {editing === tab.name ? (
+            <input
+              autoFocus
+              value={draftName}
+              onChange={e => {
+                setDraftName(e.target.value);
+                setRenameError(null);
+              }}
+              onBlur={() => commitRename(false)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') commitRename(true);
+                if (e.key === 'Escape') setEditing(null);
+              }}
+              title={renameError ?? undefined}
+              style={{ ...styles.renameInput, ...(renameError ? styles.renameInvalid : {}) }}
+            />
+          ) : (
+            <button
+              onClick={() => onSelect(tab.name)}
+              onDoubleClick={() => startRename(tab.name)}
+              style={{ ...styles.name, ...(tab.stale ? styles.stale : {}) }}
+              title={tab.stale ? t('files.staleTitle', { name: tab.label ?? tab.name }) : tab.label ?? tab.name}
+            >
+              {tab.label ?? tab.name}
+              {!!tab.errors && <span style={styles.errorBadge}>{tab.errors}</span>}
+              {!tab.errors && !!tab.warnings && <span style={styles.warningBadge}>{tab.warnings}</span>}
+            </button>
+          )}
+          {tab.name === active && onSplit && canSplit?.(tab.name) && (
+            <button
+              onClick={() => onSplit(tab.name)}
+              style={styles.iconBtn}
+              title={t('files.split')}
+            >
+              ⑂
+            </button>
+          )}
+          {onDelete && tabs.length > 1 && (
+            <button
+              onClick={() => {
+                if (window.confirm(t('files.confirmDelete', { name: tab.name }))) onDelete(tab.name);
+              }}
+              style={styles.iconBtn}
+              title={t('files.delete')}
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      ))}
+      {onAdd && (
+        <button onClick={onAdd} style={styles.addBtn} title={t('files.add')}>+</button>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  bar: {
+    display: 'flex',
+    alignItems: 'stretch',
+    overflowX: 'auto',
+    backgroundColor: '#0d1117',
+    borderBottom: '1px solid #30363d',
+    flexShrink: 0,
+  },
+  tab: {
+    display: 'flex',
+    alignItems: 'center',
+    flexShrink: 0,
+    borderRight: '1px solid #30363d',
+    paddingRight: '4px',
+  },
+  tabActive: {
+    backgroundColor: '#161b22',
+    boxShadow: 'inset 0 -2px 0 #58a6ff',
+  },
+  name: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '5px 8px 5px 12px',
+    fontSize: '12px',
+    color: '#e6edf3',
+    whiteSpace: 'nowrap',
+    backgroundColor: 'transparent',
+    border: 'none',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  stale: {
+    color: '#8b949e',
+    fontStyle: 'italic',
+  },
+  errorBadge: {
+    padding: '0 5px',
+    fontSize: '10px',
+    fontWeight: 600,
+    color: '#0d1117',
+    backgroundColor: '#f85149',
+    borderRadius: '8px',
+  },
+  warningBadge: {
+    padding: '0 5px',
+    fontSize: '10px',
+    fontWeight: 600,
+    color: '#0d1117',
+    backgroundColor: '#d29922',
+    borderRadius: '8px',
+  },
+  renameInput: {
+    width: '140px',
+    margin: '3px 8px',
+    padding: '1px 4px',
+    fontSize: '12px',
+    color: '#e6edf3',
+    backgroundColor: '#0d1117',
+    border: '1px solid #58a6ff',
+    borderRadius: '4px',
+    outline: 'none',
+    fontFamily: 'inherit',
+  },
+  renameInvalid: {
+    borderColor: '#f85149',
+  },
+  iconBtn: {
+    padding: '2px 4px',
+    fontSize: '11px',
+    color: '#8b949e',
+    backgroundColor: 'transparent',
+    border: 'none',
+    cursor: 'pointer',
+  },
+  addBtn: {
+    padding: '0 12px',
+    fontSize: '14px',
+    color: '#8b949e',
+    backgroundColor: 'transparent',
+    border: 'none',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+};
+
+export default FileTabs;
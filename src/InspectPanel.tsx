@@ -0,0 +1,308 @@
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import { inspectAst, inspectTokens, type AstNode } from './inspect';
+import type { LineRange } from './sourceMap';
+import { useLocale } from './useLocale';
+
+interface InspectPanelProps {
+  source: string;
+  // Called with the source lines of the selected token or node.
+  onSelectRange(range: LineRange | null): void;
+}
+
+type View = 'tokens' | 'ast';
+
+// Nodes this shallow start expanded.
+const OPEN_DEPTH = 2;
+
+function InspectPanel({ source, onSelectRange }: InspectPanelProps) {
+  const { t } = useLocale();
+  const [view, setView] = useState<View>('ast');
+  const [selected, setSelected] = useState<string | null>(null);
+  // Paths toggled away from their default expansion.
+  const [toggled, setToggled] = useState<Set<string>>(new Set());
+  const [copied, setCopied] = useState(false);
+  // Re-tokenizing and re-parsing on every keystroke must not hold up typing.
+  const deferred = useDeferredValue(source);
+
+  const tokens = useMemo(() => (view === 'tokens' ? inspectTokens(deferred) : null), [view, deferred]);
+  const ast = useMemo(() => (view === 'ast' ? inspectAst(deferred) : null), [view, deferred]);
+  const result = tokens ?? ast!;
+
+  const select = (key: string, range: LineRange | null) => {
+    const next = key === selected ? null : key;
+    setSelected(next);
+    onSelectRange(next ? range : null);
+  };
+
+  const switchView = (next: View) => {
+    setView(next);
+    setSelected(null);
+    onSelectRange(null);
+  };
+
+  const toggle = (path: string) => {
+    setToggled(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const copyJson = () => {
+    if (!result.ok) return;
+    navigator.clipboard.writeText(JSON.stringify(result.value, null, 2)).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  const renderNode = (node: AstNode, depth: number): React.ReactNode => {
+    const open = (depth < OPEN_DEPTH) !== toggled.has(node.path);
+    return (
+      <li key={node.path}>
+        <div
+          onClick={() => select(node.path, node.range)}
+          style={{
+            ...styles.row,
+            paddingLeft: `${8 + depth * 14}px`,
+            ...(selected === node.path ? styles.rowSelected : {}),
+          }}
+        >
+          <button
+            onClick={e => {
+              e.stopPropagation();
+              toggle(node.path);
+            }}
+            style={{ ...styles.twisty, visibility: node.children.length ? 'visible' : 'hidden' }}
+          >
+            {open ? '▾' : '▸'}
+          </button>
+          <span style={styles.nodeType}>{node.type}</span>
+          {node.fields.map(([key, value]) => (
+            <span key={key} style={styles.field}>
+              {key}=<span style={styles.fieldValue}>{value}</span>
+            </span>
+          ))}
+          {node.range && (
+            <span style={styles.position}>
+              {node.range.start === node.range.end
+                ? t('inspect.line', { line: node.range.start + 1 })
+                : t('inspect.lines', { start: node.range.start + 1, end: node.range.end + 1 })}
+            </span>
+          )}
+        </div>
+        {open && node.children.length > 0 && (
+          <ul style={styles.list}>{node.children.map(child => renderNode(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <div style={styles.tabs}>
+          {(['ast', 'tokens'] as const).map(v => (
+            <button
+              key={v}
+              onClick={() => switchView(v)}
+              style={{ ...styles.tab, ...(view === v ? styles.tabActive : {}) }}
+            >
+              {v === 'ast' ? t('inspect.ast') : t('inspect.tokens')}
+            </button>
+          ))}
+        </div>
+        <button onClick={copyJson} disabled={!result.ok} style={styles.smallBtn} title={t('inspect.copyJsonTitle')}>
+          {copied ? t('common.copied') : t('inspect.copyJson')}
+        </button>
+      </div>
+
+      <div style={styles.body}>
+        {!result.ok && <pre style={styles.error}>{result.error}</pre>}
+
+        {tokens?.ok && (
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                <th style={styles.th}>#</th>
+                <th style={styles.th}>{t('inspect.kind')}</th>
+                <th style={styles.th}>{t('inspect.text')}</th>
+                <th style={styles.th}>{t('inspect.position')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tokens.value.map((token, i) => {
+                const key = String(i);
+                const range = token.line !== undefined ? { start: token.line - 1, end: token.line - 1 } : null;
+                return (
+                  <tr
+                    key={i}
+                    onClick={() => select(key, range)}
+                    style={{
+                      ...styles.tokenRow,
+                      ...(token.layout ? styles.layoutToken : {}),
+                      ...(selected === key ? styles.rowSelected : {}),
+                    }}
+                  >
+                    <td style={styles.tdIndex}>{i}</td>
+                    <td style={styles.td}>{token.type}</td>
+                    <td style={styles.tdText}>{token.value ? JSON.stringify(token.value) : ''}</td>
+                    <td style={styles.td}>{token.line !== undefined ? `${token.line}:${token.column ?? '?'}` : ''}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        {ast?.ok && <ul style={styles.list}>{renderNode(ast.value, 0)}</ul>}
+      </div>
+    </div>
+  );
+}
+
+const MONO = "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, monospace";
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    width: '340px',
+    flexShrink: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    overflow: 'hidden',
+    backgroundColor: '#0d1117',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '6px 12px',
+    backgroundColor: '#161b22',
+    borderBottom: '1px solid #30363d',
+    flexShrink: 0,
+  },
+  tabs: {
+    display: 'flex',
+    gap: '2px',
+    backgroundColor: '#21262d',
+    borderRadius: '6px',
+    padding: '2px',
+  },
+  tab: {
+    padding: '2px 10px',
+    fontSize: '12px',
+    fontWeight: 500,
+    color: '#8b949e',
+    backgroundColor: 'transparent',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  tabActive: {
+    color: '#e6edf3',
+    backgroundColor: '#30363d',
+  },
+  smallBtn: {
+    padding: '2px 8px',
+    fontSize: '11px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  body: {
+    flex: 1,
+    overflow: 'auto',
+    fontFamily: MONO,
+    fontSize: '12px',
+    lineHeight: '1.6',
+  },
+  error: {
+    margin: 0,
+    padding: '8px 12px',
+    color: '#f85149',
+    fontFamily: MONO,
+    fontSize: '12px',
+    whiteSpace: 'pre-wrap',
+    borderBottom: '1px solid #30363d',
+  },
+  list: {
+    listStyle: 'none',
+    margin: 0,
+    padding: 0,
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'baseline',
+    flexWrap: 'wrap',
+    gap: '6px',
+    paddingRight: '8px',
+    cursor: 'pointer',
+  },
+  rowSelected: {
+    backgroundColor: 'rgba(56, 139, 253, 0.15)',
+  },
+  twisty: {
+    width: '14px',
+    padding: 0,
+    fontSize: '10px',
+    color: '#8b949e',
+    backgroundColor: 'transparent',
+    border: 'none',
+    cursor: 'pointer',
+  },
+  nodeType: {
+    color: '#d2a8ff',
+  },
+  field: {
+    color: '#8b949e',
+  },
+  fieldValue: {
+    color: '#a5d6ff',
+  },
+  position: {
+    marginLeft: 'auto',
+    color: '#484f58',
+  },
+  table: {
+    width: '100%',
+    borderCollapse: 'collapse',
+  },
+  th: {
+    position: 'sticky',
+    top: 0,
+    padding: '2px 8px',
+    textAlign: 'left',
+    fontWeight: 600,
+    color: '#8b949e',
+    backgroundColor: '#161b22',
+  },
+  tokenRow: {
+    cursor: 'pointer',
+    color: '#e6edf3',
+  },
+  layoutToken: {
+    color: '#484f58',
+    fontStyle: 'italic',
+  },
+  td: {
+    padding: '0 8px',
+    whiteSpace: 'nowrap',
+  },
+  tdIndex: {
+    padding: '0 8px',
+    color: '#484f58',
+    textAlign: 'right',
+  },
+  tdText: {
+    padding: '0 8px',
+    color: '#a5d6ff',
+    wordBreak: 'break-all',
+  },
+};
+
+export default InspectPanel;
@@ -0,0 +1,301 @@
+import React, { useState } from 'react';
+import { errorMessage } from './i18n';
+import { checkLesson, LESSONS, lessonById, type LessonProgress, type LessonReport } from './lessons';
+import { TARGET_LABELS } from './targets';
+import { useLocale } from './useLocale';
+
+interface LessonPanelProps {
+  progress: LessonProgress;
+  // The lesson whose code is in the editor, if any.
+  activeLesson: string | null;
+  source: string;
+  compiler: string;
+  onSelect(id: string): void;
+  // Replaces the project with `source` compiled for the lesson's target.
+  onStart(id: string, source: string): void;
+  onComplete(id: string): void;
+}
+
+// `backticks` in lesson text mark code.
+function renderInline(text: string) {
+  return text.split(/`([^`]+)`/).map((part, i) =>
+    i % 2 === 1 ? <code key={i} style={styles.code}>{part}</code> : part);
+}
+
+// Paragraphs are separated by blank lines.
+function renderProse(prose: string) {
+  return prose.split(/\n\s*\n/).map((paragraph, i) => <p key={i} style={styles.paragraph}>{renderInline(paragraph)}</p>);
+}
+
+// The lessons curriculum: pick a step, read it, edit its starter in the
+// editor, and check the result. Progress and drafts are kept by the caller.
+function LessonPanel({ progress, activeLesson, source, compiler, onSelect, onStart, onComplete }: LessonPanelProps) {
+  const { locale, t } = useLocale();
+  const [report, setReport] = useState<{ id: string; report: LessonReport } | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [checkError, setCheckError] = useState('');
+  const [showSolution, setShowSolution] = useState(false);
+
+  const lesson = lessonById(progress.current) ?? LESSONS[0];
+  const index = LESSONS.indexOf(lesson);
+  const next = LESSONS[index + 1];
+  const active = activeLesson === lesson.id;
+  const results = report?.id === lesson.id ? report.report : null;
+  const failing = results ? results.results.filter(r => !r.passed).length : 0;
+
+  const select = (id: string) => {
+    onSelect(id);
+    setShowSolution(false);
+    setCheckError('');
+  };
+
+  const check = async () => {
+    setChecking(true);
+    setCheckError('');
+    try {
+      const outcome = await checkLesson(lesson, source, compiler, locale);
+      setReport({ id: lesson.id, report: outcome });
+      if (outcome.results.every(r => r.passed)) onComplete(lesson.id);
+    } catch (e) {
+      setCheckError(t('lessons.checkFailed', { message: errorMessage(locale, e) }));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <span style={styles.title}>{t('app.lessons')}</span>
+        <span style={styles.info}>
+          {t('lessons.progress', { done: progress.completed.length, total: LESSONS.length })}
+        </span>
+      </div>
+      <div style={styles.picker}>
+        <select value={lesson.id} onChange={e => select(e.target.value)} style={styles.select}>
+          {LESSONS.map((l, i) => (
+            <option key={l.id} value={l.id}>
+              {progress.completed.includes(l.id) ? '✓' : ' '} {i + 1}. {l.title[locale]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div style={styles.scroll}>
+        <div style={styles.prose}>
+          {renderProse(lesson.prose[locale])}
+          <p style={styles.note}>{t('lessons.target', { target: TARGET_LABELS[lesson.target] })}</p>
+        </div>
+
+        <div style={styles.actions}>
+          {active ? (
+            <>
+              <button onClick={check} disabled={checking} style={styles.primaryBtn}>
+                {checking ? t('lessons.checking') : t('lessons.check')}
+              </button>
+              <button onClick={() => onStart(lesson.id, lesson.starter)} style={styles.smallBtn}>
+                {t('lessons.reset')}
+              </button>
+            </>
+          ) : (
+            <button onClick={() => onStart(lesson.id, progress.drafts[lesson.id] ?? lesson.starter)} style={styles.primaryBtn}>
+              {progress.drafts[lesson.id] !== undefined ? t('lessons.resume') : t('lessons.start')}
+            </button>
+          )}
+          <button onClick={() => setShowSolution(v => !v)} style={styles.smallBtn}>
+            {showSolution ? t('lessons.hideSolution') : t('lessons.showSolution')}
+          </button>
+          {next && progress.completed.includes(lesson.id) && (
+            <button onClick={() => select(next.id)} style={styles.smallBtn}>{t('lessons.next')} →</button>
+          )}
+        </div>
+
+        {checkError && <div style={styles.error}>{checkError}</div>}
+        {results && (
+          <div style={styles.results}>
+            <ul style={styles.list}>
+              {results.results.map((r, i) => (
+                <li key={i} style={styles.result}>
+                  <span style={r.passed ? styles.pass : styles.fail}>{r.passed ? '✓' : '✗'}</span>
+                  <span>{renderInline(r.label[locale])}</span>
+                </li>
+              ))}
+            </ul>
+            {results.error && <div style={styles.error}>{t('lessons.compileError', { message: results.error })}</div>}
+            <div style={failing === 0 ? styles.passed : styles.info}>
+              {failing === 0 ? t('lessons.passed') : t('lessons.failed', { count: failing })}
+            </div>
+          </div>
+        )}
+
+        {showSolution && (
+          <div style={styles.solution}>
+            <pre style={styles.pre}>{lesson.solution}</pre>
+            <button onClick={() => onStart(lesson.id, lesson.solution)} style={styles.smallBtn}>
+              {t('lessons.useSolution')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const MONO = "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, monospace";
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    width: '340px',
+    flexShrink: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    overflow: 'hidden',
+    backgroundColor: '#0d1117',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '8px 12px',
+    backgroundColor: '#161b22',
+    borderBottom: '1px solid #30363d',
+    flexShrink: 0,
+  },
+  title: {
+    fontSize: '13px',
+    fontWeight: 600,
+    color: '#e6edf3',
+  },
+  info: {
+    fontSize: '12px',
+    color: '#8b949e',
+  },
+  picker: {
+    padding: '8px 12px',
+    borderBottom: '1px solid #21262d',
+    flexShrink: 0,
+  },
+  select: {
+    width: '100%',
+    padding: '4px 6px',
+    fontSize: '12px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    fontFamily: 'inherit',
+  },
+  scroll: {
+    flex: 1,
+    overflow: 'auto',
+  },
+  prose: {
+    padding: '4px 12px',
+  },
+  paragraph: {
+    margin: '8px 0',
+    fontSize: '12px',
+    lineHeight: '1.6',
+    color: '#e6edf3',
+  },
+  note: {
+    margin: '8px 0',
+    fontSize: '12px',
+    color: '#8b949e',
+  },
+  code: {
+    padding: '0 4px',
+    fontFamily: MONO,
+    fontSize: '11px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    borderRadius: '4px',
+  },
+  actions: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '6px',
+    padding: '8px 12px',
+  },
+  primaryBtn: {
+    padding: '2px 10px',
+    fontSize: '11px',
+    fontWeight: 600,
+    color: '#ffffff',
+    backgroundColor: '#238636',
+    border: '1px solid #2ea043',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  smallBtn: {
+    padding: '2px 8px',
+    fontSize: '11px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  results: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    padding: '8px 12px',
+    borderTop: '1px solid #21262d',
+  },
+  list: {
+    listStyle: 'none',
+    margin: 0,
+    padding: 0,
+  },
+  result: {
+    display: 'flex',
+    gap: '8px',
+    padding: '2px 0',
+    fontSize: '12px',
+    lineHeight: '1.5',
+    color: '#e6edf3',
+  },
+  pass: {
+    color: '#3fb950',
+  },
+  fail: {
+    color: '#f85149',
+  },
+  passed: {
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#3fb950',
+  },
+  error: {
+    padding: '4px 12px',
+    fontSize: '12px',
+    lineHeight: '1.5',
+    color: '#f85149',
+    wordBreak: 'break-word',
+  },
+  solution: {
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'flex-start',
+    gap: '6px',
+    padding: '8px 12px',
+    borderTop: '1px solid #21262d',
+  },
+  pre: {
+    alignSelf: 'stretch',
+    margin: 0,
+    padding: '8px',
+    fontFamily: MONO,
+    fontSize: '11px',
+    lineHeight: '1.5',
+    color: '#e6edf3',
+    backgroundColor: '#161b22',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    overflow: 'auto',
+  },
+};
+
+export default LessonPanel;
@@ -0,0 +1,379 @@
+import React, { useState } from 'react';
+import { endpointKey, type Endpoint } from './endpoints';
+import {
+  applyPreset,
+  bodyError,
+  clampStatus,
+  defaultMock,
+  MAX_MOCK_STATUS,
+  MIN_MOCK_STATUS,
+  MOCK_PRESETS,
+  type MockPreset,
+  type MockRoute,
+  type MockTable,
+} from './mocks';
+import type { PreviewRequestLog } from './previewProtocol';
+import type { SourceFile } from './project';
+import { useLocale } from './useLocale';
+
+interface MocksPanelProps {
+  endpoints: Endpoint[];
+  files: SourceFile[];
+  table: MockTable;
+  // `null` drops the route's fixture, going back to the generated sample.
+  onChange(key: string, route: MockRoute | null): void;
+  requests: PreviewRequestLog[];
+  onClearRequests(): void;
+  onReveal(endpoint: Endpoint): void;
+}
+
+const METHOD_COLORS: Record<string, string> = {
+  GET: '#3fb950',
+  POST: '#58a6ff',
+  PUT: '#d29922',
+  PATCH: '#d29922',
+  DELETE: '#f85149',
+};
+
+// Applies a status as soon as the typed text is one, so partial input like
+// the "4" of "404" is left alone until the field loses focus.
+function StatusInput({ value, onCommit }: { value: number; onCommit(status: number): void }) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const status = Number(draft);
+    if (draft.trim() && Number.isFinite(status)) onCommit(clampStatus(status));
+    setDraft(null);
+  };
+
+  return (
+    <input
+      type="number"
+      min={MIN_MOCK_STATUS}
+      max={MAX_MOCK_STATUS}
+      value={draft ?? value}
+      onChange={e => {
+        setDraft(e.target.value);
+        const status = Number(e.target.value);
+        if (Number.isInteger(status) && clampStatus(status) === status) onCommit(status);
+      }}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') commit();
+      }}
+      style={styles.number}
+    />
+  );
+}
+
+// Fixtures for the endpoints the source declares, plus a log of the requests
+// the preview made. Edits apply to the preview immediately.
+function MocksPanel({ endpoints, files, table, onChange, requests, onClearRequests, onReveal }: MocksPanelProps) {
+  const { t } = useLocale();
+  const [open, setOpen] = useState<string | null>(null);
+
+  const renderRoute = (endpoint: Endpoint) => {
+    const key = endpointKey(endpoint);
+    const custom = table[key];
+    const route = custom ?? defaultMock(endpoint, files);
+    const error = bodyError(route.body);
+    const expanded = open === key;
+    const update = (patch: Partial<MockRoute>) => onChange(key, { ...route, ...patch });
+
+    return (
+      <li key={key} style={styles.route}>
+        <div onClick={() => setOpen(expanded ? null : key)} style={styles.routeHeader}>
+          <span style={styles.twisty}>{expanded ? '▾' : '▸'}</span>
+          <span style={{ ...styles.method, color: METHOD_COLORS[endpoint.method] }}>{endpoint.method}</span>
+          <span style={styles.path}>{endpoint.path}</span>
+          <span style={route.status >= 400 ? styles.statusBad : styles.status}>
+            {route.hang ? '…' : route.status}
+          </span>
+          {error && <span style={styles.statusBad} title={error}>{t('mocks.invalid')}</span>}
+        </div>
+        {expanded && (
+          <div style={styles.editor}>
+            <div style={styles.meta}>
+              <button onClick={() => onReveal(endpoint)} style={styles.link}>
+                {endpoint.kind} {endpoint.name} — {endpoint.file}:{endpoint.line}
+              </button>
+            </div>
+            <div style={styles.controls}>
+              <label style={styles.label}>
+                {t('mocks.status')}
+                <StatusInput value={route.status} onCommit={status => update({ status })} />
+              </label>
+              <label style={styles.label}>
+                {t('mocks.delay')}
+                <input
+                  type="number"
+                  min={0}
+                  step={100}
+                  value={route.delayMs}
+                  disabled={route.hang}
+                  onChange={e => update({ delayMs: Math.max(0, Number(e.target.value) || 0) })}
+                  style={styles.number}
+                />
+              </label>
+              <label style={styles.label}>
+                <input type="checkbox" checked={route.hang} onChange={e => update({ hang: e.target.checked })} />
+                {t('mocks.neverRespond')}
+              </label>
+            </div>
+            <div style={styles.controls}>
+              <select
+                value=""
+                onChange={e => onChange(key, applyPreset(e.target.value as MockPreset, endpoint, files, route))}
+                style={styles.select}
+              >
+                <option value="" disabled>{t('mocks.preset')}</option>
+                {MOCK_PRESETS.map(p => (
+                  <option key={p} value={p}>{t(`mocks.preset.${p}`)}</option>
+                ))}
+              </select>
+              <button onClick={() => onChange(key, null)} disabled={!custom} style={styles.smallBtn}>
+                {t('common.reset')}
+              </button>
+            </div>
+            <textarea
+              value={route.body}
+              onChange={e => update({ body: e.target.value })}
+              spellCheck={false}
+              rows={Math.min(14, Math.max(3, route.body.split('\n').length))}
+              style={{ ...styles.body, ...(error ? styles.bodyInvalid : {}) }}
+            />
+            {error && <div style={styles.error}>{t('mocks.bodyError', { error })}</div>}
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <span style={styles.title}>{t('mocks.title')}</span>
+        <span style={styles.info}>{t('mocks.routes', { count: endpoints.length })}</span>
+      </div>
+
+      <div style={styles.scroll}>
+        {endpoints.length === 0 ? (
+          <div style={styles.empty}>
+            {t('mocks.empty')}{' '}
+            <code>api getItems = GET "/api/items"</code>, <code>data items = fetch("/api/items")</code>,{' '}
+            <code>crud Item</code>
+          </div>
+        ) : (
+          <ul style={styles.list}>{endpoints.map(renderRoute)}</ul>
+        )}
+      </div>
+
+      <div style={styles.logHeader}>
+        <span style={styles.title}>{t('mocks.requests')}</span>
+        <button onClick={onClearRequests} disabled={requests.length === 0} style={styles.smallBtn}>{t('common.clear')}</button>
+      </div>
+      <div style={styles.log}>
+        {requests.length === 0 && <div style={styles.empty}>{t('mocks.noRequests')}</div>}
+        {requests.map((r, i) => (
+          <div key={i} style={styles.logRow}>
+            <span style={{ ...styles.method, color: METHOD_COLORS[r.method] ?? '#8b949e' }}>{r.method}</span>
+            <span style={styles.path}>{r.url}</span>
+            <span style={r.status === null || r.status >= 400 ? styles.statusBad : styles.status}>
+              {r.status ?? (r.mocked ? t('mocks.pending') : t('mocks.failed'))}
+            </span>
+            <span style={styles.source}>{r.mocked ? t('mocks.mock') : t('mocks.network')}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const MONO = "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, monospace";
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    width: '340px',
+    flexShrink: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    overflow: 'hidden',
+    backgroundColor: '#0d1117',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '8px 12px',
+    backgroundColor: '#161b22',
+    borderBottom: '1px solid #30363d',
+    flexShrink: 0,
+  },
+  title: {
+    fontSize: '13px',
+    fontWeight: 600,
+    color: '#e6edf3',
+  },
+  info: {
+    fontSize: '12px',
+    color: '#8b949e',
+  },
+  scroll: {
+    flex: 2,
+    overflow: 'auto',
+  },
+  empty: {
+    padding: '12px',
+    fontSize: '12px',
+    lineHeight: '1.6',
+    color: '#8b949e',
+  },
+  list: {
+    listStyle: 'none',
+    margin: 0,
+    padding: 0,
+  },
+  route: {
+    borderBottom: '1px solid #21262d',
+  },
+  routeHeader: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: '8px',
+    padding: '6px 12px',
+    fontFamily: MONO,
+    fontSize: '12px',
+    cursor: 'pointer',
+  },
+  twisty: {
+    width: '10px',
+    fontSize: '10px',
+    color: '#8b949e',
+  },
+  method: {
+    fontWeight: 600,
+    minWidth: '48px',
+  },
+  path: {
+    flex: 1,
+    minWidth: 0,
+    color: '#e6edf3',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  status: {
+    color: '#3fb950',
+  },
+  statusBad: {
+    color: '#f85149',
+  },
+  source: {
+    color: '#484f58',
+  },
+  editor: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    padding: '0 12px 12px 30px',
+  },
+  meta: {
+    fontSize: '12px',
+  },
+  link: {
+    padding: 0,
+    fontSize: '12px',
+    color: '#58a6ff',
+    backgroundColor: 'transparent',
+    border: 'none',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  controls: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: '10px',
+  },
+  label: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    fontSize: '12px',
+    color: '#8b949e',
+  },
+  number: {
+    width: '64px',
+    padding: '2px 4px',
+    fontSize: '12px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    fontFamily: 'inherit',
+  },
+  select: {
+    padding: '2px 6px',
+    fontSize: '12px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    fontFamily: 'inherit',
+  },
+  smallBtn: {
+    padding: '2px 8px',
+    fontSize: '11px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  body: {
+    width: '100%',
+    padding: '6px 8px',
+    fontFamily: MONO,
+    fontSize: '12px',
+    lineHeight: '1.5',
+    color: '#e6edf3',
+    backgroundColor: '#010409',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    resize: 'vertical',
+    outline: 'none',
+  },
+  bodyInvalid: {
+    borderColor: '#f85149',
+  },
+  error: {
+    fontSize: '12px',
+    color: '#f85149',
+  },
+  logHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '6px 12px',
+    backgroundColor: '#161b22',
+    borderTop: '1px solid #30363d',
+    borderBottom: '1px solid #30363d',
+    flexShrink: 0,
+  },
+  log: {
+    flex: 1,
+    overflow: 'auto',
+  },
+  logRow: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: '8px',
+    padding: '2px 12px',
+    fontFamily: MONO,
+    fontSize: '12px',
+  },
+};
+
+export default MocksPanel;
@@ -0,0 +1,177 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import type { ResolvedMock } from './mocks';
+import { isPreviewEvent, type PreviewRequest, type PreviewRequestLog } from './previewProtocol';
+import type { SocketAction, SocketLog } from './realtime';
+import type { Target } from './targets';
+import { useLocale } from './useLocale';
+
+interface PreviewProps {
+  target: Target;
+  // Output file to mount, and the last successfully compiled output of every
+  // file; compile errors never reach the frame.
+  entry: string;
+  files: Record<string, string>;
+  mocks: ResolvedMock[];
+  // WebSocket URLs answered by a simulated socket.
+  sockets: string[];
+  // Called for each `fetch` the current page makes.
+  onRequest?(request: PreviewRequestLog): void;
+  onSocketEvent?(event: SocketLog): void;
+}
+
+export interface PreviewHandle {
+  // Pushes a message, error or disconnect to the page's simulated sockets.
+  pushSocket(url: string, action: SocketAction, data?: string): void;
+}
+
+interface RuntimeError {
+  message: string;
+  stack?: string;
+}
+
+// The frame is served from our own origin but sandboxed without
+// `allow-same-origin`, so it runs with an opaque origin and cannot reach into
+// the playground. Its module scripts are therefore fetched with CORS; static
+// hosts must send `Access-Control-Allow-Origin` for the preview bundle.
+const SANDBOX = 'allow-scripts allow-forms allow-modals allow-popups';
+
+const Preview = forwardRef<PreviewHandle, PreviewProps>(function Preview(props, ref) {
+  const { target, entry, files, mocks, sockets, onRequest, onSocketEvent } = props;
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const requestId = useRef(0);
+  const { t } = useLocale();
+  const [ready, setReady] = useState(false);
+  const [frameKey, setFrameKey] = useState(0);
+  const [runtimeError, setRuntimeError] = useState<RuntimeError | null>(null);
+  const onRequestRef = useRef(onRequest);
+  onRequestRef.current = onRequest;
+  const onSocketEventRef = useRef(onSocketEvent);
+  onSocketEventRef.current = onSocketEvent;
+  // Fixtures are rebuilt from the source on every edit; only a change in
+  // content should re-render the page.
+  const mocksJson = JSON.stringify(mocks);
+  const socketsJson = JSON.stringify(sockets);
+
+  useImperativeHandle(ref, () => ({
+    pushSocket(url, action, data) {
+      const request: PreviewRequest = { type: 'socket', url, action, data };
+      frameRef.current?.contentWindow?.postMessage(request, '*');
+    },
+  }), []);
+
+  useEffect(() => {
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== frameRef.current?.contentWindow || !isPreviewEvent(event.data)) return;
+      const data = event.data;
+      if (data.type === 'ready') {
+        setReady(true);
+      } else if (data.type === 'runtime-error' && data.id === requestId.current) {
+        setRuntimeError({ message: data.message, stack: data.stack });
+      } else if (data.type === 'request' && data.id === requestId.current) {
+        onRequestRef.current?.(data.request);
+      } else if (data.type === 'socket' && data.id === requestId.current) {
+        onSocketEventRef.current?.(data.event);
+      }
+    };
+    window.addEventListener('message', onMessage);
+    return () => window.removeEventListener('message', onMessage);
+  }, []);
+
+  useEffect(() => {
+    if (!ready || !(entry in files)) return;
+    const request: PreviewRequest = {
+      type: 'render',
+      id: ++requestId.current,
+      target,
+      entry,
+      files,
+      mocks: JSON.parse(mocksJson),
+      sockets: JSON.parse(socketsJson),
+    };
+    setRuntimeError(null);
+    frameRef.current?.contentWindow?.postMessage(request, '*');
+  }, [ready, target, entry, files, mocksJson, socketsJson]);
+
+  const reload = () => {
+    setReady(false);
+    setRuntimeError(null);
+    setFrameKey(k => k + 1);
+  };
+
+  return (
+    <div style={styles.body}>
+      <iframe
+        key={frameKey}
+        ref={frameRef}
+        src="preview.html"
+        title={t('preview.frameTitle')}
+        sandbox={SANDBOX}
+        style={styles.frame}
+      />
+      {runtimeError && (
+        <div style={styles.errorBar}>
+          <div style={styles.errorHeader}>
+            <span style={styles.errorTitle}>{t('preview.runtimeError')}</span>
+            <button onClick={reload} style={styles.reloadBtn}>{t('preview.reload')}</button>
+          </div>
+          <pre style={styles.errorText}>{runtimeError.stack || runtimeError.message}</pre>
+        </div>
+      )}
+    </div>
+  );
+});
+
+const styles: Record<string, React.CSSProperties> = {
+  body: {
+    flex: 1,
+    display: 'flex',
+    flexDirection: 'column',
+    overflow: 'hidden',
+    backgroundColor: '#ffffff',
+  },
+  frame: {
+    flex: 1,
+    width: '100%',
+    border: 'none',
+    backgroundColor: '#ffffff',
+  },
+  errorBar: {
+    maxHeight: '40%',
+    overflow: 'auto',
+    padding: '8px 16px',
+    backgroundColor: '#1c1214',
+    borderTop: '1px solid #f85149',
+    flexShrink: 0,
+  },
+  errorHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: '4px',
+  },
+  errorTitle: {
+    color: '#f85149',
+    fontWeight: 600,
+    fontSize: '13px',
+  },
+  errorText: {
+    color: '#f85149',
+    fontFamily: "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, monospace",
+    fontSize: '12px',
+    lineHeight: '1.5',
+    whiteSpace: 'pre-wrap',
+    margin: 0,
+  },
+  reloadBtn: {
+    padding: '2px 8px',
+    fontSize: '11px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+};
+
+export default Preview;
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import type { Diagnostic } from './diagnostics';
+import { useLocale } from './useLocale';
+
+interface ProblemsPanelProps {
+  diagnostics: Diagnostic[];
+  onSelect(diagnostic: Diagnostic): void;
+  // Lint rules by ID with their descriptions, and the ones switched off.
+  rules?: Record<string, string>;
+  disabledRules?: ReadonlySet<string>;
+  onToggleRule?(rule: string): void;
+}
+
+function ProblemsPanel({ diagnostics, onSelect, rules, disabledRules, onToggleRule }: ProblemsPanelProps) {
+  const { t } = useLocale();
+  const [open, setOpen] = useState(true);
+  const [showRules, setShowRules] = useState(false);
+  const errors = diagnostics.filter(d => d.severity === 'error').length;
+  const warnings = diagnostics.length - errors;
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.headerRow}>
+        <button onClick={() => setOpen(o => !o)} style={styles.header}>
+          <span>{open ? '▾' : '▸'} {t('problems.title')}</span>
+          <span>
+            <span style={errors ? styles.errorCount : styles.zeroCount}>{t('problems.errors', { count: errors })}</span>
+            {' · '}
+            <span style={warnings ? styles.warningCount : styles.zeroCount}>{t('problems.warnings', { count: warnings })}</span>
+          </span>
+        </button>
+        {rules && (
+          <button
+            onClick={() => setShowRules(v => !v)}
+            style={{ ...styles.rulesBtn, ...(showRules ? styles.rulesBtnActive : {}) }}
+            title={t('problems.rulesTitle')}
+          >
+            {t('problems.rules')}{disabledRules?.size ? ` (${Object.keys(rules).length - disabledRules.size}/${Object.keys(rules).length})` : ''}
+          </button>
+        )}
+      </div>
+      {showRules && rules && (
+        <ul style={styles.rules}>
+          {Object.entries(rules).map(([id, description]) => (
+            <li key={id}>
+              <label style={styles.rule}>
+                <input type="checkbox" checked={!disabledRules?.has(id)} onChange={() => onToggleRule?.(id)} />
+                <code style={styles.ruleId}>{id}</code>
+                <span style={styles.ruleDescription}>{description}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+      {open && diagnostics.length > 0 && (
+        <ul style={styles.list}>
+          {diagnostics.map((d, i) => (
+            <li key={i}>
+              <button
+                onClick={() => onSelect(d)}
+                disabled={d.line === undefined && d.file === undefined}
+                style={styles.item}
+              >
+                <span style={d.severity === 'error' ? styles.errorIcon : styles.warningIcon}>
+                  {d.severity === 'error' ? '✕' : '⚠'}
+                </span>
+                <span style={styles.message}>{d.message}</span>
+                {d.rule && <span style={styles.ruleTag}>{d.rule}</span>}
+                {d.file !== undefined && <span style={styles.position}>{d.file}</span>}
+                {d.line !== undefined && (
+                  <span style={styles.position}>
+                    {d.column !== undefined
+                      ? t('problems.lineColumn', { line: d.line, column: d.column })
+                      : t('problems.line', { line: d.line })}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    flexShrink: 0,
+    maxHeight: '35%',
+    display: 'flex',
+    flexDirection: 'column',
+    borderTop: '1px solid #30363d',
+    backgroundColor: '#161b22',
+  },
+  headerRow: {
+    display: 'flex',
+    alignItems: 'center',
+    paddingRight: '12px',
+  },
+  header: {
+    flex: 1,
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '6px 16px',
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#e6edf3',
+    backgroundColor: 'transparent',
+    border: 'none',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  rulesBtn: {
+    padding: '1px 8px',
+    fontSize: '11px',
+    color: '#8b949e',
+    backgroundColor: 'transparent',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  rulesBtnActive: {
+    color: '#e6edf3',
+    backgroundColor: '#30363d',
+  },
+  rules: {
+    listStyle: 'none',
+    margin: 0,
+    padding: '4px 16px 8px',
+    borderBottom: '1px solid #30363d',
+  },
+  rule: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: '8px',
+    padding: '2px 0',
+    fontSize: '12px',
+    cursor: 'pointer',
+  },
+  ruleId: {
+    color: '#e6edf3',
+    fontFamily: "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, monospace",
+  },
+  ruleDescription: {
+    color: '#8b949e',
+  },
+  ruleTag: {
+    color: '#8b949e',
+    fontFamily: "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, monospace",
+    flexShrink: 0,
+  },
+  errorCount: {
+    color: '#f85149',
+  },
+  warningCount: {
+    color: '#d29922',
+  },
+  zeroCount: {
+    color: '#8b949e',
+    fontWeight: 400,
+  },
+  list: {
+    listStyle: 'none',
+    margin: 0,
+    padding: '0 0 6px',
+    overflow: 'auto',
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: '8px',
+    width: '100%',
+    padding: '3px 16px',
+    fontSize: '12px',
+    color: '#e6edf3',
+    textAlign: 'left',
+    backgroundColor: 'transparent',
+    border: 'none',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  errorIcon: {
+    color: '#f85149',
+    flexShrink: 0,
+  },
+  warningIcon: {
+    color: '#d29922',
+    flexShrink: 0,
+  },
+  message: {
+    flex: 1,
+    whiteSpace: 'pre-wrap',
+  },
+  position: {
+    color: '#8b949e',
+    flexShrink: 0,
+  },
+};
+
+export default ProblemsPanel;
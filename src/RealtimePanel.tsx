@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import { socketState, type SocketAction, type SocketDeclaration, type SocketLog, type SocketState } from './realtime';
+import { useLocale } from './useLocale';
+
+interface RealtimePanelProps {
+  sockets: SocketDeclaration[];
+  // Newest first.
+  log: SocketLog[];
+  onPush(url: string, action: SocketAction, data?: string): void;
+  onClearLog(): void;
+  onReveal(socket: SocketDeclaration): void;
+}
+
+const DEFAULT_MESSAGE = '{"text": "Hello from the simulator"}';
+
+const STATE_COLORS: Record<SocketState, string> = {
+  idle: '#484f58',
+  connecting: '#d29922',
+  open: '#3fb950',
+  closed: '#f85149',
+};
+
+// A console for the simulated sockets behind `realtime ... subscribe()`:
+// push messages to the page, break the connection, and watch what it sends.
+function RealtimePanel({ sockets, log, onPush, onClearLog, onReveal }: RealtimePanelProps) {
+  const { t } = useLocale();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <span style={styles.title}>{t('realtime.title')}</span>
+        <span style={styles.info}>{t('realtime.simulated', { count: sockets.length })}</span>
+      </div>
+
+      <div style={styles.scroll}>
+        {sockets.length === 0 && (
+          <div style={styles.empty}>
+            {t('realtime.empty')} <code>realtime ws = subscribe("wss://…")</code>
+          </div>
+        )}
+        {sockets.map(socket => {
+          const state = socketState(log, socket.url);
+          const draft = drafts[socket.url] ?? DEFAULT_MESSAGE;
+          const live = state === 'open';
+          return (
+            <div key={`${socket.file}:${socket.line}`} style={styles.socket}>
+              <div style={styles.socketHeader}>
+                <span style={{ ...styles.dot, backgroundColor: STATE_COLORS[state] }} title={t(`realtime.state.${state}`)} />
+                <button onClick={() => onReveal(socket)} style={styles.link}>{socket.name}</button>
+                <span style={styles.url}>{socket.url}</span>
+              </div>
+              <div style={styles.handlers}>
+                {socket.handlers.length
+                  ? t('realtime.handles', { handlers: socket.handlers.map(h => `on ${h}`).join(', ') })
+                  : t('realtime.noHandlers')}
+                {' · '}{t(`realtime.state.${state}`)}
+              </div>
+              <textarea
+                value={draft}
+                onChange={e => setDrafts(prev => ({ ...prev, [socket.url]: e.target.value }))}
+                onKeyDown={e => {
+                  if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && live) onPush(socket.url, 'message', draft);
+                }}
+                spellCheck={false}
+                rows={3}
+                style={styles.message}
+              />
+              <div style={styles.actions}>
+                <button
+                  onClick={() => onPush(socket.url, 'message', draft)}
+                  disabled={!live}
+                  style={styles.primaryBtn}
+                  title="Ctrl/Cmd+Enter"
+                >
+                  {t('realtime.push')}
+                </button>
+                <button onClick={() => onPush(socket.url, 'error')} disabled={!live} style={styles.smallBtn}>
+                  {t('realtime.error')}
+                </button>
+                <button onClick={() => onPush(socket.url, 'close')} disabled={!live} style={styles.smallBtn}>
+                  {t('realtime.disconnect')}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div style={styles.logHeader}>
+        <span style={styles.title}>{t('realtime.frames')}</span>
+        <button onClick={onClearLog} disabled={log.length === 0} style={styles.smallBtn}>{t('common.clear')}</button>
+      </div>
+      <div style={styles.log}>
+        {log.length === 0 && <div style={styles.empty}>{t('realtime.noFrames')}</div>}
+        {log.map((event, i) => (
+          <div key={i} style={styles.logRow}>
+            <span style={{ ...styles.kind, ...(event.kind === 'error' || event.kind === 'close' ? styles.bad : {}) }}>
+              {t(`realtime.kind.${event.kind}`)}
+            </span>
+            <span style={styles.data}>{event.data ?? event.url}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const MONO = "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, monospace";
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    width: '340px',
+    flexShrink: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    overflow: 'hidden',
+    backgroundColor: '#0d1117',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '8px 12px',
+    backgroundColor: '#161b22',
+    borderBottom: '1px solid #30363d',
+    flexShrink: 0,
+  },
+  title: {
+    fontSize: '13px',
+    fontWeight: 600,
+    color: '#e6edf3',
+  },
+  info: {
+    fontSize: '12px',
+    color: '#8b949e',
+  },
+  scroll: {
+    flex: 2,
+    overflow: 'auto',
+  },
+  empty: {
+    padding: '12px',
+    fontSize: '12px',
+    lineHeight: '1.6',
+    color: '#8b949e',
+  },
+  socket: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    padding: '10px 12px',
+    borderBottom: '1px solid #21262d',
+  },
+  socketHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    fontFamily: MONO,
+    fontSize: '12px',
+  },
+  dot: {
+    width: '8px',
+    height: '8px',
+    borderRadius: '50%',
+    flexShrink: 0,
+  },
+  link: {
+    padding: 0,
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#58a6ff',
+    backgroundColor: 'transparent',
+    border: 'none',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  url: {
+    minWidth: 0,
+    color: '#8b949e',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  handlers: {
+    fontSize: '12px',
+    color: '#8b949e',
+  },
+  message: {
+    width: '100%',
+    padding: '6px 8px',
+    fontFamily: MONO,
+    fontSize: '12px',
+    lineHeight: '1.5',
+    color: '#e6edf3',
+    backgroundColor: '#010409',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    resize: 'vertical',
+    outline: 'none',
+  },
+  actions: {
+    display: 'flex',
+    gap: '8px',
+  },
+  primaryBtn: {
+    padding: '2px 8px',
+    fontSize: '11px',
+    color: '#ffffff',
+    backgroundColor: '#238636',
+    border: '1px solid #2ea043',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  smallBtn: {
+    padding: '2px 8px',
+    fontSize: '11px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  logHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '6px 12px',
+    backgroundColor: '#161b22',
+    borderTop: '1px solid #30363d',
+    borderBottom: '1px solid #30363d',
+    flexShrink: 0,
+  },
+  log: {
+    flex: 1,
+    overflow: 'auto',
+  },
+  logRow: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: '8px',
+    padding: '2px 12px',
+    fontFamily: MONO,
+    fontSize: '12px',
+  },
+  kind: {
+    minWidth: '84px',
+    color: '#8b949e',
+  },
+  bad: {
+    color: '#f85149',
+  },
+  data: {
+    minWidth: 0,
+    color: '#e6edf3',
+    wordBreak: 'break-all',
+  },
+};
+
+export default RealtimePanel;
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import {
+  bindShortcut,
+  COMMAND_GROUPS,
+  COMMANDS,
+  comboFromEvent,
+  DEFAULT_SHORTCUTS,
+  formatCombo,
+  isBindable,
+  type CommandId,
+  type ShortcutMap,
+} from './shortcuts';
+import { useLocale } from './useLocale';
+
+interface ShortcutSheetProps {
+  shortcuts: ShortcutMap;
+  onChange(shortcuts: ShortcutMap): void;
+  onClose(): void;
+}
+
+// Cheat sheet of every command and its shortcut. Clicking a shortcut records
+// the next key combination as its replacement.
+function ShortcutSheet({ shortcuts, onChange, onClose }: ShortcutSheetProps) {
+  const { t } = useLocale();
+  const [recording, setRecording] = useState<CommandId | null>(null);
+  const customized = COMMANDS.some(c => shortcuts[c.id] !== DEFAULT_SHORTCUTS[c.id]);
+
+  // Handled before the playground's own shortcuts, which skip prevented events.
+  const record = (id: CommandId, e: React.KeyboardEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const bare = !e.ctrlKey && !e.metaKey && !e.altKey && !e.shiftKey;
+    if (e.key === 'Escape') {
+      setRecording(null);
+    } else if (bare && (e.key === 'Backspace' || e.key === 'Delete')) {
+      onChange(bindShortcut(shortcuts, id, null));
+      setRecording(null);
+    } else {
+      const combo = comboFromEvent(e.nativeEvent);
+      // Keep listening past lone modifiers and keys that need one.
+      if (!combo || !isBindable(combo)) return;
+      onChange(bindShortcut(shortcuts, id, combo));
+      setRecording(null);
+    }
+  };
+
+  return (
+    <div style={styles.backdrop} onClick={onClose}>
+      <div
+        style={styles.dialog}
+        onClick={e => e.stopPropagation()}
+        onKeyDown={e => {
+          if (e.key === 'Escape' && !e.defaultPrevented) onClose();
+        }}
+        role="dialog"
+        aria-label={t('shortcuts.title')}
+      >
+        <div style={styles.header}>
+          <span style={styles.title}>{t('shortcuts.title')}</span>
+          <span style={styles.actions}>
+            <button onClick={() => onChange({ ...DEFAULT_SHORTCUTS })} disabled={!customized} style={styles.smallBtn}>
+              {t('shortcuts.resetAll')}
+            </button>
+            <button autoFocus onClick={onClose} style={styles.smallBtn}>{t('common.close')}</button>
+          </span>
+        </div>
+        <div style={styles.note}>{t('shortcuts.note')}</div>
+        <div style={styles.body}>
+          {COMMAND_GROUPS.map(group => (
+            <section key={group} style={styles.section}>
+              <h3 style={styles.groupTitle}>{t(`command.group.${group}`)}</h3>
+              {COMMANDS.filter(c => c.group === group).map(({ id }) => {
+                const combo = shortcuts[id];
+                return (
+                  <div key={id} style={styles.row}>
+                    <span style={styles.label}>{t(`command.${id}`)}</span>
+                    {combo !== DEFAULT_SHORTCUTS[id] && (
+                      <button
+                        onClick={() => onChange(bindShortcut(shortcuts, id, DEFAULT_SHORTCUTS[id]))}
+                        style={styles.linkBtn}
+                      >
+                        {t('shortcuts.reset')}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setRecording(recording === id ? null : id)}
+                      onKeyDown={recording === id ? e => record(id, e) : undefined}
+                      onBlur={() => setRecording(current => (current === id ? null : current))}
+                      style={{ ...styles.kbd, ...(recording === id ? styles.kbdRecording : {}) }}
+                    >
+                      {recording === id
+                        ? t('shortcuts.recording')
+                        : combo ? formatCombo(combo) : t('shortcuts.none')}
+                    </button>
+                  </div>
+                );
+              })}
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const MONO = "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, monospace";
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: 'fixed',
+    inset: 0,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(1, 4, 9, 0.7)',
+    zIndex: 10,
+  },
+  dialog: {
+    width: 'min(720px, 92vw)',
+    maxHeight: '80vh',
+    display: 'flex',
+    flexDirection: 'column',
+    backgroundColor: '#161b22',
+    border: '1px solid #30363d',
+    borderRadius: '8px',
+    overflow: 'hidden',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '10px 16px',
+    borderBottom: '1px solid #30363d',
+  },
+  title: {
+    fontSize: '14px',
+    fontWeight: 600,
+    color: '#e6edf3',
+  },
+  actions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  smallBtn: {
+    padding: '2px 8px',
+    fontSize: '11px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  note: {
+    padding: '8px 16px',
+    fontSize: '12px',
+    lineHeight: '1.5',
+    color: '#8b949e',
+    borderBottom: '1px solid #30363d',
+  },
+  body: {
+    flex: 1,
+    overflow: 'auto',
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))',
+    gap: '12px 24px',
+    padding: '12px 16px',
+    backgroundColor: '#0d1117',
+  },
+  section: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+  },
+  groupTitle: {
+    margin: '0 0 4px',
+    fontSize: '11px',
+    fontWeight: 600,
+    textTransform: 'uppercase',
+    color: '#8b949e',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '3px 0',
+    fontSize: '12px',
+    color: '#e6edf3',
+  },
+  label: {
+    flex: 1,
+  },
+  linkBtn: {
+    padding: 0,
+    fontSize: '11px',
+    color: '#58a6ff',
+    background: 'none',
+    border: 'none',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  kbd: {
+    minWidth: '64px',
+    padding: '1px 8px',
+    fontFamily: MONO,
+    fontSize: '11px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    cursor: 'pointer',
+  },
+  kbdRecording: {
+    color: '#58a6ff',
+    border: '1px solid #58a6ff',
+  },
+};
+
+export default ShortcutSheet;
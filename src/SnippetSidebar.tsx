@@ -0,0 +1,211 @@
+import React, { useRef, useState } from 'react';
+import type { Snippet } from './workspace';
+import { TARGET_LABELS } from './targets';
+import { useLocale } from './useLocale';
+
+interface SnippetSidebarProps {
+  snippets: Snippet[];
+  activeId: string | null;
+  onOpen(snippet: Snippet): void;
+  onNew(): void;
+  onRename(id: string, name: string): void;
+  onDuplicate(id: string): void;
+  onDelete(id: string): void;
+  onImport(file: File): void;
+  onExport(): void;
+}
+
+function SnippetSidebar(props: SnippetSidebarProps) {
+  const { snippets, activeId, onOpen, onNew, onRename, onDuplicate, onDelete, onImport, onExport } = props;
+  const { locale, t } = useLocale();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const startRename = (snippet: Snippet) => {
+    setEditingId(snippet.id);
+    setDraftName(snippet.name);
+  };
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, draftName);
+    setEditingId(null);
+  };
+
+  return (
+    <aside style={styles.sidebar}>
+      <div style={styles.header}>
+        <span style={styles.title}>{t('snippets.title')}</span>
+        <button onClick={onNew} style={styles.smallBtn} title={t('snippets.newTitle')}>{t('snippets.new')}</button>
+      </div>
+
+      <ul style={styles.list}>
+        {snippets.length === 0 && <li style={styles.empty}>{t('snippets.empty')}</li>}
+        {snippets.map(snippet => (
+          <li
+            key={snippet.id}
+            style={{ ...styles.item, ...(snippet.id === activeId ? styles.itemActive : {}) }}
+          >
+            {editingId === snippet.id ? (
+              <input
+                autoFocus
+                value={draftName}
+                onChange={e => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                style={styles.renameInput}
+              />
+            ) : (
+              <button
+                onClick={() => onOpen(snippet)}
+                onDoubleClick={() => startRename(snippet)}
+                style={styles.name}
+                title={t('snippets.itemTitle', {
+                  name: snippet.name,
+                  target: TARGET_LABELS[snippet.target],
+                  updated: new Date(snippet.updatedAt).toLocaleString(locale),
+                })}
+              >
+                {snippet.name}
+              </button>
+            )}
+            <span style={styles.actions}>
+              <button onClick={() => startRename(snippet)} style={styles.iconBtn} title={t('snippets.rename')}>✎</button>
+              <button onClick={() => onDuplicate(snippet.id)} style={styles.iconBtn} title={t('snippets.duplicate')}>⧉</button>
+              <button
+                onClick={() => {
+                  if (window.confirm(t('snippets.confirmDelete', { name: snippet.name }))) onDelete(snippet.id);
+                }}
+                style={styles.iconBtn}
+                title={t('snippets.delete')}
+              >
+                ✕
+              </button>
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <div style={styles.footer}>
+        <button onClick={() => fileRef.current?.click()} style={styles.smallBtn}>{t('snippets.import')}</button>
+        <button onClick={onExport} style={styles.smallBtn}>{t('snippets.export')}</button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: 'none' }}
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </aside>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  sidebar: {
+    width: '220px',
+    flexShrink: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    backgroundColor: '#161b22',
+    borderRight: '1px solid #30363d',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '8px 12px',
+    borderBottom: '1px solid #30363d',
+  },
+  title: {
+    fontSize: '13px',
+    fontWeight: 600,
+    color: '#e6edf3',
+  },
+  list: {
+    flex: 1,
+    listStyle: 'none',
+    margin: 0,
+    padding: '4px 0',
+    overflow: 'auto',
+  },
+  empty: {
+    padding: '8px 12px',
+    fontSize: '12px',
+    color: '#8b949e',
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'center',
+    padding: '0 4px 0 0',
+  },
+  itemActive: {
+    backgroundColor: '#21262d',
+    boxShadow: 'inset 2px 0 0 #58a6ff',
+  },
+  name: {
+    flex: 1,
+    minWidth: 0,
+    padding: '5px 12px',
+    fontSize: '13px',
+    color: '#e6edf3',
+    textAlign: 'left',
+    whiteSpace: 'nowrap',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    backgroundColor: 'transparent',
+    border: 'none',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  renameInput: {
+    flex: 1,
+    minWidth: 0,
+    margin: '2px 8px',
+    padding: '2px 4px',
+    fontSize: '13px',
+    color: '#e6edf3',
+    backgroundColor: '#0d1117',
+    border: '1px solid #58a6ff',
+    borderRadius: '4px',
+    outline: 'none',
+    fontFamily: 'inherit',
+  },
+  actions: {
+    display: 'flex',
+    flexShrink: 0,
+  },
+  iconBtn: {
+    padding: '2px 4px',
+    fontSize: '11px',
+    color: '#8b949e',
+    backgroundColor: 'transparent',
+    border: 'none',
+    cursor: 'pointer',
+  },
+  footer: {
+    display: 'flex',
+    gap: '4px',
+    padding: '8px 12px',
+    borderTop: '1px solid #30363d',
+  },
+  smallBtn: {
+    padding: '2px 8px',
+    fontSize: '11px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+};
+
+export default SnippetSidebar;
@@ -0,0 +1,396 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DEFAULT_COMPILE_OPTIONS, type CompileOptions } from './compileOptions';
+import { problemMessage } from './compilerProtocol';
+import { EXAMPLES, exampleSource } from './examples';
+import { errorMessage } from './i18n';
+import { singleFile, type SourceFile } from './project';
+import { TARGETS, TARGET_LABELS, type Target } from './targets';
+import {
+  countLexical,
+  countZeroXTokens,
+  loadBpeCounter,
+  measure,
+  savingsPercent,
+  TOKEN_METHODS,
+  type Metrics,
+  type TokenCounter,
+  type TokenMethod,
+} from './tokenMetrics';
+import { createCompileSession } from './useCompiler';
+import { useLocale, type Translate } from './useLocale';
+
+interface TokenReportProps {
+  // The project being edited, reported alongside the examples.
+  files: SourceFile[];
+  options: CompileOptions;
+  // Used for every subject.
+  compiler: string;
+  method: TokenMethod;
+  onMethodChange(method: TokenMethod): void;
+  onClose(): void;
+}
+
+interface Subject {
+  key: string;
+  label: string;
+  files: SourceFile[];
+  options: CompileOptions;
+}
+
+// Compiled output per subject and target; measuring happens at render time
+// so switching the token method needs no recompile.
+interface Compiled {
+  subject: string;
+  target: Target;
+  source: string;
+  output: string | null;
+  compilerTokens: number | null;
+  error: string | null;
+}
+
+interface Row extends Compiled {
+  label: string;
+  metrics: Metrics | null;
+  zeroXTokens: number | null;
+}
+
+const REPORT_COLUMNS = [
+  'subject', 'target', 'sourceLines', 'sourceTokens', 'outputLines', 'outputTokens', 'savings', 'tokenizer', 'compiler',
+] as const;
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: Row[]): string {
+  const header = [
+    'subject', 'target', 'status', 'method', 'source_lines', 'source_tokens', 'output_lines', 'output_tokens',
+    'savings_percent', 'zerox_tokenizer_tokens', 'compiler_token_count', 'error',
+  ];
+  const lines = rows.map(r => [
+    r.label,
+    TARGET_LABELS[r.target],
+    r.error ? 'error' : 'ok',
+    r.metrics?.method ?? null,
+    r.metrics?.source.lines ?? null,
+    r.metrics?.source.tokens ?? null,
+    r.metrics?.output.lines ?? null,
+    r.metrics?.output.tokens ?? null,
+    r.metrics?.savings ?? null,
+    r.zeroXTokens,
+    r.compilerTokens,
+    r.error,
+  ].map(csvCell).join(','));
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
+
+function downloadCsv(csv: string) {
+  const blob = new Blob([csv], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `0x-token-report-${new Date().toISOString().slice(0, 10)}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatSavings(savings: number | null, t: Translate): string {
+  if (savings === null) return '—';
+  return savings >= 0 ? `${savings}%` : t('report.larger', { percent: -savings });
+}
+
+// The counter for `method`. Until the BPE encoding has loaded (or if it
+// fails to), lexical counts are returned and labelled as such.
+function useTokenCounter(method: TokenMethod): { method: TokenMethod; count: TokenCounter } {
+  const [loaded, setLoaded] = useState<TokenCounter | null>(null);
+
+  useEffect(() => {
+    if (method !== 'bpe' || loaded) return;
+    let cancelled = false;
+    loadBpeCounter().then(counter => {
+      if (!cancelled) setLoaded(() => counter);
+    }, () => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [method, loaded]);
+
+  return useMemo(
+    () => (method === 'bpe' && loaded ? { method, count: loaded } : { method: 'lexical' as const, count: countLexical }),
+    [method, loaded],
+  );
+}
+
+// Compiles the current project and every example for every target, then
+// measures source and output with the selected token method.
+function TokenReport({ files, options, compiler, method, onMethodChange, onClose }: TokenReportProps) {
+  const counter = useTokenCounter(method);
+  const { locale, t } = useLocale();
+  const [compiled, setCompiled] = useState<Compiled[]>([]);
+  const [total, setTotal] = useState(0);
+
+  useEffect(() => {
+    const subjects: Subject[] = [
+      { key: 'current', label: t('report.current'), files, options },
+      ...EXAMPLES.map(example => ({
+        key: example.id,
+        label: example.title[locale],
+        files: singleFile(exampleSource(example, locale)),
+        options: DEFAULT_COMPILE_OPTIONS,
+      })),
+    ];
+    setCompiled([]);
+    setTotal(subjects.length * TARGETS.length);
+
+    const session = createCompileSession();
+    let cancelled = false;
+    (async () => {
+      for (const subject of subjects) {
+        const source = subject.files.map(f => f.source).join('\n\n');
+        for (const target of TARGETS) {
+          let entry: Compiled;
+          try {
+            const { results } = await session.compile(subject.files, target, subject.options, compiler);
+            const failed = results.find(r => !r.ok);
+            entry = {
+              subject: subject.key,
+              target,
+              source,
+              output: failed ? null : results.map(r => (r.ok ? r.code : '')).join('\n\n'),
+              compilerTokens: failed ? null : results.reduce((sum, r) => sum + (r.ok ? r.tokenCount : 0), 0),
+              error: failed && !failed.ok ? `${failed.name}: ${problemMessage(locale, failed.error)}` : null,
+            };
+          } catch (e) {
+            entry = { subject: subject.key, target, source, output: null, compilerTokens: null, error: errorMessage(locale, e) };
+          }
+          if (cancelled) return;
+          setCompiled(prev => [...prev, entry]);
+        }
+      }
+    })().finally(() => session.close());
+    return () => {
+      cancelled = true;
+      session.close();
+    };
+    // The report is a snapshot of the project when it was opened.
+  }, []);
+
+  const labels: Record<string, string> = {
+    current: t('report.current'),
+    ...Object.fromEntries(EXAMPLES.map(e => [e.id, e.title[locale]])),
+  };
+  const rows: Row[] = compiled.map(c => ({
+    ...c,
+    label: labels[c.subject] ?? c.subject,
+    metrics: c.output === null ? null : measure(c.source, c.output, counter.method, counter.count),
+    zeroXTokens: countZeroXTokens(c.source),
+  }));
+
+  const totals = TARGETS.map(target => {
+    const ok = rows.filter(r => r.target === target && r.metrics);
+    const source = ok.reduce((sum, r) => sum + r.metrics!.source.tokens, 0);
+    const output = ok.reduce((sum, r) => sum + r.metrics!.output.tokens, 0);
+    return { target, source, output, savings: savingsPercent(source, output) };
+  });
+
+  return (
+    <div style={styles.backdrop} onClick={onClose}>
+      <div style={styles.dialog} onClick={e => e.stopPropagation()} role="dialog" aria-label={t('report.title')}>
+        <div style={styles.header}>
+          <span style={styles.title}>{t('report.title')}</span>
+          <span style={styles.actions}>
+            <select
+              value={method}
+              onChange={e => onMethodChange(e.target.value as TokenMethod)}
+              style={styles.select}
+            >
+              {TOKEN_METHODS.map(m => (
+                <option key={m} value={m}>{t(`tokenMethod.${m}`)}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => downloadCsv(toCsv(rows))}
+              disabled={rows.length < total}
+              style={styles.smallBtn}
+            >
+              {t('report.exportCsv')}
+            </button>
+            <button onClick={onClose} style={styles.smallBtn}>{t('common.close')}</button>
+          </span>
+        </div>
+        <div style={styles.note}>
+          {rows.length < total
+            ? t('report.progress', { current: rows.length + 1, total })
+            : t('report.countedAs', { method: t(`tokenMethod.${counter.method}`) })}
+          {counter.method !== method && t('report.tokenizerLoading')}
+        </div>
+        <div style={styles.body}>
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                {REPORT_COLUMNS.map(column => <th key={column} style={styles.th}>{t(`report.column.${column}`)}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(r => (
+                <tr key={`${r.subject}-${r.target}`}>
+                  <td style={styles.td}>{r.label}</td>
+                  <td style={styles.td}>{TARGET_LABELS[r.target]}</td>
+                  {r.metrics ? (
+                    <>
+                      <td style={styles.num}>{r.metrics.source.lines}</td>
+                      <td style={styles.num}>{r.metrics.source.tokens}</td>
+                      <td style={styles.num}>{r.metrics.output.lines}</td>
+                      <td style={styles.num}>{r.metrics.output.tokens}</td>
+                      <td style={{ ...styles.num, ...((r.metrics.savings ?? 0) < 0 ? styles.worse : styles.better) }}>
+                        {formatSavings(r.metrics.savings, t)}
+                      </td>
+                    </>
+                  ) : (
+                    <td colSpan={5} style={styles.error} title={r.error ?? undefined}>{r.error}</td>
+                  )}
+                  <td style={styles.num}>{r.zeroXTokens ?? '—'}</td>
+                  <td style={styles.num}>{r.compilerTokens ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+            {rows.length === total && (
+              <tfoot>
+                {totals.map(sum => (
+                  <tr key={sum.target}>
+                    <td style={styles.totalLabel}>{t('report.allSubjects')}</td>
+                    <td style={styles.totalLabel}>{TARGET_LABELS[sum.target]}</td>
+                    <td style={styles.num} />
+                    <td style={styles.num}>{sum.source}</td>
+                    <td style={styles.num} />
+                    <td style={styles.num}>{sum.output}</td>
+                    <td style={{ ...styles.num, ...((sum.savings ?? 0) < 0 ? styles.worse : styles.better) }}>
+                      {formatSavings(sum.savings, t)}
+                    </td>
+                    <td colSpan={2} />
+                  </tr>
+                ))}
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: 'fixed',
+    inset: 0,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(1, 4, 9, 0.7)',
+    zIndex: 10,
+  },
+  dialog: {
+    width: 'min(960px, 92vw)',
+    maxHeight: '85vh',
+    display: 'flex',
+    flexDirection: 'column',
+    backgroundColor: '#161b22',
+    border: '1px solid #30363d',
+    borderRadius: '8px',
+    overflow: 'hidden',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '10px 16px',
+    borderBottom: '1px solid #30363d',
+  },
+  title: {
+    fontSize: '14px',
+    fontWeight: 600,
+    color: '#e6edf3',
+  },
+  actions: {
+    display: 'flex',
+    gap: '8px',
+  },
+  select: {
+    padding: '2px 6px',
+    fontSize: '12px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    fontFamily: 'inherit',
+  },
+  smallBtn: {
+    padding: '2px 8px',
+    fontSize: '11px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  note: {
+    padding: '6px 16px',
+    fontSize: '12px',
+    color: '#8b949e',
+    borderBottom: '1px solid #30363d',
+  },
+  body: {
+    overflow: 'auto',
+  },
+  table: {
+    width: '100%',
+    borderCollapse: 'collapse',
+    fontSize: '12px',
+  },
+  th: {
+    position: 'sticky',
+    top: 0,
+    padding: '6px 10px',
+    textAlign: 'left',
+    fontWeight: 600,
+    color: '#8b949e',
+    backgroundColor: '#161b22',
+    borderBottom: '1px solid #30363d',
+  },
+  td: {
+    padding: '4px 10px',
+    color: '#e6edf3',
+    whiteSpace: 'nowrap',
+  },
+  num: {
+    padding: '4px 10px',
+    color: '#e6edf3',
+    textAlign: 'right',
+    fontVariantNumeric: 'tabular-nums',
+  },
+  better: {
+    color: '#3fb950',
+  },
+  worse: {
+    color: '#f85149',
+  },
+  error: {
+    padding: '4px 10px',
+    color: '#f85149',
+    maxWidth: '360px',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  totalLabel: {
+    padding: '4px 10px',
+    color: '#8b949e',
+    fontWeight: 600,
+    borderTop: '1px solid #30363d',
+  },
+};
+
+export default TokenReport;
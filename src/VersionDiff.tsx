@@ -0,0 +1,275 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { CompileOptions } from './compileOptions';
+import { problemMessage, type FileResult } from './compilerProtocol';
+import { COMPILERS, compilerLabel } from './compilerVersions';
+import { errorMessage, type Locale } from './i18n';
+import { diffLines, diffStats, type DiffLine } from './lineDiff';
+import { outputFileName, type SourceFile } from './project';
+import { TARGET_LABELS, type Target } from './targets';
+import { createCompileSession } from './useCompiler';
+import { useLocale } from './useLocale';
+
+interface VersionDiffProps {
+  files: SourceFile[];
+  activeFile: string;
+  target: Target;
+  options: CompileOptions;
+  // The compiler the playground is using; the "new" side to start with.
+  compiler: string;
+  onClose(): void;
+}
+
+type Side = { results: FileResult[] } | { error: string };
+
+// Unchanged lines kept around each change when only changes are shown.
+const CONTEXT = 3;
+
+type Row = DiffLine | { kind: 'skipped'; count: number };
+
+function collapse(lines: DiffLine[]): Row[] {
+  const keep = lines.map(() => false);
+  lines.forEach((line, i) => {
+    if (line.kind === 'same') return;
+    for (let k = Math.max(0, i - CONTEXT); k <= Math.min(lines.length - 1, i + CONTEXT); k++) keep[k] = true;
+  });
+  const rows: Row[] = [];
+  lines.forEach((line, i) => {
+    if (keep[i]) {
+      rows.push(line);
+    } else {
+      const last = rows[rows.length - 1];
+      if (last?.kind === 'skipped') last.count++;
+      else rows.push({ kind: 'skipped', count: 1 });
+    }
+  });
+  return rows;
+}
+
+// A null error means the file was not in the compile.
+function outputOf(side: Side | undefined, file: string, locale: Locale): { code: string } | { error: string | null } | null {
+  if (!side) return null;
+  if ('error' in side) return side;
+  const result = side.results.find(r => r.name === file);
+  if (!result) return { error: null };
+  return result.ok ? { code: result.code } : { error: problemMessage(locale, result.error) };
+}
+
+// The project compiled for one target by two compiler releases, as a line
+// diff per output file. Sources are a snapshot from when it was opened.
+function VersionDiff({ files, activeFile, target, options, compiler, onClose }: VersionDiffProps) {
+  const { locale, t } = useLocale();
+  const [oldId, setOldId] = useState(() => COMPILERS.find(c => c.id !== compiler)?.id ?? compiler);
+  const [newId, setNewId] = useState(compiler);
+  const [sides, setSides] = useState<Record<string, Side>>({});
+  const [file, setFile] = useState(activeFile);
+  const [changesOnly, setChangesOnly] = useState(true);
+
+  useEffect(() => {
+    const session = createCompileSession();
+    let cancelled = false;
+    (async () => {
+      for (const id of new Set([oldId, newId])) {
+        if (sides[id]) continue;
+        let side: Side;
+        try {
+          side = { results: (await session.compile(files, target, options, id)).results };
+        } catch (e) {
+          side = { error: errorMessage(locale, e) };
+        }
+        if (cancelled) return;
+        setSides(prev => ({ ...prev, [id]: side }));
+      }
+    })().finally(() => session.close());
+    return () => {
+      cancelled = true;
+      session.close();
+    };
+    // Each release compiles once; `sides` only caches.
+  }, [oldId, newId]);
+
+  const before = outputOf(sides[oldId], file, locale);
+  const after = outputOf(sides[newId], file, locale);
+  const lines = useMemo(
+    () => (before && after && 'code' in before && 'code' in after ? diffLines(before.code, after.code) : null),
+    // `before` and `after` are rebuilt each render from these.
+    [sides, oldId, newId, file],
+  );
+  const stats = lines && diffStats(lines);
+  const rows = lines && (changesOnly ? collapse(lines) : lines);
+
+  const picker = (value: string, onChange: (id: string) => void) => (
+    <select value={value} onChange={e => onChange(e.target.value)} style={styles.select}>
+      {COMPILERS.map(c => <option key={c.id} value={c.id}>{compilerLabel(c.id)}</option>)}
+    </select>
+  );
+
+  let note: string;
+  if (!before || !after) note = t('versions.compiling');
+  else if ('error' in before || 'error' in after) note = '';
+  else if (stats && stats.added + stats.removed === 0) note = t('versions.identical');
+  else note = t('versions.stats', { removed: stats!.removed, added: stats!.added });
+
+  return (
+    <div style={styles.backdrop} onClick={onClose}>
+      <div style={styles.dialog} onClick={e => e.stopPropagation()} role="dialog" aria-label={t('versions.title')}>
+        <div style={styles.header}>
+          <span style={styles.title}>{t('versions.heading', { target: TARGET_LABELS[target] })}</span>
+          <span style={styles.actions}>
+            {picker(oldId, setOldId)}
+            <span style={styles.arrow}>→</span>
+            {picker(newId, setNewId)}
+            {files.length > 1 && (
+              <select value={file} onChange={e => setFile(e.target.value)} style={styles.select}>
+                {files.map(f => <option key={f.name} value={f.name}>{outputFileName(f.name, target)}</option>)}
+              </select>
+            )}
+            <label style={styles.toggle}>
+              <input type="checkbox" checked={changesOnly} onChange={e => setChangesOnly(e.target.checked)} />
+              {t('versions.changesOnly')}
+            </label>
+            <button onClick={onClose} style={styles.smallBtn}>{t('common.close')}</button>
+          </span>
+        </div>
+        <div style={styles.note}>
+          {note}
+          {before && 'error' in before && <span style={styles.error}>{compilerLabel(oldId)}: {before.error ?? t('versions.notCompiled')} </span>}
+          {after && 'error' in after && <span style={styles.error}>{compilerLabel(newId)}: {after.error ?? t('versions.notCompiled')}</span>}
+        </div>
+        <div style={styles.body}>
+          {rows?.map((row, i) => row.kind === 'skipped' ? (
+            <div key={i} style={styles.skipped}>⋯ {t('versions.skipped', { count: row.count })}</div>
+          ) : (
+            <div key={i} style={{ ...styles.line, ...(row.kind === 'added' ? styles.added : row.kind === 'removed' ? styles.removed : {}) }}>
+              <span style={styles.lineNo}>{row.oldLine ?? ''}</span>
+              <span style={styles.lineNo}>{row.newLine ?? ''}</span>
+              <span style={styles.sign}>{row.kind === 'added' ? '+' : row.kind === 'removed' ? '-' : ' '}</span>
+              <span>{row.text}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const MONO = "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, monospace";
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: 'fixed',
+    inset: 0,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(1, 4, 9, 0.7)',
+    zIndex: 10,
+  },
+  dialog: {
+    width: 'min(1100px, 92vw)',
+    height: '85vh',
+    display: 'flex',
+    flexDirection: 'column',
+    backgroundColor: '#161b22',
+    border: '1px solid #30363d',
+    borderRadius: '8px',
+    overflow: 'hidden',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '10px 16px',
+    borderBottom: '1px solid #30363d',
+  },
+  title: {
+    fontSize: '14px',
+    fontWeight: 600,
+    color: '#e6edf3',
+  },
+  actions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  arrow: {
+    color: '#8b949e',
+  },
+  select: {
+    padding: '2px 6px',
+    fontSize: '12px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    fontFamily: 'inherit',
+  },
+  toggle: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    fontSize: '12px',
+    color: '#8b949e',
+    cursor: 'pointer',
+  },
+  smallBtn: {
+    padding: '2px 8px',
+    fontSize: '11px',
+    color: '#e6edf3',
+    backgroundColor: '#21262d',
+    border: '1px solid #30363d',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  note: {
+    padding: '6px 16px',
+    fontSize: '12px',
+    color: '#8b949e',
+    borderBottom: '1px solid #30363d',
+  },
+  error: {
+    color: '#f85149',
+  },
+  body: {
+    flex: 1,
+    overflow: 'auto',
+    padding: '8px 0',
+    fontFamily: MONO,
+    fontSize: '12px',
+    lineHeight: '1.6',
+    backgroundColor: '#0d1117',
+  },
+  line: {
+    display: 'flex',
+    whiteSpace: 'pre',
+    color: '#e6edf3',
+  },
+  added: {
+    backgroundColor: 'rgba(46, 160, 67, 0.15)',
+  },
+  removed: {
+    backgroundColor: 'rgba(248, 81, 73, 0.15)',
+  },
+  lineNo: {
+    width: '44px',
+    flexShrink: 0,
+    paddingRight: '8px',
+    textAlign: 'right',
+    color: '#484f58',
+    userSelect: 'none',
+  },
+  sign: {
+    width: '20px',
+    flexShrink: 0,
+    textAlign: 'center',
+    color: '#8b949e',
+    userSelect: 'none',
+  },
+  skipped: {
+    padding: '2px 0 2px 116px',
+    color: '#8b949e',
+    backgroundColor: '#161b22',
+  },
+};
+
+export default VersionDiff;
@@ -0,0 +1,166 @@
+import { blockEnd, indentOf, outlineDeclarations, outlineMembers } from './outline';
+import type { Target } from './targets';
+
+// Aligns a 0x source file with the code generated from it, construct by
+// construct: each top-level declaration, each member (`state`, `fn`,
+// `layout`, ...) and each element inside a `layout` is located in the output
+// by the names, literals and framework idioms it compiles to. Positions
+// between anchors are interpolated, which is enough to keep several outputs
+// scrolled to the same construct.
+
+export interface Anchor {
+  // 0-based lines; `sourceEnd` is the last line of the construct's block.
+  sourceLine: number;
+  sourceEnd: number;
+  outputLine: number;
+  // 0 for top-level declarations, 1 for members, 2+ for layout elements by
+  // nesting depth.
+  level: number;
+  // Human-readable construct, e.g. `fn increment` or `page Counter`.
+  label: string;
+}
+
+interface Construct {
+  line: number;
+  end: number;
+  level: number;
+  label: string;
+  pattern: RegExp;
+}
+
+const LIFECYCLE: Record<Target, RegExp> = {
+  react: /\buseEffect\b/,
+  vue: /\b(onMounted|watch|watchEffect)\b/,
+  svelte: /\b(onMount|\$effect)\b/,
+};
+
+// Layout keywords that produce no searchable text of their own.
+const STRUCTURAL = new Set(['layout', 'else']);
+
+// Where the markup starts: the JSX `return`, the `<template>` block, or the
+// first tag after a Svelte `<script>`.
+function markupPattern(target: Target): RegExp {
+  if (target === 'react') return /^\s*return\s*\(?\s*(<|$)/;
+  if (target === 'vue') return /^\s*<template\b/;
+  return /^\s*<(?!script\b|style\b|\/)/;
+}
+
+function escape(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function wordPattern(name: string): RegExp {
+  return new RegExp(`(^|[^\\w$])${escape(name)}(?![\\w$])`);
+}
+
+// What a layout element is recognisable by in the output: the static part of
+// its first string literal, else its first expression (`items`, `item.text`).
+function elementPattern(text: string): RegExp | null {
+  const m = /^\s*([a-z]\w*)\s*(.*)$/.exec(text);
+  if (!m || STRUCTURAL.has(m[1])) return null;
+  let rest = m[2];
+  if (m[1] === 'for') rest = rest.replace(/^.*?\bin\s+/, '');
+  const literal = /^"([^"]*)"/.exec(rest);
+  if (literal) {
+    const fixed = literal[1].split(/\{[^}]*\}/).map(s => s.trim()).sort((a, b) => b.length - a.length)[0];
+    if (fixed) return new RegExp(escape(fixed));
+    const expr = /\{\s*([\w$.]+)/.exec(literal[1]);
+    return expr ? wordPattern(expr[1]) : null;
+  }
+  const expr = /^[A-Za-z_$][\w$.]*/.exec(rest);
+  return expr ? wordPattern(expr[0]) : null;
+}
+
+function layoutConstructs(lines: string[], layoutLine: number, layoutEnd: number): Construct[] {
+  const base = indentOf(lines[layoutLine]);
+  const constructs: Construct[] = [];
+  let unit = 0;
+  for (let i = layoutLine + 1; i < layoutEnd; i++) {
+    const text = lines[i];
+    if (!text.trim()) continue;
+    const indent = indentOf(text) - base;
+    if (!unit) unit = indent;
+    const pattern = elementPattern(text);
+    if (!pattern) continue;
+    constructs.push({
+      line: i,
+      end: blockEnd(lines, i) - 1,
+      level: 1 + Math.max(1, Math.round(indent / unit)),
+      label: text.trim().replace(/:$/, ''),
+      pattern,
+    });
+  }
+  return constructs;
+}
+
+export function alignOutput(source: string, output: string, target: Target): Anchor[] {
+  const sourceLines = source.split('\n');
+  const lines = output.split('\n');
+  const constructs: Construct[] = [
+    ...outlineDeclarations(source)
+      .filter(d => d.topLevel)
+      .map(d => ({ line: d.line - 1, end: d.endLine - 1, level: 0, label: `${d.kind} ${d.name}`, pattern: wordPattern(d.name) })),
+    ...outlineMembers(source).flatMap(m => [
+      {
+        line: m.line - 1,
+        end: m.endLine - 1,
+        level: 1,
+        label: m.kind === 'layout' ? 'layout' : `${m.kind} ${m.name}`,
+        pattern: m.kind === 'layout' ? markupPattern(target)
+          : m.kind === 'on' || m.kind === 'watch' ? LIFECYCLE[target]
+          : wordPattern(m.name),
+      },
+      ...(m.kind === 'layout' ? layoutConstructs(sourceLines, m.line - 1, m.endLine) : []),
+    ]),
+  ].sort((a, b) => a.line - b.line);
+
+  // Outputs follow source order, so each construct is searched for after
+  // the previous one; anything not found is left to interpolation.
+  const anchors: Anchor[] = [];
+  let from = 0;
+  for (const c of constructs) {
+    let at = -1;
+    for (let i = from; i < lines.length && at === -1; i++) if (c.pattern.test(lines[i])) at = i;
+    // An SFC holds one component and never names it.
+    if (at === -1 && c.level === 0 && anchors.length === 0) at = 0;
+    if (at === -1) continue;
+    anchors.push({ sourceLine: c.line, sourceEnd: c.end, outputLine: at, level: c.level, label: c.label });
+    from = at + 1;
+  }
+  return anchors;
+}
+
+// Maps a fractional 0-based line between source and output coordinates by
+// linear interpolation between anchors. `sourceLines`/`outputLines` bound the
+// last segment.
+export function mapLine(
+  anchors: Anchor[],
+  line: number,
+  direction: 'toOutput' | 'toSource',
+  sourceLines: number,
+  outputLines: number,
+): number {
+  const points = [
+    { sourceLine: 0, outputLine: 0 },
+    ...anchors,
+    { sourceLine: sourceLines, outputLine: outputLines },
+  ];
+  const [fromKey, toKey] = direction === 'toOutput'
+    ? ['sourceLine', 'outputLine'] as const
+    : ['outputLine', 'sourceLine'] as const;
+  for (let i = points.length - 1; i >= 0; i--) {
+    const a = points[i];
+    if (a[fromKey] > line) continue;
+    const b = points[i + 1];
+    if (!b || b[fromKey] === a[fromKey]) return a[toKey];
+    return a[toKey] + (line - a[fromKey]) / (b[fromKey] - a[fromKey]) * (b[toKey] - a[toKey]);
+  }
+  return 0;
+}
+
+// The outermost construct a source position falls in, for display.
+export function anchorAt(anchors: Anchor[], sourceLine: number): Anchor | null {
+  let found: Anchor | null = null;
+  for (const a of anchors) if (a.level <= 1 && a.sourceLine <= sourceLine) found = a;
+  return found;
+}
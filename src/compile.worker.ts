@@ -0,0 +1,76 @@
+import { compilerArguments } from './compileOptions';
+import { compilerRelease, type CompileFn } from './compilerVersions';
+import { localizedProblem, serializeProblem, type CompileRequest, type CompileResponse, type FileResult } from './compilerProtocol';
+import { injectImports, linkFile } from './linker';
+import type { SourceFile } from './project';
+import { sideMetrics, tokenCounter, type TokenCounter } from './tokenMetrics';
+
+// Each release is imported the first time a request asks for it.
+const compilers = new Map<string, Promise<CompileFn>>();
+
+function loadCompiler(id: string): Promise<CompileFn> {
+  let compiler = compilers.get(id);
+  if (!compiler) {
+    compiler = compilerRelease(id).load();
+    compilers.set(id, compiler);
+    // A failed load is retried by the next request.
+    compiler.catch(() => compilers.delete(id));
+  }
+  return compiler;
+}
+
+function compileFile(
+  compile: CompileFn,
+  count: TokenCounter,
+  file: SourceFile,
+  { files, target, options }: CompileRequest,
+): FileResult {
+  const { imports, problems } = linkFile(file, files, target);
+  const sourceSize = sideMetrics(file.source, count);
+  try {
+    const result = compile(file.source, compilerArguments(options, target));
+    const warnings = (result as { warnings?: unknown }).warnings;
+    const code = injectImports(result.code, imports, target);
+    return {
+      name: file.name,
+      ok: true,
+      code,
+      lineCount: result.lineCount,
+      tokenCount: result.tokenCount,
+      warnings: [...problems, ...(Array.isArray(warnings) ? warnings.map(serializeProblem) : [])],
+      sourceSize,
+      outputSize: sideMetrics(code, count),
+    };
+  } catch (e) {
+    return { name: file.name, ok: false, error: serializeProblem(e), warnings: problems, sourceSize };
+  }
+}
+
+async function handle(request: CompileRequest): Promise<CompileResponse> {
+  // The BPE encoding loads alongside the compiler the first time.
+  const counting = tokenCounter(request.tokenMethod);
+  let compile: CompileFn;
+  try {
+    compile = await loadCompiler(request.compiler);
+  } catch (e) {
+    const { method, count } = await counting;
+    const release = compilerRelease(request.compiler);
+    const error = localizedProblem('error.compilerLoad', { version: release.version, message: serializeProblem(e).message });
+    const results: FileResult[] = request.files.map(f => ({
+      name: f.name,
+      ok: false,
+      error,
+      warnings: [],
+      sourceSize: sideMetrics(f.source, count),
+    }));
+    return { id: request.id, results, durationMs: 0, tokenMethod: method };
+  }
+  const { method, count } = await counting;
+  const started = performance.now();
+  const results = request.files.map(file => compileFile(compile, count, file, request));
+  return { id: request.id, results, durationMs: performance.now() - started, tokenMethod: method };
+}
+
+self.onmessage = async (event: MessageEvent<CompileRequest>) => {
+  self.postMessage(await handle(event.data));
+};
@@ -0,0 +1,56 @@
+import type { Target } from './targets';
+
+// Options forwarded to `compile()` alongside the target. `validate` is the
+// only other option 0x-lang's `compile()` reads, so it is the only one the
+// playground offers; an option added to the compiler gets a field and a spec
+// here rather than being passed through unchecked.
+export interface CompileOptions {
+  validate: boolean;
+}
+
+export type KnownOptionKey = keyof CompileOptions;
+
+// Labels and descriptions are in the i18n messages as
+// `compileOption.<key>` and `compileOption.<key>.description`.
+export interface CompileOptionSpec {
+  key: KnownOptionKey;
+}
+
+export const COMPILE_OPTION_SPECS: CompileOptionSpec[] = [
+  { key: 'validate' },
+];
+
+export const DEFAULT_COMPILE_OPTIONS: CompileOptions = {
+  validate: true,
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Reads options from untrusted input (share links, saved snippets), keeping
+// defaults for anything missing or of the wrong type. Unknown keys, such as
+// the free-form `extra` older links carried, are dropped.
+export function normalizeCompileOptions(value: unknown): CompileOptions {
+  const obj = isPlainObject(value) ? value : {};
+  return {
+    validate: typeof obj.validate === 'boolean' ? obj.validate : DEFAULT_COMPILE_OPTIONS.validate,
+  };
+}
+
+// Reads per-option overrides from legacy `?src=` links, e.g. `&validate=false`.
+export function compileOptionsFromParams(params: URLSearchParams): CompileOptions {
+  const raw: Record<string, unknown> = {};
+  const validate = params.get('validate');
+  if (validate === 'true' || validate === 'false') raw.validate = validate === 'true';
+  return normalizeCompileOptions(raw);
+}
+
+// Exactly what `compile()` receives.
+export function compilerArguments(options: CompileOptions, target: Target): Record<string, unknown> {
+  return { ...options, target };
+}
+
+export function isDefaultCompileOptions(options: CompileOptions): boolean {
+  return options.validate === DEFAULT_COMPILE_OPTIONS.validate;
+}
@@ -0,0 +1,83 @@
+import type { CompileOptions } from './compileOptions';
+import { translate, type Locale, type LocalizedMessage } from './i18n';
+import type { SourceFile } from './project';
+import type { Target } from './targets';
+import type { SideMetrics, TokenMethod } from './tokenMetrics';
+
+// Messages exchanged with the compile worker. Errors and warnings are
+// flattened to plain objects because structured cloning drops everything but
+// `message` from Error instances.
+
+export interface CompileRequest {
+  id: number;
+  files: SourceFile[];
+  target: Target;
+  options: CompileOptions;
+  // A CompilerRelease id.
+  compiler: string;
+  // How `sourceSize` and `outputSize` are counted.
+  tokenMethod: TokenMethod;
+}
+
+export interface SerializedProblem {
+  message: string;
+  line?: number;
+  column?: number;
+  severity?: string;
+  // Set on the playground's own problems (a timeout, a compiler that fails
+  // to load), whose `message` is the English text; see problemMessage.
+  localized?: LocalizedMessage;
+}
+
+// One result per source file, in request order. Warnings include link
+// problems (unresolved cross-file references) as well as compiler warnings.
+// Sizes are counted in the worker with the response's `tokenMethod`.
+export type FileResult =
+  | {
+    name: string;
+    ok: true;
+    code: string;
+    // As reported by the compiler; tokenMetrics measures both sides alike.
+    lineCount: number;
+    tokenCount: number;
+    warnings: SerializedProblem[];
+    sourceSize: SideMetrics;
+    outputSize: SideMetrics;
+  }
+  | {
+    name: string;
+    ok: false;
+    error: SerializedProblem;
+    warnings: SerializedProblem[];
+    sourceSize: SideMetrics;
+  };
+
+export interface CompileResponse {
+  id: number;
+  results: FileResult[];
+  durationMs: number;
+  // The method the sizes were counted with; lexical if BPE failed to load.
+  tokenMethod: TokenMethod;
+}
+
+export function serializeProblem(problem: unknown): SerializedProblem {
+  if (typeof problem !== 'object' || problem === null) return { message: String(problem) };
+  const obj = problem as Record<string, unknown>;
+  const loc = typeof obj.loc === 'object' && obj.loc !== null ? obj.loc as Record<string, unknown> : {};
+  const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : undefined);
+  return {
+    message: typeof obj.message === 'string' ? obj.message : String(problem),
+    line: num(obj.line) ?? num(loc.line),
+    column: num(obj.column) ?? num(obj.col) ?? num(loc.column),
+    severity: typeof obj.severity === 'string' ? obj.severity : undefined,
+  };
+}
+
+export function localizedProblem(code: LocalizedMessage['code'], params: LocalizedMessage['params'] = {}): SerializedProblem {
+  return { message: translate('en', code, params), localized: { code, params } };
+}
+
+// The text to show for a problem. Compiler messages are shown as they are.
+export function problemMessage(locale: Locale, problem: SerializedProblem): string {
+  return problem.localized ? translate(locale, problem.localized.code, problem.localized.params) : problem.message;
+}
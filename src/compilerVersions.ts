@@ -0,0 +1,50 @@
+// The `0x-lang` releases bundled with the playground. The newest is the
+// regular `0x-lang` dependency (which also supplies the tokenizer and parser
+// behind highlighting and Inspect); older ones are installed under npm
+// aliases, e.g. `"0x-lang-0.1.0": "npm:0x-lang@0.1.0"`, and only loaded when
+// picked.
+
+// Replaced at build time with the installed `0x-lang` version.
+declare const __ZERO_X_VERSION__: string;
+
+export type CompileFn = (source: string, options: Record<string, unknown>) => {
+  code: string;
+  lineCount: number;
+  tokenCount: number;
+  warnings?: unknown;
+};
+
+export interface CompilerRelease {
+  // Stable across upgrades of the main dependency; what links and state store.
+  id: string;
+  version: string;
+  load(): Promise<CompileFn>;
+}
+
+export const COMPILERS: CompilerRelease[] = [
+  {
+    id: 'latest',
+    version: __ZERO_X_VERSION__,
+    load: () => import('0x-lang/compiler').then(m => m.compile as CompileFn),
+  },
+  {
+    id: '0.1.0',
+    version: '0.1.0',
+    load: () => import('0x-lang-0.1.0/compiler').then(m => m.compile as CompileFn),
+  },
+];
+
+export const DEFAULT_COMPILER = COMPILERS[0].id;
+
+export function isCompilerId(value: unknown): value is string {
+  return typeof value === 'string' && COMPILERS.some(c => c.id === value);
+}
+
+export function compilerRelease(id: string): CompilerRelease {
+  return COMPILERS.find(c => c.id === id) ?? COMPILERS[0];
+}
+
+export function compilerLabel(id: string): string {
+  const release = compilerRelease(id);
+  return release.id === DEFAULT_COMPILER ? `v${release.version} (latest)` : `v${release.version}`;
+}
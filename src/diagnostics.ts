@@ -0,0 +1,125 @@
+import { problemMessage, type FileResult } from './compilerProtocol';
+import { translate, type Locale } from './i18n';
+
+export type Severity = 'error' | 'warning';
+
+export interface Diagnostic {
+  severity: Severity;
+  message: string;
+  // 1-based position. Messages the compiler does not locate have no line and
+  // only show up in the problems list.
+  line?: number;
+  column?: number;
+  endColumn?: number;
+  // Source file the diagnostic belongs to, in multi-file projects.
+  file?: string;
+  // Lint rule ID; compiler diagnostics have none.
+  rule?: string;
+}
+
+// Position formats seen in compiler messages: "Line 3, column 5",
+// "line 3:5", "[3:5]", "at 3:5" and a bare "line 3".
+const POSITION_PATTERNS = [
+  /\bline\s+(\d+)\s*,\s*col(?:umn)?\s+(\d+)/i,
+  /\bline\s+(\d+)\s*:\s*(\d+)/i,
+  /\[(\d+):(\d+)\]/,
+  /\bat\s+(\d+):(\d+)/i,
+  /\bline\s+(\d+)/i,
+];
+
+function parsePosition(message: string): { line?: number; column?: number; rest: string } {
+  for (const pattern of POSITION_PATTERNS) {
+    const match = pattern.exec(message);
+    if (!match) continue;
+    const rest = (message.slice(0, match.index) + message.slice(match.index + match[0].length))
+      .replace(/^[\s:\-–—,]+|[\s:\-–—,]+$/g, '')
+      .replace(/\(\s*\)|\[\s*\]/g, '')
+      .trim();
+    return {
+      line: Number(match[1]),
+      column: match[2] ? Number(match[2]) : undefined,
+      rest: rest || message,
+    };
+  }
+  return { rest: message };
+}
+
+function numberProp(obj: Record<string, unknown>, ...keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = obj[key];
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+  }
+  return undefined;
+}
+
+// Widens a point position to the word under it so the squiggle covers
+// something visible.
+function withRange(diagnostic: Diagnostic, lines: string[]): Diagnostic {
+  if (diagnostic.line === undefined) return diagnostic;
+  if (diagnostic.line < 1 || diagnostic.line > lines.length) {
+    return withRange({ ...diagnostic, line: Math.min(Math.max(diagnostic.line, 1), lines.length) }, lines);
+  }
+  const text = lines[diagnostic.line - 1];
+  if (diagnostic.column === undefined) {
+    const indent = text.length - text.trimStart().length;
+    return { ...diagnostic, column: indent + 1, endColumn: text.length + 1 };
+  }
+  if (diagnostic.endColumn !== undefined) return diagnostic;
+  const start = Math.min(diagnostic.column - 1, text.length);
+  const word = /^[\w$.]+|^"[^"]*"?|^\S/.exec(text.slice(start));
+  return { ...diagnostic, endColumn: start + 1 + (word ? word[0].length : 1) };
+}
+
+function fromEntry(entry: unknown, severity: Severity): Diagnostic[] {
+  if (typeof entry === 'string') {
+    return entry
+      .split('\n')
+      .map(l => l.replace(/^\s*[-*•]\s*/, '').trim())
+      .filter(Boolean)
+      .map(l => {
+        const { line, column, rest } = parsePosition(l);
+        return { severity, message: rest, line, column };
+      });
+  }
+  if (typeof entry === 'object' && entry !== null) {
+    const obj = entry as Record<string, unknown>;
+    const message = typeof obj.message === 'string' ? obj.message : String(entry);
+    const loc = typeof obj.loc === 'object' && obj.loc !== null ? obj.loc as Record<string, unknown> : obj;
+    const line = numberProp(obj, 'line') ?? numberProp(loc, 'line');
+    const column = numberProp(obj, 'column', 'col') ?? numberProp(loc, 'column', 'col');
+    const ownSeverity = obj.severity === 'warning' || obj.severity === 'error' ? obj.severity : severity;
+    if (line === undefined) return fromEntry(message, ownSeverity);
+    return [{ severity: ownSeverity, message: parsePosition(message).rest, line, column }];
+  }
+  return [{ severity, message: String(entry) }];
+}
+
+export function diagnosticsFromError(error: unknown, source: string, locale: Locale): Diagnostic[] {
+  const lines = source.split('\n');
+  const list = fromEntry(error, 'error');
+  return (list.length ? list : [{ severity: 'error' as const, message: translate(locale, 'error.unknownCompiler') }])
+    .map(d => withRange(d, lines));
+}
+
+// Validation warnings ride along on a successful compile result when the
+// compiler reports any.
+export function diagnosticsFromResult(result: object, source: string): Diagnostic[] {
+  const warnings = (result as { warnings?: unknown }).warnings;
+  if (!Array.isArray(warnings)) return [];
+  const lines = source.split('\n');
+  return warnings.flatMap(w => fromEntry(w, 'warning')).map(d => withRange(d, lines));
+}
+
+export function sortDiagnostics(list: Diagnostic[]): Diagnostic[] {
+  return [...list].sort((a, b) =>
+    (a.line ?? Infinity) - (b.line ?? Infinity) ||
+    (a.column ?? 0) - (b.column ?? 0) ||
+    (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+}
+
+// Everything one file's compile produced, tagged with the file name.
+export function diagnosticsFromFileResult(result: FileResult, source: string, locale: Locale): Diagnostic[] {
+  const errors = result.ok ? [] : diagnosticsFromError({ ...result.error, message: problemMessage(locale, result.error) }, source, locale);
+  return sortDiagnostics([...errors, ...diagnosticsFromResult(result, source)])
+    .map(d => ({ ...d, file: result.name }));
+}
@@ -0,0 +1,125 @@
+import type { Diagnostic } from './diagnostics';
+import { normalizeFiles, singleFile, type SourceFile } from './project';
+import { isTarget, TARGETS, type Target } from './targets';
+
+// Embed mode (`?embed=1`) and the postMessage protocol a host page uses to
+// drive an embedded playground. Every message in either direction carries
+// `protocol` and `version`; bump EMBED_PROTOCOL_VERSION on incompatible
+// changes. Hosts should wait for `ready` before sending commands.
+//
+// URL parameters:
+//   embed=1                   turn embed mode on
+//   readonly=1                no editing, file management or formatting
+//   panels=source,preview     which panels to show, in any order of
+//                             source, problems, output, preview
+//   origin=https://docs.host  only accept commands from (and only post to)
+//                             this origin; any origin otherwise. An
+//                             unparseable origin disables the API.
+
+export const EMBED_PROTOCOL = '0x-playground';
+export const EMBED_PROTOCOL_VERSION = 1;
+
+export type EmbedPanel = 'source' | 'problems' | 'output' | 'preview';
+
+const PANELS: EmbedPanel[] = ['source', 'problems', 'output', 'preview'];
+const DEFAULT_PANELS: EmbedPanel[] = ['source', 'problems', 'preview'];
+
+export interface EmbedConfig {
+  readOnly: boolean;
+  panels: EmbedPanel[];
+  // '*' when the embed accepts any host; null when the API is off.
+  hostOrigin: string | null;
+}
+
+export function parseEmbedConfig(search: string): EmbedConfig | null {
+  const params = new URLSearchParams(search);
+  if (params.get('embed') !== '1' && params.get('embed') !== 'true') return null;
+  const requested = params.get('panels')?.split(',').map(p => p.trim()) ?? [];
+  const panels = PANELS.filter(p => requested.includes(p));
+  const origin = params.get('origin');
+  let hostOrigin: string | null = '*';
+  if (origin) {
+    try {
+      hostOrigin = new URL(origin).origin;
+    } catch {
+      hostOrigin = null;
+    }
+  }
+  return {
+    readOnly: params.get('readonly') === '1' || params.get('readonly') === 'true',
+    panels: panels.length ? panels : DEFAULT_PANELS,
+    hostOrigin,
+  };
+}
+
+// Host → playground. `id` is echoed as `replyTo` on the answer, if any.
+export type EmbedCommand =
+  | { type: 'set-source'; source: string }
+  | { type: 'set-files'; files: SourceFile[]; activeFile?: string }
+  | { type: 'set-target'; target: Target }
+  | { type: 'get-state' };
+
+export interface EmbedFileOutput {
+  name: string;
+  outputName: string;
+  ok: boolean;
+  // The last successful output, null if the file has never compiled.
+  code: string | null;
+}
+
+// Playground → host.
+export type EmbedEvent =
+  | { type: 'ready'; targets: Target[]; readOnly: boolean }
+  // The source changed other than through a command, usually by typing.
+  | { type: 'change'; files: SourceFile[]; activeFile: string }
+  | { type: 'compiled'; target: Target; outputs: EmbedFileOutput[]; diagnostics: Diagnostic[] }
+  | { type: 'state'; files: SourceFile[]; activeFile: string; target: Target }
+  | { type: 'error'; message: string };
+
+export type EmbedEnvelope<T> = T & { protocol: typeof EMBED_PROTOCOL; version: number; id?: number; replyTo?: number };
+
+export function envelope(event: EmbedEvent, replyTo?: number): EmbedEnvelope<EmbedEvent> {
+  return { protocol: EMBED_PROTOCOL, version: EMBED_PROTOCOL_VERSION, ...event, ...(replyTo === undefined ? {} : { replyTo }) };
+}
+
+export type ParsedCommand =
+  | { ok: true; command: EmbedCommand; id?: number }
+  | { ok: false; error: string; id?: number }
+  // Not addressed to us; ignore silently.
+  | null;
+
+// Validates a message from the host. Unrelated messages (other libraries
+// share the channel) yield null; ours that are malformed yield an error to
+// report back.
+export function parseEmbedCommand(data: unknown): ParsedCommand {
+  if (typeof data !== 'object' || data === null) return null;
+  const msg = data as Record<string, unknown>;
+  if (msg.protocol !== EMBED_PROTOCOL) return null;
+  const id = typeof msg.id === 'number' ? msg.id : undefined;
+  if (msg.version !== EMBED_PROTOCOL_VERSION) {
+    return { ok: false, id, error: `Unsupported protocol version ${String(msg.version)}; this playground speaks version ${EMBED_PROTOCOL_VERSION}.` };
+  }
+  switch (msg.type) {
+    case 'set-source':
+      if (typeof msg.source !== 'string') return { ok: false, id, error: '`set-source` needs a string `source`.' };
+      return { ok: true, id, command: { type: 'set-source', source: msg.source } };
+    case 'set-files': {
+      const files = normalizeFiles(msg.files);
+      if (!files) return { ok: false, id, error: '`set-files` needs a non-empty `files` array of {name, source}.' };
+      const activeFile = typeof msg.activeFile === 'string' && files.some(f => f.name === msg.activeFile) ? msg.activeFile : undefined;
+      return { ok: true, id, command: { type: 'set-files', files, activeFile } };
+    }
+    case 'set-target':
+      if (!isTarget(msg.target)) return { ok: false, id, error: `\`target\` must be one of ${TARGETS.join(', ')}.` };
+      return { ok: true, id, command: { type: 'set-target', target: msg.target } };
+    case 'get-state':
+      return { ok: true, id, command: { type: 'get-state' } };
+    default:
+      return { ok: false, id, error: `Unknown command ${JSON.stringify(msg.type)}.` };
+  }
+}
+
+// `set-source` replaces the project with a single file.
+export function commandFiles(command: Extract<EmbedCommand, { type: 'set-source' | 'set-files' }>): SourceFile[] {
+  return command.type === 'set-source' ? singleFile(command.source) : command.files;
+}
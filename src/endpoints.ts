@@ -0,0 +1,74 @@
+import type { SourceFile } from './project';
+
+// HTTP endpoints a 0x project talks to, found by reading its declarations:
+//
+//   api getMetrics = GET "/api/metrics"
+//   data products = fetch("/api/products")
+//   crud Product                 (REST routes under /api/products)
+//
+// Routes implied by `crud` follow the compiler's convention of a lowercase
+// plural collection with `:id` item routes.
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface Endpoint {
+  method: HttpMethod;
+  // May contain `:param` segments.
+  path: string;
+  // The declared name (`getMetrics`, `products`), or the model for `crud`.
+  name: string;
+  kind: 'api' | 'fetch' | 'crud';
+  file: string;
+  line: number;
+}
+
+const API = /^\s*api\s+(\w+)\s*=\s*(GET|POST|PUT|PATCH|DELETE)\s+"([^"]+)"/;
+const FETCH = /(?:\bdata\s+(\w+)\s*=\s*)?\bfetch\(\s*"([^"]+)"/;
+const CRUD = /^\s*crud\s+([A-Z]\w*)/;
+
+function collectionPath(model: string): string {
+  const lower = model.toLowerCase();
+  return `/api/${lower.endsWith('s') ? lower : lower.endsWith('y') ? `${lower.slice(0, -1)}ies` : `${lower}s`}`;
+}
+
+export function endpointKey(endpoint: Pick<Endpoint, 'method' | 'path'>): string {
+  return `${endpoint.method} ${endpoint.path}`;
+}
+
+export function findEndpoints(files: SourceFile[]): Endpoint[] {
+  const found = new Map<string, Endpoint>();
+  const add = (endpoint: Endpoint) => {
+    if (!found.has(endpointKey(endpoint))) found.set(endpointKey(endpoint), endpoint);
+  };
+  for (const file of files) {
+    file.source.split('\n').forEach((text, i) => {
+      const at = { file: file.name, line: i + 1 };
+      const api = API.exec(text);
+      if (api) {
+        add({ method: api[2] as HttpMethod, path: api[3], name: api[1], kind: 'api', ...at });
+        return;
+      }
+      const fetch = FETCH.exec(text);
+      if (fetch) {
+        add({ method: 'GET', path: fetch[2], name: fetch[1] ?? fetch[2], kind: 'fetch', ...at });
+        return;
+      }
+      const crud = CRUD.exec(text);
+      if (crud) {
+        const base = collectionPath(crud[1]);
+        for (const [method, path] of [['GET', base], ['POST', base], ['PUT', `${base}/:id`], ['DELETE', `${base}/:id`]] as const) {
+          add({ method, path, name: crud[1], kind: 'crud', ...at });
+        }
+      }
+    });
+  }
+  return [...found.values()];
+}
+
+// Whether a concrete request path matches an endpoint path with `:param`
+// segments. Query strings are ignored.
+export function matchesPath(pattern: string, path: string): boolean {
+  const want = pattern.split('/');
+  const got = path.split('?')[0].split('/');
+  return want.length === got.length && want.every((seg, i) => seg.startsWith(':') || seg === got[i]);
+}
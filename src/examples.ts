@@ -1,4 +1,9 @@
-export const EXAMPLES: Record<string, string> = {
+import { LOCALE_NAMES, type Locale, type Localized } from './i18n';
+import type { SourceFile } from './project';
+
+// Example sources by id, written in Korean; the gallery metadata and English
+// strings for each are in EXAMPLES below.
+const SOURCES: Record<string, string> = {
   counter: `page Counter:
   state count: int = 0
   derived doubled = count * 2
@@ -191,7 +196,6 @@ component MetricCard:
             text "₩{product.price}" size=md color=#e74c3c
             button "장바구니 담기" style=primary -> addToCart(product)`,
 
-  // Phase 1 Advanced Examples
   model_crud: `model Product:
   name: str
   price: float
@@ -230,7 +234,6 @@ page ProductList:
       features:
         pagination: 20`,
 
-  // Phase 2 Advanced Examples
   auth_dashboard: `auth provider="supabase":
   login: email, password
   signup: email, password, name
@@ -296,7 +299,6 @@ page Dashboard:
     text "프로필" size=2xl bold
     toast "저장 완료!" type=success duration=3000`,
 
-  // Phase 3 Advanced Examples
   landing_page: `page Landing:
   seo:
     title: "0x - AI 퍼스트 언어"
@@ -387,18 +389,334 @@ page Admin:
     text "아래 양식을 작성해주세요" color=#666`,
 };
 
-export const EXAMPLE_NAMES: Record<string, string> = {
-  counter: '카운터',
-  todo: '할 일 목록',
-  chat: '채팅',
-  dashboard: '대시보드',
-  ecommerce: '쇼핑몰',
-  model_crud: 'Model+CRUD',
-  form_validation: 'Form 검증',
-  auth_dashboard: '인증+대시보드',
-  realtime_chat: '실시간 채팅',
-  upload_modal: '업로드+모달',
-  landing_page: '랜딩 페이지',
-  admin_crud: '관리자+CRUD',
-  interactive: '인터랙티브',
+// The basics, then the advanced examples grouped by the language phase that
+// introduced their constructs.
+export type ExampleCategory = 'basics' | 'phase1' | 'phase2' | 'phase3';
+
+export const EXAMPLE_CATEGORIES: Record<ExampleCategory, Localized> = {
+  basics: { ko: '기초', en: 'Basics' },
+  phase1: { ko: '1단계', en: 'Phase 1' },
+  phase2: { ko: '2단계', en: 'Phase 2' },
+  phase3: { ko: '3단계', en: 'Phase 3' },
 };
+
+export interface Example {
+  // Stable: share links, autosave and `?example=` refer to it.
+  id: string;
+  title: Localized;
+  description: Localized;
+  category: ExampleCategory;
+  // The constructs it demonstrates, by keyword.
+  tags: string[];
+  source: string;
+  // English for each Korean string literal in `source`, by its text.
+  strings: Record<string, string>;
+}
+
+export const EXAMPLES: Example[] = [
+  {
+    id: 'counter',
+    title: { ko: '카운터', en: 'Counter' },
+    description: {
+      ko: '상태, 파생 값, 함수로 만든 가장 작은 페이지.',
+      en: 'The smallest page: state, derived values and functions.',
+    },
+    category: 'basics',
+    tags: ['state', 'derived', 'fn'],
+    source: SOURCES.counter,
+    strings: {
+      '카운터': 'Counter',
+      '두 배: {doubled}': 'Doubled: {doubled}',
+      '리셋': 'Reset',
+    },
+  },
+  {
+    id: 'todo',
+    title: { ko: '할 일 목록', en: 'Todo list' },
+    description: {
+      ko: '타입이 있는 목록 상태, 제약 조건, 목록 렌더링.',
+      en: 'Typed list state, constraints and list rendering.',
+    },
+    category: 'basics',
+    tags: ['type', 'state', 'derived', 'check', 'fn', 'for', 'if'],
+    source: SOURCES.todo,
+    strings: {
+      '할일은 500개 이하': 'At most 500 todos',
+      '할 일 ({remaining}개 남음)': 'Todos ({remaining} left)',
+      '할 일을 입력하세요': 'What needs doing?',
+      '추가': 'Add',
+      '삭제': 'Delete',
+      '할 일이 없습니다': 'Nothing to do',
+    },
+  },
+  {
+    id: 'chat',
+    title: { ko: '채팅', en: 'Chat' },
+    description: {
+      ko: '입력, 키 이벤트, 조건부 스타일이 있는 메시지 화면.',
+      en: 'A message view with input, key handling and conditional styling.',
+    },
+    category: 'basics',
+    tags: ['type', 'state', 'fn', 'for', 'if'],
+    source: SOURCES.chat,
+    strings: {
+      '나': 'Me',
+      '채팅방': 'Chat room',
+      '메시지 입력...': 'Type a message...',
+      '전송': 'Send',
+    },
+  },
+  {
+    id: 'dashboard',
+    title: { ko: '대시보드', en: 'Dashboard' },
+    description: {
+      ko: 'API 호출, 마운트와 watch, 스타일이 있는 재사용 컴포넌트.',
+      en: 'API calls, mount and watch hooks, and a styled reusable component.',
+    },
+    category: 'basics',
+    tags: ['type', 'api', 'on', 'watch', 'component', 'style', 'for'],
+    source: SOURCES.dashboard,
+    strings: {
+      '대시보드': 'Dashboard',
+      '로딩 중...': 'Loading...',
+    },
+  },
+  {
+    id: 'ecommerce',
+    title: { ko: '쇼핑몰', en: 'Shop' },
+    description: {
+      ko: '상품 검색, 장바구니 합계, 표와 차트.',
+      en: 'Product search, cart totals, a table and a chart.',
+    },
+    category: 'basics',
+    tags: ['type', 'api', 'derived', 'check', 'fn', 'table', 'chart'],
+    source: SOURCES.ecommerce,
+    strings: {
+      '장바구니는 100개 이하': 'At most 100 cart items',
+      '총액은 음수 불가': 'The total cannot be negative',
+      '쇼핑몰': 'Shop',
+      '장바구니 ({cartCount})': 'Cart ({cartCount})',
+      '상품 검색...': 'Search products...',
+      '로딩 중...': 'Loading...',
+      '장바구니 담기': 'Add to cart',
+    },
+  },
+  {
+    id: 'model_crud',
+    title: { ko: 'Model+CRUD', en: 'Model + CRUD' },
+    description: {
+      ko: '검증과 권한이 있는 데이터 모델, 그리고 정렬·필터 가능한 표.',
+      en: 'A data model with validation and permissions, listed in a sortable, filterable table.',
+    },
+    category: 'phase1',
+    tags: ['model', 'validate', 'permission', 'data', 'table'],
+    source: SOURCES.model_crud,
+    strings: {
+      '이름은 2자 이상': 'Name needs at least 2 characters',
+      '가격은 양수': 'Price must be positive',
+      '로딩 중...': 'Loading...',
+      '상품을 불러올 수 없습니다': 'Could not load products',
+      '등록된 상품이 없습니다': 'No products yet',
+      '상품 관리': 'Products',
+      '상품명': 'Name',
+      '가격': 'Price',
+      '카테고리': 'Category',
+    },
+  },
+  {
+    id: 'form_validation',
+    title: { ko: 'Form 검증', en: 'Form validation' },
+    description: {
+      ko: '필드별 규칙과 메시지, 제출 결과 처리가 있는 문의 양식.',
+      en: 'A contact form with per-field rules and messages, and submit handling.',
+    },
+    category: 'phase1',
+    tags: ['form', 'field', 'submit', 'toast'],
+    source: SOURCES.form_validation,
+    strings: {
+      '이름': 'Name',
+      '이름을 입력하세요': 'Please enter your name',
+      '2자 이상 입력': 'At least 2 characters',
+      '이메일': 'Email',
+      '올바른 이메일 형식이 아닙니다': 'That is not a valid email address',
+      '전화번호': 'Phone',
+      '올바른 전화번호 형식': 'Enter a valid phone number',
+      '메시지': 'Message',
+      '500자 이하': 'At most 500 characters',
+      '보내기': 'Send',
+      '전송 완료!': 'Sent!',
+      '전송 실패': 'Sending failed',
+      '문의하기': 'Contact us',
+      '아래 양식을 작성해주세요': 'Please fill in the form below',
+    },
+  },
+  {
+    id: 'auth_dashboard',
+    title: { ko: '인증+대시보드', en: 'Auth + dashboard' },
+    description: {
+      ko: '로그인·가입, 라우트 가드, 내비게이션과 통계 차트.',
+      en: 'Login and signup, route guards, navigation and stat charts.',
+    },
+    category: 'phase2',
+    tags: ['auth', 'route', 'guard', 'nav', 'chart', 'stat'],
+    source: SOURCES.auth_dashboard,
+    strings: {
+      '대시보드': 'Dashboard',
+      '상품': 'Products',
+      '설정': 'Settings',
+      '월별 매출': 'Monthly revenue',
+      '총 매출': 'Total revenue',
+      '주문 수': 'Orders',
+    },
+  },
+  {
+    id: 'realtime_chat',
+    title: { ko: '실시간 채팅', en: 'Realtime chat' },
+    description: {
+      ko: 'WebSocket 구독으로 메시지를 주고받는 채팅방.',
+      en: 'A chat room that sends and receives messages over a WebSocket subscription.',
+    },
+    category: 'phase2',
+    tags: ['realtime', 'state', 'for'],
+    source: SOURCES.realtime_chat,
+    strings: {
+      '연결 끊김': 'Disconnected',
+      '실시간 채팅': 'Realtime chat',
+      '메시지 입력...': 'Type a message...',
+      '전송': 'Send',
+    },
+  },
+  {
+    id: 'upload_modal',
+    title: { ko: '업로드+모달', en: 'Upload + modal' },
+    description: {
+      ko: '이미지 업로드, 편집 모달, 토스트 알림.',
+      en: 'Image upload, an edit modal and a toast notification.',
+    },
+    category: 'phase2',
+    tags: ['upload', 'modal', 'toast'],
+    source: SOURCES.upload_modal,
+    strings: {
+      '프로필 편집': 'Edit profile',
+      '편집': 'Edit',
+      '프로필 정보를 수정하세요': 'Update your profile details',
+      '저장': 'Save',
+      '프로필': 'Profile',
+      '저장 완료!': 'Saved!',
+    },
+  },
+  {
+    id: 'landing_page',
+    title: { ko: '랜딩 페이지', en: 'Landing page' },
+    description: {
+      ko: 'SEO 메타데이터, 내비게이션, 히어로 섹션.',
+      en: 'SEO metadata, navigation and a hero section.',
+    },
+    category: 'phase3',
+    tags: ['seo', 'nav', 'hero'],
+    source: SOURCES.landing_page,
+    strings: {
+      '0x - AI 퍼스트 언어': '0x - the AI-first language',
+      'AI로 더 빠르게 웹앱 개발': 'Build web apps faster with AI',
+      '홈': 'Home',
+      '기능': 'Features',
+      '가격': 'Pricing',
+      'AI로 더 빠르게 개발하세요': 'Build faster with AI',
+      '시작하기': 'Get started',
+    },
+  },
+  {
+    id: 'admin_crud',
+    title: { ko: '관리자+CRUD', en: 'Admin + CRUD' },
+    description: {
+      ko: '역할별 권한, 자동 CRUD 화면, 통계와 브레드크럼.',
+      en: 'Role permissions, a generated CRUD screen, stats and breadcrumbs.',
+    },
+    category: 'phase3',
+    tags: ['roles', 'crud', 'stat', 'breadcrumb'],
+    source: SOURCES.admin_crud,
+    strings: {
+      '상품 관리': 'Products',
+      '매출': 'Revenue',
+      '주문': 'Orders',
+      '관리자 패널': 'Admin panel',
+    },
+  },
+  {
+    id: 'interactive',
+    title: { ko: '인터랙티브', en: 'Interactive' },
+    description: {
+      ko: '애니메이션, 반응형 표시, 드로어, 검색, 결제, 미디어, 확인 창.',
+      en: 'Animation, responsive visibility, a drawer, search, payment, media and a confirm dialog.',
+    },
+    category: 'phase3',
+    tags: ['animate', 'mobile', 'drawer', 'search', 'social', 'pay', 'media', 'confirm'],
+    source: SOURCES.interactive,
+    strings: {
+      '애니메이션 효과': 'Animated entrance',
+      '모바일 전용 컨텐츠': 'Mobile-only content',
+      '사이드바 메뉴': 'Sidebar menu',
+      '검색 결과': 'Search results',
+      '좋아요': 'Like',
+      '결제': 'Checkout',
+      '정말 삭제하시겠습니까?': 'Really delete this?',
+      '삭제': 'Delete',
+      '취소': 'Cancel',
+    },
+  },
+];
+
+export const DEFAULT_EXAMPLE = EXAMPLES[0];
+
+// The example's source with its display strings in `locale`. Only whole
+// string literals are replaced, so identifiers and code never change.
+export function exampleSource(example: Example, locale: Locale): string {
+  if (locale === 'ko') return example.source;
+  return example.source.replace(/"((?:[^"\\\n]|\\.)*)"/g, (literal, text: string) =>
+    Object.hasOwn(example.strings, text) ? JSON.stringify(example.strings[text]) : literal);
+}
+
+// Whether `files` is still exactly what opening `example` gave, in any UI
+// language.
+export function isUntouchedExample(example: Example, files: SourceFile[]): boolean {
+  return files.length === 1
+    && (Object.keys(LOCALE_NAMES) as Locale[]).some(locale => files[0].source === exampleSource(example, locale));
+}
+
+export function exampleById(id: string | null): Example | undefined {
+  return EXAMPLES.find(e => e.id === id);
+}
+
+// Every tag used by an example, most used first.
+export const EXAMPLE_TAGS: string[] = (() => {
+  const counts = new Map<string, number>();
+  for (const tag of EXAMPLES.flatMap(e => e.tags)) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+})();
+
+// Whether an example matches a search: every word of the query must appear in
+// its id, a title, a description or a tag.
+export function matchesExampleQuery(example: Example, query: string): boolean {
+  const haystack = [
+    example.id,
+    ...Object.values(example.title),
+    ...Object.values(example.description),
+    ...example.tags,
+  ].join(' ').toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+}
+
+// `?example=<id>` names the example a page was opened on.
+export function exampleIdFromSearch(search: string): string | null {
+  const id = new URLSearchParams(search).get('example');
+  return exampleById(id) ? id : null;
+}
+
+// The current URL with `?example=` set to `id`, or removed for null.
+export function urlWithExample(location: { pathname: string; search: string; hash: string }, id: string | null): string {
+  const params = new URLSearchParams(location.search);
+  if (id === null) params.delete('example');
+  else params.set('example', id);
+  const search = params.toString();
+  return `${location.pathname}${search ? `?${search}` : ''}${location.hash}`;
+}
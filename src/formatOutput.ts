@@ -0,0 +1,60 @@
+import type { Plugin } from 'prettier';
+import { useEffect, useState } from 'react';
+import type { Target } from './targets';
+
+// Prettier and its plugins are large, so they are only fetched the first time
+// someone turns on prettify.
+async function loadPrettier(target: Target) {
+  const [prettier, babel, estree, extra] = await Promise.all([
+    import('prettier/standalone'),
+    import('prettier/plugins/babel'),
+    import('prettier/plugins/estree'),
+    target === 'vue'
+      ? Promise.all([import('prettier/plugins/html'), import('prettier/plugins/postcss')])
+      : target === 'svelte'
+        ? Promise.all([import('prettier-plugin-svelte/browser'), import('prettier/plugins/postcss')])
+        : Promise.resolve([]),
+  ]);
+  return { prettier, plugins: [babel, estree, ...extra] as Plugin[] };
+}
+
+const PARSERS: Record<Target, string> = {
+  react: 'babel',
+  vue: 'vue',
+  svelte: 'svelte',
+};
+
+export async function formatOutput(code: string, target: Target): Promise<string> {
+  const { prettier, plugins } = await loadPrettier(target);
+  return prettier.format(code, { parser: PARSERS[target], plugins, printWidth: 100, singleQuote: true });
+}
+
+interface Formatted {
+  code: string;
+  pending: boolean;
+  error: string;
+}
+
+// Returns `code` prettified when `enabled`, falling back to the raw code if
+// the formatter rejects it.
+export function useFormattedOutput(code: string, target: Target, enabled: boolean): Formatted {
+  const [state, setState] = useState<Formatted>({ code, pending: false, error: '' });
+
+  useEffect(() => {
+    if (!enabled || !code) {
+      setState({ code, pending: false, error: '' });
+      return;
+    }
+    let cancelled = false;
+    setState(prev => ({ ...prev, pending: true }));
+    formatOutput(code, target).then(
+      formatted => !cancelled && setState({ code: formatted, pending: false, error: '' }),
+      (e: unknown) => !cancelled && setState({ code, pending: false, error: e instanceof Error ? e.message : String(e) }),
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [code, target, enabled]);
+
+  return state;
+}
@@ -0,0 +1,886 @@
+import { readStored, writeStored } from './storage';
+
+// Every string the playground's own UI shows, in English and Korean.
+// Messages may use `{name}` placeholders, and `{name|one|other}` to pick a
+// word by whether the number `name` is 1. Example sources are localized in
+// examples.ts; compiler and lint diagnostics are shown as produced.
+
+export type Locale = 'ko' | 'en';
+
+export type Localized = Record<Locale, string>;
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  ko: '한국어',
+};
+
+const en = {
+  'app.snippets': 'Snippets',
+  'app.examples': 'Examples',
+  'app.examplesTitle': 'Browse, search and open the bundled examples',
+  'app.replaceSession': 'Open the linked example "{title}"? It replaces the project you were last working on.',
+  'app.lessons': 'Lessons',
+  'app.lessonsTitle': 'Learn the language step by step with checked exercises',
+  'app.shortcuts': 'Shortcuts',
+  'app.shortcutsTitle': 'Show and change the keyboard shortcuts',
+  'app.inspect': 'Inspect',
+  'app.inspectTitle': 'Show the tokens and syntax tree of the current file',
+  'app.mocks': 'Mocks',
+  'app.mocksTitle': 'Answer the preview\'s API calls with editable fixtures',
+  'app.realtime': 'Realtime',
+  'app.realtimeTitle': 'Drive the page\'s realtime sockets with a local simulator',
+  'app.options': 'Options',
+  'app.optionsTitle': 'Options passed to the compiler; saved with snippets and share links',
+  'app.compare': 'Compare',
+  'app.compareTitle': 'Show the output of every target side by side',
+  'app.open': 'Open ↗',
+  'app.openTitle': 'Open this code in the full playground',
+  'app.dismiss': 'Dismiss',
+  'app.imported': 'Imported {count} {count|snippet|snippets}.',
+  'app.source': '0x Source',
+  'common.lineTokenCount': '{lines} {lines|line|lines} / {tokens} {tokens|token|tokens}',
+  'app.formatTitle': 'Reindent and respace this file; applied only if the compiled output stays the same',
+  'app.format': 'Format',
+  'app.formatting': 'Formatting…',
+  'app.output': 'Output ({target})',
+  'common.compiling': 'compiling…',
+  'app.compiledIn': 'compiled in {ms} ms',
+  'app.sourceTokens': '0x source: {tokens} tokens',
+  'app.savings': ' ({percent}% savings)',
+  'app.larger': ' ({percent}% larger)',
+  'app.countingTitle': 'Counting {method}; click to switch',
+  'app.methodBpe': 'LLM',
+  'app.methodLexical': 'Lexical',
+  'app.report': 'Report',
+  'app.reportTitle': 'Token counts for every example and target',
+  'app.prettify': 'Prettify',
+  'app.prettifyFailed': 'Prettify (failed)',
+  'app.prettifyTitle': 'Format output with Prettier',
+  'app.prettifyError': 'Formatter failed: {error}',
+  'common.copy': 'Copy',
+  'common.copied': 'Copied!',
+  'app.share': 'Share',
+  'app.download': 'Download',
+  'app.downloadTitle': 'Download a runnable Vite project',
+  'app.downloadBlocked': 'Fix compile errors to download the project',
+  'common.compileError': 'Compilation Error',
+  'common.lineNumber': 'Ln {line}: ',
+  'app.staleOutput': 'Showing last successful output',
+  'app.preview': 'Preview',
+  'app.compiler': '0x Compiler',
+  'app.compilerTitle': 'Compiling with 0x-lang {version}',
+  'app.diffVersions': 'Diff versions',
+  'app.diffVersionsTitle': 'Compare this project\'s output across compiler releases',
+  'app.tagline': 'AI-First Programming Language',
+  'app.codegen': 'React / Vue 3 / Svelte 5 code generation',
+  'app.language': 'Language',
+  'tokenMethod.bpe': 'LLM tokens (o200k)',
+  'tokenMethod.lexical': 'Lexical tokens',
+  'lint.undefined-identifier': 'Names used in expressions that nothing declares',
+  'lint.undefined-handler': 'Event handlers (`-> name()`) that nothing declares',
+  'lint.unused-state': '`state` that is never read',
+  'lint.unused-derived': '`derived` values that are never read',
+  'lint.type-mismatch': 'Literals that do not fit the declared type or `type` record',
+  'lint.unreachable-check': '`check` rules that can never fail or never re-run',
+  'lint.unknown-prop': 'Layout props no element understands',
+
+  'problems.title': 'Problems',
+  'problems.errors': '{count} {count|error|errors}',
+  'problems.warnings': '{count} {count|warning|warnings}',
+  'problems.rulesTitle': 'Choose which lint rules run',
+  'problems.rules': 'Rules',
+  'problems.line': 'Ln {line}',
+  'problems.lineColumn': 'Ln {line}, Col {column}',
+
+  'snippets.title': 'Snippets',
+  'snippets.new': '+ New',
+  'snippets.newTitle': 'Save the current buffer as a new snippet',
+  'snippets.empty': 'No saved snippets yet',
+  'snippets.itemTitle': '{name} — {target}, updated {updated}',
+  'snippets.rename': 'Rename',
+  'snippets.duplicate': 'Duplicate',
+  'snippets.delete': 'Delete',
+  'snippets.confirmDelete': 'Delete "{name}"?',
+  'snippets.import': 'Import…',
+  'snippets.export': 'Export',
+  'snippets.untitled': 'Untitled {n}',
+  'snippets.copyName': '{name} (copy)',
+
+  'files.staleTitle': '{name} — last compile failed; showing previous output',
+  'files.split': 'Move each top-level declaration to its own file',
+  'files.confirmDelete': 'Delete {name}?',
+  'files.delete': 'Delete file',
+  'files.add': 'Add a file',
+  'files.invalidName': 'File names must look like Name.0x',
+  'files.nameTaken': '{name} already exists',
+
+  'code.foldAll': 'Fold all',
+  'code.unfoldAll': 'Unfold all',
+  'compare.title': 'Compare targets',
+  'compare.alignedAt': 'Aligned at {construct}',
+  'compare.hint': 'Scroll any column to align the others',
+  'compare.failed': '{target} failed',
+
+  'common.reset': 'Reset',
+  'options.title': 'Compile options',
+  'options.changed': 'changed',
+  'options.receives': 'compile() receives',
+  'compileOption.validate': 'Validate',
+  'compileOption.validate.description': 'Run semantic checks (undefined names, type mismatches) and fail the compile on errors. Off compiles whatever parses.',
+
+  'inspect.line': 'Ln {line}',
+  'inspect.lines': 'Ln {start}–{end}',
+  'inspect.ast': 'AST',
+  'inspect.tokens': 'Tokens',
+  'inspect.copyJson': 'Copy JSON',
+  'inspect.copyJsonTitle': 'Copy as JSON for a bug report',
+  'inspect.kind': 'Kind',
+  'inspect.text': 'Text',
+  'inspect.position': 'Ln:Col',
+
+  'preview.frameTitle': '0x preview',
+  'preview.runtimeError': 'Runtime Error',
+  'preview.reload': 'Reload',
+
+  'common.clear': 'Clear',
+  'mocks.title': 'Mocks',
+  'mocks.routes': '{count} {count|route|routes}',
+  'mocks.invalid': 'invalid',
+  'mocks.status': 'Status',
+  'mocks.delay': 'Delay (ms)',
+  'mocks.neverRespond': 'Never respond',
+  'mocks.preset': 'Preset…',
+  'mocks.preset.fixture': 'Sample data',
+  'mocks.preset.empty': 'Empty',
+  'mocks.preset.error': 'Server error',
+  'mocks.preset.slow': 'Slow (2 s)',
+  'mocks.preset.hang': 'Never responds',
+  'mocks.bodyError': '{error} — requests go to the network until this is fixed.',
+  'mocks.empty': 'No endpoints found. These declarations show up here:',
+  'mocks.requests': 'Requests',
+  'mocks.noRequests': 'The preview has made no requests yet.',
+  'mocks.pending': 'pending',
+  'mocks.failed': 'failed',
+  'mocks.mock': 'mock',
+  'mocks.network': 'network',
+
+  'realtime.title': 'Realtime',
+  'realtime.simulated': '{count} simulated',
+  'realtime.empty': 'No sockets found. This block is answered here instead of by the real server:',
+  'realtime.handles': 'Handles {handlers}',
+  'realtime.noHandlers': 'No handlers',
+  'realtime.push': 'Push message',
+  'realtime.error': 'Error',
+  'realtime.disconnect': 'Disconnect',
+  'realtime.frames': 'Frames',
+  'realtime.noFrames': 'Nothing has happened on a socket yet.',
+  'realtime.state.idle': 'idle',
+  'realtime.state.connecting': 'connecting',
+  'realtime.state.open': 'open',
+  'realtime.state.closed': 'closed',
+  'realtime.kind.connecting': 'connecting',
+  'realtime.kind.open': 'open',
+  'realtime.kind.sent': '↑ sent',
+  'realtime.kind.received': '↓ received',
+  'realtime.kind.error': 'error',
+  'realtime.kind.close': 'closed',
+
+  'common.close': 'Close',
+  'report.title': 'Token report',
+  'report.current': 'Current project',
+  'report.larger': '{percent}% larger',
+  'report.exportCsv': 'Export CSV',
+  'report.progress': 'Compiling {current} of {total}…',
+  'report.countedAs': 'Source and output both counted as {method}',
+  'report.tokenizerLoading': ' (LLM tokenizer still loading)',
+  'report.column.subject': 'Subject',
+  'report.column.target': 'Target',
+  'report.column.sourceLines': '0x lines',
+  'report.column.sourceTokens': '0x tokens',
+  'report.column.outputLines': 'Output lines',
+  'report.column.outputTokens': 'Output tokens',
+  'report.column.savings': 'Savings',
+  'report.column.tokenizer': '0x tokenizer',
+  'report.column.compiler': 'Compiler count',
+  'report.allSubjects': 'All subjects',
+
+  'versions.title': 'Compiler version diff',
+  'versions.heading': 'Compiler diff · {target}',
+  'versions.compiling': 'Compiling…',
+  'versions.identical': 'Identical output.',
+  'versions.stats': '{removed} {removed|line|lines} removed, {added} added',
+  'versions.changesOnly': 'Changes only',
+  'versions.notCompiled': 'Not compiled',
+  'versions.skipped': '{count} unchanged {count|line|lines}',
+
+  'gallery.title': 'Examples',
+  'gallery.search': 'Search examples…',
+  'gallery.all': 'All',
+  'gallery.empty': 'No example matches these filters.',
+
+  'lessons.progress': '{done} of {total} done',
+  'lessons.target': 'Checked against the {target} output.',
+  'lessons.start': 'Start lesson',
+  'lessons.resume': 'Resume lesson',
+  'lessons.check': 'Check',
+  'lessons.checking': 'Checking…',
+  'lessons.reset': 'Reset code',
+  'lessons.showSolution': 'Show solution',
+  'lessons.hideSolution': 'Hide solution',
+  'lessons.useSolution': 'Use this code',
+  'lessons.next': 'Next lesson',
+  'lessons.passed': 'All checks pass. Lesson complete!',
+  'lessons.failed': '{count} {count|check is|checks are} still failing.',
+  'lessons.compileError': 'Does not compile: {message}',
+  'lessons.checkFailed': 'Could not run the checks: {message}',
+
+  'command.palette': 'Open command palette',
+  'command.shortcuts': 'Show keyboard shortcuts',
+  'command.examples': 'Browse examples',
+  'command.target.react': 'Switch target to React',
+  'command.target.vue': 'Switch target to Vue',
+  'command.target.svelte': 'Switch target to Svelte',
+  'command.format': 'Format file',
+  'command.copyOutput': 'Copy output',
+  'command.share': 'Copy share link',
+  'command.saveSnippet': 'Save as new snippet',
+  'command.addFile': 'Add file',
+  'command.download': 'Download project',
+  'command.toggle.snippets': 'Toggle snippets',
+  'command.toggle.lessons': 'Toggle lessons',
+  'command.toggle.inspect': 'Toggle inspect panel',
+  'command.toggle.mocks': 'Toggle mocks panel',
+  'command.toggle.realtime': 'Toggle realtime panel',
+  'command.toggle.options': 'Toggle compile options',
+  'command.toggle.compare': 'Toggle compare view',
+  'command.toggle.prettify': 'Toggle prettified output',
+  'command.report': 'Open token report',
+  'command.versions': 'Compare compiler versions',
+  'command.openExample': 'Open example: {title}',
+  'command.group.general': 'General',
+  'command.group.target': 'Target',
+  'command.group.project': 'Project',
+  'command.group.panels': 'Panels',
+  'command.group.examples': 'Examples',
+  'palette.placeholder': 'Type a command…',
+  'palette.empty': 'No matching command.',
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.note': 'Click a shortcut and press a new key combination. Escape cancels, Backspace removes it. Tab, Enter, Space and the arrow keys need a modifier. A combination already in use moves to the new command.',
+  'shortcuts.none': '—',
+  'shortcuts.recording': 'Press keys…',
+  'shortcuts.reset': 'Default',
+  'shortcuts.resetAll': 'Reset all',
+  'error.shareCorrupt': 'This share link is corrupt and could not be decoded.',
+  'error.shareNoSource': 'This share link is corrupt: it contains no source.',
+  'error.shareNewerVersion': 'This link was created by a newer playground (format v{version}; this one reads up to v{supported}). Reload to get the latest version.',
+  'error.noIndexedDb': 'This browser does not support IndexedDB; snippets cannot be saved.',
+  'error.openWorkspace': 'Could not open the local workspace: {message}',
+  'error.importNotJson': 'The selected file is not valid JSON.',
+  'error.importNotWorkspace': 'The selected file is not a 0x playground workspace export.',
+  'error.importNewerVersion': 'The workspace file is from a newer playground (v{version}).',
+  'error.importMalformed': 'The workspace file contains malformed snippets.',
+  'error.formatSyntax': 'Fix syntax errors before formatting: {message}',
+  'error.formatUnparsable': 'Formatting produced source that does not parse: {message}',
+  'error.formatNoFile': 'No file named {name}',
+  'error.formatCompile': 'Fix compile errors before formatting.',
+  'error.formatChangesOutput': 'Formatting would change the compiled output, so the source was left as is.',
+  'error.compileTimedOut': 'Compilation timed out after {seconds} s',
+  'error.compileCancelled': 'Compilation timed out after {seconds} s and was cancelled',
+  'error.compilerLoad': 'Could not load 0x-lang v{version}: {message}',
+  'error.unknownCompiler': 'Unknown compiler error',
+  'prop.gap': 'Space between children, in px.',
+  'prop.padding': 'Inner spacing, in px.',
+  'prop.margin': 'Outer spacing, in px or `auto`.',
+  'prop.width': 'Width, in px or a CSS length.',
+  'prop.height': 'Height, in px or a CSS length.',
+  'prop.maxWidth': 'Maximum width.',
+  'prop.minWidth': 'Minimum width.',
+  'prop.maxHeight': 'Maximum height.',
+  'prop.minHeight': 'Minimum height.',
+  'prop.grow': 'Flex grow factor.',
+  'prop.shrink': 'Flex shrink factor.',
+  'prop.scroll': 'Scroll overflow along an axis.',
+  'prop.wrap': 'Wrap children onto new lines.',
+  'prop.align': 'Cross-axis alignment.',
+  'prop.justify': 'Main-axis alignment.',
+  'prop.cols': 'Number of grid columns.',
+  'prop.rows': 'Number of grid rows, or text area lines.',
+  'prop.span': 'Grid columns this child spans.',
+  'prop.bg': 'Background colour.',
+  'prop.radius': 'Corner radius, in px.',
+  'prop.shadow': 'Drop shadow.',
+  'prop.border': 'Border width or shorthand.',
+  'prop.opacity': 'Opacity from 0 to 1.',
+  'prop.overflow': 'Overflow handling.',
+  'prop.position': 'CSS positioning.',
+  'prop.top': 'Offset from the top.',
+  'prop.left': 'Offset from the left.',
+  'prop.right': 'Offset from the right.',
+  'prop.bottom': 'Offset from the bottom.',
+  'prop.z': 'Stacking order.',
+  'prop.size': 'Text or control size.',
+  'prop.color': 'Text colour: a name, `#hex`, or `{expression}`.',
+  'prop.weight': 'Font weight.',
+  'prop.font': 'Font family.',
+  'prop.bold': 'Bold text. Usually written as a bare flag.',
+  'prop.italic': 'Italic text.',
+  'prop.underline': 'Underlined text.',
+  'prop.strike': 'Struck-through text, often `strike={item.done}`.',
+  'prop.center': 'Centre the content.',
+  'prop.end': 'Align the content to the end.',
+  'prop.lineHeight': 'Line height.',
+  'prop.style': 'Visual variant of a control.',
+  'prop.variant': 'Alternative visual variant.',
+  'prop.placeholder': 'Hint text shown while an input is empty.',
+  'prop.options': 'Choices for a `select`, as a list.',
+  'prop.href': 'Link target URL or route.',
+  'prop.target': 'Where a link opens.',
+  'prop.src': 'Image or media source.',
+  'prop.alt': 'Alternative text for an image.',
+  'prop.label': 'Visible label.',
+  'prop.value': 'Value shown by a `stat` or bound by a control.',
+  'prop.change': 'Change indicator next to a `stat` value, e.g. `"+12%"`.',
+  'prop.title': 'Title of a modal, chart or card.',
+  'prop.trigger': 'Label of the button that opens a modal.',
+  'prop.type': 'Kind of toast or input.',
+  'prop.duration': 'How long a toast stays, in ms.',
+  'prop.confirm': 'Label of the confirm button.',
+  'prop.cancel': 'Label of the cancel button.',
+  'prop.min': 'Minimum value.',
+  'prop.max': 'Maximum value.',
+  'prop.step': 'Step between values.',
+  'prop.disabled': 'Disable the control.',
+  'prop.checked': 'Whether a toggle is on.',
+  'prop.required': 'The field must be filled in.',
+  'prop.name': 'Form field name.',
+  'prop.id': 'Element id.',
+  'prop.key': 'Identity of an item in a `for` loop.',
+  'prop.accept': 'File types an upload accepts.',
+  'prop.multiple': 'Allow several files or choices.',
+  'prop.icon': 'Icon name.',
+  'prop.items': 'Items to list.',
+  'prop.data': 'Data to show.',
+  'prop.show': 'Render only while the expression is true.',
+  'prop.hidden': 'Hide while the expression is true.',
+  'prop.delay': 'Animation delay, in ms.',
+  'prop.transition': 'Animation style.',
+  'prop.animate': 'Animate on enter.',
+  'prop.cursor': 'Mouse cursor.',
+  'construct.page': 'A routable screen. Holds state, functions and one `layout`.',
+  'construct.component': 'A reusable piece of UI with `prop`s. Inside a layout, `component Name(args)` renders one.',
+  'construct.model': 'A data model with typed fields, `validate`, `permission` and query settings.',
+  'construct.type': 'A record type for state, props and API results.',
+  'construct.route': 'Maps a URL to a page, optionally with a `guard`.',
+  'construct.auth': 'Authentication setup: login, signup, logout and guards.',
+  'construct.roles': 'Role names and what each `can` do.',
+  'construct.state': 'Reactive value owned by the page or component. Assigning to it re-renders.',
+  'construct.derived': 'Value computed from state; recomputed when its inputs change.',
+  'construct.prop': 'Input passed by the parent to a component.',
+  'construct.fn': 'A function; use it as an event handler with `-> name()`.',
+  'construct.api': 'Declares an HTTP endpoint callable as `await name(args)`.',
+  'construct.data': 'Loads data on mount with `loading`, `error` and `empty` states.',
+  'construct.on': 'Runs on a lifecycle event (`mount`, `unmount`) or a realtime event.',
+  'construct.watch': 'Runs whenever the named state changes.',
+  'construct.check': 'An invariant on state, reported when the condition fails.',
+  'construct.style': 'A named style; apply it with `.name` on a layout.',
+  'construct.realtime': 'A WebSocket subscription with `on message` / `on error` handlers.',
+  'construct.crud': 'Generates list, create, edit and delete screens and routes for a model.',
+  'construct.form': 'A validated form built from `field`s and a `submit`.',
+  'construct.field': 'A form field with `label`, `required`, `min`, `max`, `format` or `pattern` rules.',
+  'construct.submit': 'Submits the enclosing form, with `success` and `error` outcomes.',
+  'construct.upload': 'A file upload with `accept`, `maxSize` and `preview` settings.',
+  'construct.modal': 'A dialog opened by a trigger button.',
+  'construct.drawer': 'A panel that slides in from the side.',
+  'construct.seo': 'Page title and meta description.',
+  'construct.layout': 'Arranges children in a column, row or grid.',
+  'construct.text': 'Text; `{...}` inside the string interpolates expressions.',
+  'construct.button': 'A button; `->` names what runs on click.',
+  'construct.input': 'A text input bound two-way to a state.',
+  'construct.select': 'A dropdown bound to a state.',
+  'construct.toggle': 'A switch bound to a boolean.',
+  'construct.image': 'An image.',
+  'construct.link': 'A navigation link.',
+  'construct.table': 'A data table with `columns`, `actions` and `features` blocks.',
+  'construct.chart': 'A chart with `data`, `x`, `y` and `title` settings.',
+  'construct.stat': 'A single metric with an optional change indicator.',
+  'construct.stats': 'A row of `stat`s in the given number of columns.',
+  'construct.nav': 'A navigation bar of `link`s.',
+  'construct.hero': 'A large introductory banner.',
+  'construct.toast': 'A transient notification.',
+  'construct.confirm': 'A confirmation prompt.',
+  'construct.breadcrumb': 'Breadcrumbs built from the route.',
+  'construct.media': 'An image gallery or video.',
+  'construct.animate': 'Animates its children.',
+  'construct.mobile': 'Children shown (or hidden) on small screens only.',
+  'construct.search': 'A search box over a collection.',
+  'construct.social': 'Like, share or comment controls.',
+  'construct.pay': 'A payment flow.',
+  'construct.if': 'Renders or runs its block only when the condition holds.',
+  'construct.else': 'The alternative to the preceding `if`.',
+  'construct.for': 'Repeats its block for each item.',
+  'construct.return': 'Returns from a function.',
+  'hover.unknownProp': 'Not a known prop.',
+  'hover.loopVariable': 'Loop variable.',
+  'hover.parameter': 'Function parameter.',
+};
+
+export type MessageKey = keyof typeof en;
+
+const ko: Record<MessageKey, string> = {
+  'app.snippets': '스니펫',
+  'app.examples': '예제',
+  'app.examplesTitle': '내장 예제를 찾아보고 열기',
+  'app.replaceSession': '링크된 예제 "{title}"을(를) 열까요? 마지막으로 작업하던 프로젝트가 대체됩니다.',
+  'app.lessons': '레슨',
+  'app.lessonsTitle': '확인 문제와 함께 언어를 단계별로 배우기',
+  'app.shortcuts': '단축키',
+  'app.shortcutsTitle': '키보드 단축키 보기 및 변경',
+  'app.inspect': '검사',
+  'app.inspectTitle': '현재 파일의 토큰과 구문 트리 보기',
+  'app.mocks': '목 응답',
+  'app.mocksTitle': '미리보기의 API 호출에 편집 가능한 응답으로 답하기',
+  'app.realtime': '실시간',
+  'app.realtimeTitle': '페이지의 실시간 소켓을 로컬 시뮬레이터로 구동하기',
+  'app.options': '옵션',
+  'app.optionsTitle': '컴파일러에 전달되는 옵션 (스니펫과 공유 링크에 함께 저장됨)',
+  'app.compare': '비교',
+  'app.compareTitle': '모든 타깃의 출력을 나란히 보기',
+  'app.open': '열기 ↗',
+  'app.openTitle': '이 코드를 전체 플레이그라운드에서 열기',
+  'app.dismiss': '닫기',
+  'app.imported': '스니펫 {count}개를 가져왔습니다.',
+  'app.source': '0x 소스',
+  'common.lineTokenCount': '{lines}줄 / 토큰 {tokens}개',
+  'app.formatTitle': '이 파일의 들여쓰기와 공백 정리 (컴파일 결과가 같을 때만 적용)',
+  'app.format': '정리',
+  'app.formatting': '정리 중…',
+  'app.output': '출력 ({target})',
+  'common.compiling': '컴파일 중…',
+  'app.compiledIn': '{ms} ms에 컴파일됨',
+  'app.sourceTokens': '0x 소스: 토큰 {tokens}개',
+  'app.savings': ' ({percent}% 절감)',
+  'app.larger': ' ({percent}% 증가)',
+  'app.countingTitle': '{method} 기준으로 세는 중 (클릭해서 전환)',
+  'app.methodBpe': 'LLM',
+  'app.methodLexical': '어휘',
+  'app.report': '리포트',
+  'app.reportTitle': '모든 예제와 타깃의 토큰 수',
+  'app.prettify': 'Prettier',
+  'app.prettifyFailed': 'Prettier (실패)',
+  'app.prettifyTitle': 'Prettier로 출력 정리',
+  'app.prettifyError': '포매터 실패: {error}',
+  'common.copy': '복사',
+  'common.copied': '복사됨!',
+  'app.share': '공유',
+  'app.download': '다운로드',
+  'app.downloadTitle': '실행 가능한 Vite 프로젝트 다운로드',
+  'app.downloadBlocked': '프로젝트를 다운로드하려면 컴파일 오류를 고치세요',
+  'common.compileError': '컴파일 오류',
+  'common.lineNumber': '{line}행: ',
+  'app.staleOutput': '마지막으로 성공한 출력 표시 중',
+  'app.preview': '미리보기',
+  'app.compiler': '0x 컴파일러',
+  'app.compilerTitle': '0x-lang {version}로 컴파일 중',
+  'app.diffVersions': '버전 비교',
+  'app.diffVersionsTitle': '컴파일러 릴리스별로 이 프로젝트의 출력 비교',
+  'app.tagline': 'AI 퍼스트 프로그래밍 언어',
+  'app.codegen': 'React / Vue 3 / Svelte 5 코드 생성',
+  'app.language': '언어',
+  'tokenMethod.bpe': 'LLM 토큰 (o200k)',
+  'tokenMethod.lexical': '어휘 토큰',
+  'lint.undefined-identifier': '식에서 쓰였지만 선언되지 않은 이름',
+  'lint.undefined-handler': '선언되지 않은 이벤트 핸들러 (`-> name()`)',
+  'lint.unused-state': '한 번도 읽지 않는 `state`',
+  'lint.unused-derived': '한 번도 읽지 않는 `derived` 값',
+  'lint.type-mismatch': '선언된 타입이나 `type` 레코드에 맞지 않는 리터럴',
+  'lint.unreachable-check': '절대 실패하지 않거나 다시 실행되지 않는 `check` 규칙',
+  'lint.unknown-prop': '어떤 요소도 알지 못하는 레이아웃 속성',
+
+  'problems.title': '문제',
+  'problems.errors': '오류 {count}개',
+  'problems.warnings': '경고 {count}개',
+  'problems.rulesTitle': '실행할 린트 규칙 선택',
+  'problems.rules': '규칙',
+  'problems.line': '{line}행',
+  'problems.lineColumn': '{line}행, {column}열',
+
+  'snippets.title': '스니펫',
+  'snippets.new': '+ 새로 만들기',
+  'snippets.newTitle': '현재 내용을 새 스니펫으로 저장',
+  'snippets.empty': '저장된 스니펫이 없습니다',
+  'snippets.itemTitle': '{name} — {target}, {updated} 수정',
+  'snippets.rename': '이름 바꾸기',
+  'snippets.duplicate': '복제',
+  'snippets.delete': '삭제',
+  'snippets.confirmDelete': '"{name}"을(를) 삭제할까요?',
+  'snippets.import': '가져오기…',
+  'snippets.export': '내보내기',
+  'snippets.untitled': '제목 없음 {n}',
+  'snippets.copyName': '{name} (사본)',
+
+  'files.staleTitle': '{name} — 마지막 컴파일 실패, 이전 출력 표시 중',
+  'files.split': '최상위 선언을 각각 별도 파일로 옮기기',
+  'files.confirmDelete': '{name}을(를) 삭제할까요?',
+  'files.delete': '파일 삭제',
+  'files.add': '파일 추가',
+  'files.invalidName': '파일 이름은 Name.0x 형식이어야 합니다',
+  'files.nameTaken': '{name} 파일이 이미 있습니다',
+
+  'code.foldAll': '모두 접기',
+  'code.unfoldAll': '모두 펼치기',
+  'compare.title': '타깃 비교',
+  'compare.alignedAt': '{construct} 기준으로 정렬됨',
+  'compare.hint': '아무 열이나 스크롤하면 나머지가 맞춰집니다',
+  'compare.failed': '{target} 실패',
+
+  'common.reset': '초기화',
+  'options.title': '컴파일 옵션',
+  'options.changed': '변경됨',
+  'options.receives': 'compile()이 받는 값',
+  'compileOption.validate': '검증',
+  'compileOption.validate.description': '의미 검사(정의되지 않은 이름, 타입 불일치)를 실행하고 오류가 있으면 컴파일을 실패시킵니다. 끄면 파싱되는 것은 모두 컴파일합니다.',
+
+  'inspect.line': '{line}행',
+  'inspect.lines': '{start}–{end}행',
+  'inspect.ast': 'AST',
+  'inspect.tokens': '토큰',
+  'inspect.copyJson': 'JSON 복사',
+  'inspect.copyJsonTitle': '버그 리포트용 JSON으로 복사',
+  'inspect.kind': '종류',
+  'inspect.text': '텍스트',
+  'inspect.position': '행:열',
+
+  'preview.frameTitle': '0x 미리보기',
+  'preview.runtimeError': '런타임 오류',
+  'preview.reload': '다시 불러오기',
+
+  'common.clear': '지우기',
+  'mocks.title': '목 응답',
+  'mocks.routes': '경로 {count}개',
+  'mocks.invalid': '잘못됨',
+  'mocks.status': '상태 코드',
+  'mocks.delay': '지연 (ms)',
+  'mocks.neverRespond': '응답하지 않음',
+  'mocks.preset': '프리셋…',
+  'mocks.preset.fixture': '샘플 데이터',
+  'mocks.preset.empty': '비어 있음',
+  'mocks.preset.error': '서버 오류',
+  'mocks.preset.slow': '느림 (2초)',
+  'mocks.preset.hang': '응답 없음',
+  'mocks.bodyError': '{error} — 고칠 때까지 요청은 네트워크로 전송됩니다.',
+  'mocks.empty': '엔드포인트가 없습니다. 다음과 같은 선언이 여기에 표시됩니다:',
+  'mocks.requests': '요청',
+  'mocks.noRequests': '미리보기에서 아직 요청이 없습니다.',
+  'mocks.pending': '대기 중',
+  'mocks.failed': '실패',
+  'mocks.mock': '목',
+  'mocks.network': '네트워크',
+
+  'realtime.title': '실시간',
+  'realtime.simulated': '시뮬레이션 {count}개',
+  'realtime.empty': '소켓이 없습니다. 다음 블록은 실제 서버 대신 여기에서 응답합니다:',
+  'realtime.handles': '처리: {handlers}',
+  'realtime.noHandlers': '핸들러 없음',
+  'realtime.push': '메시지 보내기',
+  'realtime.error': '오류',
+  'realtime.disconnect': '연결 끊기',
+  'realtime.frames': '프레임',
+  'realtime.noFrames': '아직 소켓에서 일어난 일이 없습니다.',
+  'realtime.state.idle': '대기',
+  'realtime.state.connecting': '연결 중',
+  'realtime.state.open': '연결됨',
+  'realtime.state.closed': '닫힘',
+  'realtime.kind.connecting': '연결 중',
+  'realtime.kind.open': '연결됨',
+  'realtime.kind.sent': '↑ 보냄',
+  'realtime.kind.received': '↓ 받음',
+  'realtime.kind.error': '오류',
+  'realtime.kind.close': '닫힘',
+
+  'common.close': '닫기',
+  'report.title': '토큰 리포트',
+  'report.current': '현재 프로젝트',
+  'report.larger': '{percent}% 증가',
+  'report.exportCsv': 'CSV 내보내기',
+  'report.progress': '{total}개 중 {current}번째 컴파일 중…',
+  'report.countedAs': '소스와 출력 모두 {method} 기준으로 셈',
+  'report.tokenizerLoading': ' (LLM 토크나이저 불러오는 중)',
+  'report.column.subject': '대상',
+  'report.column.target': '타깃',
+  'report.column.sourceLines': '0x 줄 수',
+  'report.column.sourceTokens': '0x 토큰',
+  'report.column.outputLines': '출력 줄 수',
+  'report.column.outputTokens': '출력 토큰',
+  'report.column.savings': '절감',
+  'report.column.tokenizer': '0x 토크나이저',
+  'report.column.compiler': '컴파일러 집계',
+  'report.allSubjects': '전체',
+
+  'versions.title': '컴파일러 버전 비교',
+  'versions.heading': '컴파일러 비교 · {target}',
+  'versions.compiling': '컴파일 중…',
+  'versions.identical': '출력이 같습니다.',
+  'versions.stats': '{removed}줄 삭제, {added}줄 추가',
+  'versions.changesOnly': '변경된 부분만',
+  'versions.notCompiled': '컴파일되지 않음',
+  'versions.skipped': '변경 없는 {count}줄',
+
+  'gallery.title': '예제',
+  'gallery.search': '예제 검색…',
+  'gallery.all': '전체',
+  'gallery.empty': '조건에 맞는 예제가 없습니다.',
+
+  'lessons.progress': '{total}개 중 {done}개 완료',
+  'lessons.target': '{target} 출력으로 확인합니다.',
+  'lessons.start': '레슨 시작',
+  'lessons.resume': '레슨 이어 하기',
+  'lessons.check': '확인',
+  'lessons.checking': '확인 중…',
+  'lessons.reset': '코드 초기화',
+  'lessons.showSolution': '정답 보기',
+  'lessons.hideSolution': '정답 숨기기',
+  'lessons.useSolution': '이 코드 사용',
+  'lessons.next': '다음 레슨',
+  'lessons.passed': '모든 확인을 통과했습니다. 레슨 완료!',
+  'lessons.failed': '아직 통과하지 못한 확인이 {count}개 있습니다.',
+  'lessons.compileError': '컴파일 실패: {message}',
+  'lessons.checkFailed': '확인을 실행하지 못했습니다: {message}',
+
+  'command.palette': '명령 팔레트 열기',
+  'command.shortcuts': '키보드 단축키 보기',
+  'command.examples': '예제 찾아보기',
+  'command.target.react': '타겟을 React로 전환',
+  'command.target.vue': '타겟을 Vue로 전환',
+  'command.target.svelte': '타겟을 Svelte로 전환',
+  'command.format': '파일 정리',
+  'command.copyOutput': '출력 복사',
+  'command.share': '공유 링크 복사',
+  'command.saveSnippet': '새 스니펫으로 저장',
+  'command.addFile': '파일 추가',
+  'command.download': '프로젝트 다운로드',
+  'command.toggle.snippets': '스니펫 표시 전환',
+  'command.toggle.lessons': '레슨 표시 전환',
+  'command.toggle.inspect': '검사 패널 표시 전환',
+  'command.toggle.mocks': '목 응답 패널 표시 전환',
+  'command.toggle.realtime': '실시간 패널 표시 전환',
+  'command.toggle.options': '컴파일 옵션 표시 전환',
+  'command.toggle.compare': '비교 보기 전환',
+  'command.toggle.prettify': '출력 정리 보기 전환',
+  'command.report': '토큰 보고서 열기',
+  'command.versions': '컴파일러 버전 비교',
+  'command.openExample': '예제 열기: {title}',
+  'command.group.general': '일반',
+  'command.group.target': '타겟',
+  'command.group.project': '프로젝트',
+  'command.group.panels': '패널',
+  'command.group.examples': '예제',
+  'palette.placeholder': '명령 입력…',
+  'palette.empty': '일치하는 명령이 없습니다.',
+  'shortcuts.title': '키보드 단축키',
+  'shortcuts.note': '단축키를 누른 뒤 새 키 조합을 입력하세요. Escape는 취소, Backspace는 제거합니다. Tab, Enter, Space, 방향키는 수정자 키와 함께 써야 합니다. 이미 쓰이는 조합은 새 명령으로 옮겨집니다.',
+  'shortcuts.none': '—',
+  'shortcuts.recording': '키 입력…',
+  'shortcuts.reset': '기본값',
+  'shortcuts.resetAll': '모두 초기화',
+  'error.shareCorrupt': '공유 링크가 손상되어 읽을 수 없습니다.',
+  'error.shareNoSource': '공유 링크가 손상되었습니다: 소스가 들어 있지 않습니다.',
+  'error.shareNewerVersion': '더 새로운 플레이그라운드에서 만든 링크입니다(형식 v{version}, 이 플레이그라운드는 v{supported}까지 읽습니다). 새로고침해서 최신 버전을 받으세요.',
+  'error.noIndexedDb': '이 브라우저는 IndexedDB를 지원하지 않아 스니펫을 저장할 수 없습니다.',
+  'error.openWorkspace': '로컬 작업 공간을 열 수 없습니다: {message}',
+  'error.importNotJson': '선택한 파일이 올바른 JSON이 아닙니다.',
+  'error.importNotWorkspace': '선택한 파일은 0x 플레이그라운드 작업 공간 내보내기 파일이 아닙니다.',
+  'error.importNewerVersion': '더 새로운 플레이그라운드에서 만든 작업 공간 파일입니다(v{version}).',
+  'error.importMalformed': '작업 공간 파일에 잘못된 스니펫이 있습니다.',
+  'error.formatSyntax': '포맷하기 전에 구문 오류를 고치세요: {message}',
+  'error.formatUnparsable': '포맷한 소스를 파싱할 수 없습니다: {message}',
+  'error.formatNoFile': '{name} 파일이 없습니다',
+  'error.formatCompile': '포맷하기 전에 컴파일 오류를 고치세요.',
+  'error.formatChangesOutput': '포맷하면 컴파일 결과가 바뀌므로 소스를 그대로 두었습니다.',
+  'error.compileTimedOut': '컴파일이 {seconds}초 안에 끝나지 않았습니다',
+  'error.compileCancelled': '컴파일이 {seconds}초 안에 끝나지 않아 취소했습니다',
+  'error.compilerLoad': '0x-lang v{version}을(를) 불러올 수 없습니다: {message}',
+  'error.unknownCompiler': '알 수 없는 컴파일러 오류',
+  'prop.gap': '자식 사이 간격(px).',
+  'prop.padding': '안쪽 여백(px).',
+  'prop.margin': '바깥 여백(px 또는 `auto`).',
+  'prop.width': '너비(px 또는 CSS 길이).',
+  'prop.height': '높이(px 또는 CSS 길이).',
+  'prop.maxWidth': '최대 너비.',
+  'prop.minWidth': '최소 너비.',
+  'prop.maxHeight': '최대 높이.',
+  'prop.minHeight': '최소 높이.',
+  'prop.grow': 'flex 확장 비율.',
+  'prop.shrink': 'flex 축소 비율.',
+  'prop.scroll': '한 축 방향으로 넘치는 내용을 스크롤.',
+  'prop.wrap': '자식을 다음 줄로 줄바꿈.',
+  'prop.align': '교차 축 정렬.',
+  'prop.justify': '주 축 정렬.',
+  'prop.cols': '그리드 열 수.',
+  'prop.rows': '그리드 행 수, 또는 텍스트 영역 줄 수.',
+  'prop.span': '이 자식이 차지하는 그리드 열 수.',
+  'prop.bg': '배경색.',
+  'prop.radius': '모서리 반경(px).',
+  'prop.shadow': '그림자.',
+  'prop.border': '테두리 두께 또는 축약 표기.',
+  'prop.opacity': '0부터 1까지의 불투명도.',
+  'prop.overflow': '넘치는 내용 처리.',
+  'prop.position': 'CSS 위치 지정.',
+  'prop.top': '위쪽으로부터의 거리.',
+  'prop.left': '왼쪽으로부터의 거리.',
+  'prop.right': '오른쪽으로부터의 거리.',
+  'prop.bottom': '아래쪽으로부터의 거리.',
+  'prop.z': '쌓임 순서.',
+  'prop.size': '텍스트 또는 컨트롤 크기.',
+  'prop.color': '글자색: 이름, `#hex` 또는 `{expression}`.',
+  'prop.weight': '글꼴 굵기.',
+  'prop.font': '글꼴 종류.',
+  'prop.bold': '굵은 글씨. 보통 값 없이 플래그로 씁니다.',
+  'prop.italic': '기울임꼴.',
+  'prop.underline': '밑줄.',
+  'prop.strike': '취소선. `strike={item.done}`처럼 자주 씁니다.',
+  'prop.center': '내용을 가운데 정렬.',
+  'prop.end': '내용을 끝쪽으로 정렬.',
+  'prop.lineHeight': '줄 높이.',
+  'prop.style': '컨트롤의 시각적 변형.',
+  'prop.variant': '다른 시각적 변형.',
+  'prop.placeholder': '입력이 비어 있을 때 보이는 안내 문구.',
+  'prop.options': '`select`의 선택지 목록.',
+  'prop.href': '링크 대상 URL 또는 경로.',
+  'prop.target': '링크가 열리는 곳.',
+  'prop.src': '이미지 또는 미디어 소스.',
+  'prop.alt': '이미지의 대체 텍스트.',
+  'prop.label': '화면에 보이는 레이블.',
+  'prop.value': '`stat`이 보여 주거나 컨트롤에 바인딩되는 값.',
+  'prop.change': '`stat` 값 옆의 변화 표시. 예: `"+12%"`.',
+  'prop.title': '모달, 차트 또는 카드의 제목.',
+  'prop.trigger': '모달을 여는 버튼의 레이블.',
+  'prop.type': '토스트 또는 입력의 종류.',
+  'prop.duration': '토스트가 떠 있는 시간(ms).',
+  'prop.confirm': '확인 버튼의 레이블.',
+  'prop.cancel': '취소 버튼의 레이블.',
+  'prop.min': '최솟값.',
+  'prop.max': '최댓값.',
+  'prop.step': '값 사이의 간격.',
+  'prop.disabled': '컨트롤을 비활성화.',
+  'prop.checked': '토글이 켜져 있는지 여부.',
+  'prop.required': '반드시 채워야 하는 필드.',
+  'prop.name': '폼 필드 이름.',
+  'prop.id': '요소 id.',
+  'prop.key': '`for` 반복에서 항목의 식별자.',
+  'prop.accept': '업로드가 받는 파일 형식.',
+  'prop.multiple': '여러 파일이나 선택지를 허용.',
+  'prop.icon': '아이콘 이름.',
+  'prop.items': '나열할 항목.',
+  'prop.data': '보여 줄 데이터.',
+  'prop.show': '식이 참인 동안에만 렌더링.',
+  'prop.hidden': '식이 참인 동안 숨김.',
+  'prop.delay': '애니메이션 지연 시간(ms).',
+  'prop.transition': '애니메이션 방식.',
+  'prop.animate': '나타날 때 애니메이션.',
+  'prop.cursor': '마우스 커서.',
+  'construct.page': '라우팅되는 화면. 상태, 함수, 그리고 `layout` 하나를 가집니다.',
+  'construct.component': '`prop`을 받는 재사용 가능한 UI 조각. 레이아웃 안에서 `component Name(args)`로 렌더링합니다.',
+  'construct.model': '타입이 있는 필드, `validate`, `permission`, 쿼리 설정을 갖춘 데이터 모델.',
+  'construct.type': '상태, prop, API 결과에 쓰는 레코드 타입.',
+  'construct.route': 'URL을 페이지에 연결합니다. `guard`를 붙일 수 있습니다.',
+  'construct.auth': '인증 설정: 로그인, 가입, 로그아웃, 가드.',
+  'construct.roles': '역할 이름과 각 역할이 `can` 할 수 있는 일.',
+  'construct.state': '페이지나 컴포넌트가 가진 반응형 값. 값을 대입하면 다시 렌더링됩니다.',
+  'construct.derived': '상태에서 계산되는 값. 입력이 바뀌면 다시 계산됩니다.',
+  'construct.prop': '부모가 컴포넌트에 넘기는 입력.',
+  'construct.fn': '함수. `-> name()`으로 이벤트 핸들러로 씁니다.',
+  'construct.api': '`await name(args)`로 호출할 수 있는 HTTP 엔드포인트를 선언합니다.',
+  'construct.data': '마운트 시 데이터를 불러오며 `loading`, `error`, `empty` 상태를 가집니다.',
+  'construct.on': '라이프사이클 이벤트(`mount`, `unmount`)나 실시간 이벤트에서 실행됩니다.',
+  'construct.watch': '지정한 상태가 바뀔 때마다 실행됩니다.',
+  'construct.check': '상태에 대한 불변 조건. 조건이 깨지면 보고됩니다.',
+  'construct.style': '이름 붙은 스타일. 레이아웃에 `.name`으로 적용합니다.',
+  'construct.realtime': '`on message` / `on error` 핸들러를 가진 WebSocket 구독.',
+  'construct.crud': '모델의 목록, 생성, 수정, 삭제 화면과 라우트를 생성합니다.',
+  'construct.form': '`field`와 `submit`으로 만드는 검증되는 폼.',
+  'construct.field': '`label`, `required`, `min`, `max`, `format`, `pattern` 규칙을 가진 폼 필드.',
+  'construct.submit': '감싸는 폼을 제출하며 `success`와 `error` 결과를 가집니다.',
+  'construct.upload': '`accept`, `maxSize`, `preview` 설정을 가진 파일 업로드.',
+  'construct.modal': '트리거 버튼으로 여는 대화 상자.',
+  'construct.drawer': '옆에서 밀려 나오는 패널.',
+  'construct.seo': '페이지 제목과 메타 설명.',
+  'construct.layout': '자식을 열, 행 또는 그리드로 배치합니다.',
+  'construct.text': '텍스트. 문자열 안의 `{...}`에 식을 넣을 수 있습니다.',
+  'construct.button': '버튼. `->` 뒤에 클릭 시 실행할 것을 씁니다.',
+  'construct.input': '상태와 양방향으로 바인딩되는 텍스트 입력.',
+  'construct.select': '상태에 바인딩되는 드롭다운.',
+  'construct.toggle': '불리언에 바인딩되는 스위치.',
+  'construct.image': '이미지.',
+  'construct.link': '내비게이션 링크.',
+  'construct.table': '`columns`, `actions`, `features` 블록을 가진 데이터 표.',
+  'construct.chart': '`data`, `x`, `y`, `title` 설정을 가진 차트.',
+  'construct.stat': '변화 표시를 붙일 수 있는 단일 지표.',
+  'construct.stats': '지정한 열 수로 `stat`을 나란히 놓는 행.',
+  'construct.nav': '`link`로 이루어진 내비게이션 바.',
+  'construct.hero': '큰 소개 배너.',
+  'construct.toast': '잠깐 떴다 사라지는 알림.',
+  'construct.confirm': '확인 프롬프트.',
+  'construct.breadcrumb': '라우트로 만드는 이동 경로.',
+  'construct.media': '이미지 갤러리 또는 동영상.',
+  'construct.animate': '자식에 애니메이션을 줍니다.',
+  'construct.mobile': '작은 화면에서만 보이거나 숨겨지는 자식.',
+  'construct.search': '컬렉션을 검색하는 검색창.',
+  'construct.social': '좋아요, 공유, 댓글 컨트롤.',
+  'construct.pay': '결제 흐름.',
+  'construct.if': '조건이 참일 때만 블록을 렌더링하거나 실행합니다.',
+  'construct.else': '앞의 `if`에 대한 대안.',
+  'construct.for': '각 항목마다 블록을 반복합니다.',
+  'construct.return': '함수에서 값을 반환합니다.',
+  'hover.unknownProp': '알 수 없는 prop입니다.',
+  'hover.loopVariable': '반복 변수.',
+  'hover.parameter': '함수 매개변수.',
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en, ko };
+
+export type MessageParams = Record<string, string | number>;
+
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  return MESSAGES[locale][key].replace(/\{(\w+)(?:\|([^|}]*)\|([^}]*))?\}/g, (match, name: string, one?: string, other?: string) => {
+    if (!(name in params)) return match;
+    if (one === undefined) return String(params[name]);
+    return params[name] === 1 ? one : other!;
+  });
+}
+
+// A message for users, as a key and params to translate where it is shown.
+export interface LocalizedMessage {
+  code: MessageKey;
+  params?: MessageParams;
+}
+
+// An error shown to users. It carries a message key and params instead of
+// text, so it is translated where it is displayed; `message` is the English
+// text, for logs.
+export class LocalizedError extends Error {
+  constructor(readonly code: MessageKey, readonly params: MessageParams = {}) {
+    super(translate('en', code, params));
+  }
+}
+
+export function errorMessage(locale: Locale, e: unknown): string {
+  if (e instanceof LocalizedError) return translate(locale, e.code, e.params);
+  return e instanceof Error ? e.message : String(e);
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && Object.hasOwn(LOCALE_NAMES, value);
+}
+
+const LOCALE_KEY = '0x-playground.locale';
+
+// The language picked in this browser, else the browser's own preference.
+export function loadLocale(): Locale {
+  const stored = readStored(LOCALE_KEY);
+  if (isLocale(stored)) return stored;
+  return navigator.language.toLowerCase().startsWith('ko') ? 'ko' : 'en';
+}
+
+export function saveLocale(locale: Locale) {
+  writeStored(LOCALE_KEY, locale);
+}
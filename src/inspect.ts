@@ -0,0 +1,123 @@
+import { parse } from '0x-lang/parser';
+import { tokenize } from '0x-lang/tokenizer';
+import type { LineRange } from './sourceMap';
+
+// Read-only views of the compiler's front end for the Inspect panel. Token
+// and node shapes are not part of 0x-lang's documented API, so everything is
+// read defensively and unknown fields are shown as-is.
+
+export interface TokenRow {
+  type: string;
+  value: string;
+  // 1-based, as reported by the tokenizer.
+  line?: number;
+  column?: number;
+  // INDENT, DEDENT, NEWLINE and EOF: structure rather than text.
+  layout: boolean;
+}
+
+export interface AstNode {
+  // Path from the root, e.g. `body.0.members.2`; stable across re-parses of
+  // similar sources so expansion state survives typing.
+  path: string;
+  type: string;
+  // Primitive fields, e.g. `name: "count"`.
+  fields: [string, string][];
+  range: LineRange | null;
+  children: AstNode[];
+}
+
+export type Inspection<T> = { ok: true; value: T } | { ok: false; error: string };
+
+const LAYOUT_TOKENS = /^(INDENT|DEDENT|NEWLINE|EOF|EOL)$/i;
+
+function messageOf(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+export function inspectTokens(source: string): Inspection<TokenRow[]> {
+  let raw: unknown[];
+  try {
+    raw = tokenize(source);
+  } catch (e) {
+    return { ok: false, error: messageOf(e) };
+  }
+  return {
+    ok: true,
+    value: raw.map(t => {
+      const token = (typeof t === 'object' && t !== null ? t : {}) as Record<string, unknown>;
+      const type = String(token.type ?? token.kind ?? '?');
+      return {
+        type,
+        value: typeof token.value === 'string' ? token.value : token.value === undefined ? '' : JSON.stringify(token.value),
+        line: typeof token.line === 'number' ? token.line : undefined,
+        column: typeof token.column === 'number' ? token.column : undefined,
+        layout: LAYOUT_TOKENS.test(type),
+      };
+    }),
+  };
+}
+
+function num(v: unknown): number | undefined {
+  return typeof v === 'number' && Number.isFinite(v) ? v : undefined;
+}
+
+// A node's own position: `line`/`endLine`, or `loc.start.line`/`loc.end.line`.
+function ownRange(node: Record<string, unknown>): LineRange | null {
+  const loc = typeof node.loc === 'object' && node.loc !== null ? node.loc as Record<string, unknown> : {};
+  const locStart = typeof loc.start === 'object' && loc.start !== null ? loc.start as Record<string, unknown> : loc;
+  const locEnd = typeof loc.end === 'object' && loc.end !== null ? loc.end as Record<string, unknown> : {};
+  const start = num(node.line) ?? num(locStart.line);
+  if (start === undefined) return null;
+  const end = num(node.endLine) ?? num(locEnd.line) ?? start;
+  return { start: start - 1, end: Math.max(start, end) - 1 };
+}
+
+function isNode(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function toTree(value: Record<string, unknown>, path: string): AstNode {
+  const fields: [string, string][] = [];
+  const children: AstNode[] = [];
+  for (const [key, v] of Object.entries(value)) {
+    if (key === 'type' || key === 'loc' || key === 'line' || key === 'column' || key === 'endLine') continue;
+    if (Array.isArray(v)) {
+      v.forEach((item, i) => {
+        if (isNode(item)) children.push(toTree(item, `${path}${key}.${i}.`));
+      });
+      if (v.length && !v.some(isNode)) fields.push([key, JSON.stringify(v)]);
+    } else if (isNode(v)) {
+      children.push(toTree(v, `${path}${key}.`));
+    } else if (v !== undefined) {
+      fields.push([key, JSON.stringify(v)]);
+    }
+  }
+  // Nodes without a position cover whatever their children cover.
+  let range = ownRange(value);
+  for (const child of children) {
+    if (!child.range) continue;
+    range = range
+      ? { start: Math.min(range.start, child.range.start), end: Math.max(range.end, child.range.end) }
+      : child.range;
+  }
+  return {
+    path: path.replace(/\.$/, '') || 'root',
+    type: String(value.type ?? value.kind ?? value.nodeType ?? 'Node'),
+    fields,
+    range,
+    children,
+  };
+}
+
+export function inspectAst(source: string): Inspection<AstNode> {
+  let ast: unknown;
+  try {
+    ast = parse(source);
+  } catch (e) {
+    return { ok: false, error: messageOf(e) };
+  }
+  if (Array.isArray(ast)) ast = { type: 'Program', body: ast };
+  if (!isNode(ast)) return { ok: false, error: 'The parser returned no syntax tree' };
+  return { ok: true, value: toTree(ast, '') };
+}
@@ -0,0 +1,188 @@
+import { translate, type Locale, type MessageKey } from './i18n';
+
+// What the playground knows about the 0x language itself: keywords, elements
+// and their props. Completion, hover cards and the lint pass all read from
+// here, so a new element only needs adding once, plus its short doc as the
+// `prop.<name>` or `construct.<name>` i18n message.
+
+export type ConstructKind = 'declaration' | 'member' | 'element' | 'control';
+
+// Where a construct may start a line.
+export type Placement = 'top' | 'member' | 'render' | 'code';
+
+export interface ConstructDoc {
+  name: string;
+  kind: ConstructKind;
+  placement: Placement[];
+  syntax: string;
+  // Props the element accepts, by name in PROPS.
+  props?: string[];
+  // Bare words allowed right after the keyword (`layout row`).
+  modifiers?: string[];
+}
+
+export interface PropDoc {
+  name: string;
+  // Keyword values; absent for free-form values.
+  values?: string[];
+  // The bare value is an expression (`value=revenue`), not a keyword.
+  expression?: boolean;
+}
+
+const SIZES = ['xs', 'sm', 'md', 'lg', 'xl', '2xl', '3xl'];
+const BOX = ['gap', 'padding', 'margin', 'width', 'height', 'maxWidth', 'minWidth', 'maxHeight', 'minHeight', 'grow', 'scroll', 'bg', 'radius', 'shadow', 'border', 'align', 'justify', 'opacity'];
+const TEXT = ['size', 'color', 'weight', 'bold', 'italic', 'underline', 'strike', 'center', 'end'];
+
+export const PROPS: Record<string, PropDoc> = Object.fromEntries(([
+  { name: 'gap' },
+  { name: 'padding' },
+  { name: 'margin', values: ['auto'] },
+  { name: 'width' },
+  { name: 'height' },
+  { name: 'maxWidth' },
+  { name: 'minWidth' },
+  { name: 'maxHeight' },
+  { name: 'minHeight' },
+  { name: 'grow' },
+  { name: 'shrink' },
+  { name: 'scroll', values: ['x', 'y', 'both'] },
+  { name: 'wrap' },
+  { name: 'align', values: ['start', 'center', 'end', 'stretch'] },
+  { name: 'justify', values: ['start', 'center', 'end', 'between', 'around'] },
+  { name: 'cols' },
+  { name: 'rows' },
+  { name: 'span' },
+  { name: 'bg', values: ['white', 'black', 'gray', 'primary'] },
+  { name: 'radius' },
+  { name: 'shadow', values: ['none', 'sm', 'md', 'lg', 'xl'] },
+  { name: 'border' },
+  { name: 'opacity' },
+  { name: 'overflow', values: ['hidden', 'auto', 'visible'] },
+  { name: 'position', values: ['relative', 'absolute', 'fixed', 'sticky'] },
+  { name: 'top' },
+  { name: 'left' },
+  { name: 'right' },
+  { name: 'bottom' },
+  { name: 'z' },
+  { name: 'size', values: SIZES },
+  { name: 'color', values: ['white', 'black', 'gray', 'red', 'green', 'blue', 'primary'] },
+  { name: 'weight', values: ['normal', 'medium', 'semibold', 'bold'] },
+  { name: 'font', values: ['sans', 'serif', 'mono'] },
+  { name: 'bold' },
+  { name: 'italic' },
+  { name: 'underline' },
+  { name: 'strike' },
+  { name: 'center' },
+  { name: 'end' },
+  { name: 'lineHeight' },
+  { name: 'style', values: ['primary', 'secondary', 'danger', 'ghost', 'link'] },
+  { name: 'variant', values: ['outline', 'solid', 'subtle'] },
+  { name: 'placeholder' },
+  { name: 'options', expression: true },
+  { name: 'href' },
+  { name: 'target', values: ['_blank', '_self'] },
+  { name: 'src', expression: true },
+  { name: 'alt' },
+  { name: 'label' },
+  { name: 'value', expression: true },
+  { name: 'change' },
+  { name: 'title' },
+  { name: 'trigger' },
+  { name: 'type', values: ['success', 'error', 'info', 'warning', 'text', 'email', 'password', 'number'] },
+  { name: 'duration' },
+  { name: 'confirm' },
+  { name: 'cancel' },
+  { name: 'min', expression: true },
+  { name: 'max', expression: true },
+  { name: 'step' },
+  { name: 'disabled', expression: true },
+  { name: 'checked', expression: true },
+  { name: 'required' },
+  { name: 'name' },
+  { name: 'id' },
+  { name: 'key' },
+  { name: 'accept' },
+  { name: 'multiple' },
+  { name: 'icon' },
+  { name: 'items', expression: true },
+  { name: 'data', expression: true },
+  { name: 'show', expression: true },
+  { name: 'hidden', expression: true },
+  { name: 'delay' },
+  { name: 'transition', values: ['fade', 'slide', 'scale'] },
+  { name: 'animate', values: ['fade', 'slide', 'scale'] },
+  { name: 'cursor', values: ['pointer', 'default'] },
+] as PropDoc[]).map(p => [p.name, p]));
+
+export const CONSTRUCTS: ConstructDoc[] = [
+  // Declarations
+  { name: 'page', kind: 'declaration', placement: ['top'], syntax: 'page Name:' },
+  { name: 'component', kind: 'declaration', placement: ['top', 'render'], syntax: 'component Name:' },
+  { name: 'model', kind: 'declaration', placement: ['top'], syntax: 'model Name:' },
+  { name: 'type', kind: 'declaration', placement: ['top', 'member'], syntax: 'type Name = {field: type, ...}' },
+  { name: 'route', kind: 'declaration', placement: ['top'], syntax: 'route "/path":' },
+  { name: 'auth', kind: 'declaration', placement: ['top'], syntax: 'auth provider="supabase":' },
+  { name: 'roles', kind: 'declaration', placement: ['top'], syntax: 'roles:' },
+  // Members
+  { name: 'state', kind: 'member', placement: ['member'], syntax: 'state name: type = initial' },
+  { name: 'derived', kind: 'member', placement: ['member'], syntax: 'derived name = expression' },
+  { name: 'prop', kind: 'member', placement: ['member'], syntax: 'prop name: type' },
+  { name: 'fn', kind: 'member', placement: ['member'], syntax: 'fn name(params):' },
+  { name: 'api', kind: 'member', placement: ['member'], syntax: 'api name = GET "/path"' },
+  { name: 'data', kind: 'member', placement: ['member'], syntax: 'data name = fetch("/path"):' },
+  { name: 'on', kind: 'member', placement: ['member'], syntax: 'on mount:' },
+  { name: 'watch', kind: 'member', placement: ['member'], syntax: 'watch name:' },
+  { name: 'check', kind: 'member', placement: ['member'], syntax: 'check condition "message"' },
+  { name: 'style', kind: 'member', placement: ['member'], syntax: 'style name:' },
+  { name: 'realtime', kind: 'member', placement: ['member'], syntax: 'realtime ws = subscribe("wss://..."):' },
+  { name: 'crud', kind: 'member', placement: ['member'], syntax: 'crud Model:' },
+  { name: 'form', kind: 'member', placement: ['member'], syntax: 'form name:' },
+  { name: 'field', kind: 'element', placement: ['render'], syntax: 'field name: type' },
+  { name: 'submit', kind: 'element', placement: ['render'], syntax: 'submit "Label" -> handler():' },
+  { name: 'upload', kind: 'member', placement: ['member'], syntax: 'upload name:' },
+  { name: 'modal', kind: 'element', placement: ['member', 'render'], syntax: 'modal name title="..." trigger="...":', props: ['title', 'trigger'] },
+  { name: 'drawer', kind: 'element', placement: ['render'], syntax: 'drawer name:' },
+  { name: 'seo', kind: 'member', placement: ['member'], syntax: 'seo:' },
+  // Layout and elements
+  { name: 'layout', kind: 'element', placement: ['member', 'render', 'top'], syntax: 'layout col gap=16:', props: [...BOX, 'cols', 'center', 'wrap'], modifiers: ['col', 'row', 'grid', 'center', 'between'] },
+  { name: 'text', kind: 'element', placement: ['render'], syntax: 'text "Hello {name}" size=lg', props: [...TEXT, 'lineHeight'] },
+  { name: 'button', kind: 'element', placement: ['render'], syntax: 'button "Label" style=primary -> handler()', props: ['style', 'size', 'disabled', 'icon', 'variant'] },
+  { name: 'input', kind: 'element', placement: ['render'], syntax: 'input stateName placeholder="..."', props: ['placeholder', 'type', 'disabled', 'size', 'label'] },
+  { name: 'select', kind: 'element', placement: ['render'], syntax: 'select stateName options=[...]', props: ['options', 'placeholder', 'disabled', 'label'] },
+  { name: 'toggle', kind: 'element', placement: ['render'], syntax: 'toggle stateName', props: ['label', 'disabled'] },
+  { name: 'image', kind: 'element', placement: ['render'], syntax: 'image url width=200', props: ['width', 'height', 'radius', 'alt', 'src'] },
+  { name: 'link', kind: 'element', placement: ['render'], syntax: 'link "Label" href="/path"', props: ['href', 'target', 'color', 'size'] },
+  { name: 'table', kind: 'element', placement: ['render'], syntax: 'table rows:' },
+  { name: 'chart', kind: 'element', placement: ['member', 'render'], syntax: 'chart bar name:', modifiers: ['bar', 'line', 'pie', 'area'] },
+  { name: 'stat', kind: 'element', placement: ['render'], syntax: 'stat "Label" value=expr change="+12%"', props: ['value', 'change', 'icon'] },
+  { name: 'stats', kind: 'element', placement: ['render'], syntax: 'stats 3:' },
+  { name: 'nav', kind: 'element', placement: ['member', 'render'], syntax: 'nav:' },
+  { name: 'hero', kind: 'element', placement: ['member', 'render', 'top'], syntax: 'hero:' },
+  { name: 'toast', kind: 'element', placement: ['render', 'code'], syntax: 'toast "Saved" type=success', props: ['type', 'duration'] },
+  { name: 'confirm', kind: 'element', placement: ['render'], syntax: 'confirm "Sure?" confirm="Yes" cancel="No"', props: ['confirm', 'cancel'] },
+  { name: 'breadcrumb', kind: 'element', placement: ['render'], syntax: 'breadcrumb auto' },
+  { name: 'media', kind: 'element', placement: ['render'], syntax: 'media gallery images cols=3', props: ['cols', 'gap'] },
+  { name: 'animate', kind: 'element', placement: ['render'], syntax: 'animate enter:', props: ['delay', 'duration', 'transition'] },
+  { name: 'mobile', kind: 'element', placement: ['render'], syntax: 'mobile show:' },
+  { name: 'search', kind: 'element', placement: ['render'], syntax: 'search global items:' },
+  { name: 'social', kind: 'element', placement: ['render'], syntax: 'social like item:' },
+  { name: 'pay', kind: 'element', placement: ['render'], syntax: 'pay checkout:' },
+  // Control flow
+  { name: 'if', kind: 'control', placement: ['render', 'code'], syntax: 'if condition:' },
+  { name: 'else', kind: 'control', placement: ['render', 'code'], syntax: 'else:' },
+  { name: 'for', kind: 'control', placement: ['render', 'code'], syntax: 'for item in list:' },
+  { name: 'return', kind: 'control', placement: ['code'], syntax: 'return value' },
+];
+
+export const CONSTRUCT_BY_NAME = new Map(CONSTRUCTS.map(c => [c.name, c]));
+
+// Every prop any element accepts.
+export const PROP_NAMES = new Set(Object.keys(PROPS));
+
+export function propSummary(locale: Locale, name: string): string {
+  return translate(locale, `prop.${name}` as MessageKey);
+}
+
+export function constructSummary(locale: Locale, name: string): string {
+  return translate(locale, `construct.${name}` as MessageKey);
+}
@@ -0,0 +1,252 @@
+import { translate, type Locale } from './i18n';
+import { CONSTRUCT_BY_NAME, CONSTRUCTS, constructSummary, PROPS, propSummary, type Placement } from './languageSchema';
+import { indentOf, outlineDeclarations } from './outline';
+
+// Completion and hover for the editor, driven by the language schema and a
+// skim of the declarations around the caret. Offsets are into the whole
+// source; nothing here needs the source to compile.
+
+export type CompletionKind = 'keyword' | 'element' | 'prop' | 'value' | 'identifier';
+
+export interface CompletionItem {
+  label: string;
+  kind: CompletionKind;
+  // Short description shown next to the label.
+  detail: string;
+  insert: string;
+}
+
+export interface Completion {
+  // The range the chosen item replaces.
+  from: number;
+  to: number;
+  items: CompletionItem[];
+}
+
+export interface HoverInfo {
+  title: string;
+  syntax?: string;
+  summary: string;
+}
+
+interface ScopeName {
+  name: string;
+  kind: string;
+  // The declaring line, trimmed.
+  declaration: string;
+}
+
+const MEMBER_DECL = /^\s*(state|derived|prop|fn|api|data|realtime|form|upload|modal|drawer)\s+([A-Za-z_]\w*)/;
+const FOR_VAR = /^\s*for\s+(\w+)(?:\s*,\s*(\w+))?\s+in\b/;
+const FN_PARAMS = /^\s*fn\s+\w+\s*\(([^)]*)\)/;
+const MAX_ITEMS = 50;
+
+// Elements whose first argument names a state or expression.
+const BINDING_ELEMENTS = new Set(['input', 'select', 'toggle', 'text', 'image', 'table']);
+
+function lineBounds(source: string, offset: number): { start: number; end: number } {
+  const start = source.lastIndexOf('\n', offset - 1) + 1;
+  const nl = source.indexOf('\n', offset);
+  return { start, end: nl === -1 ? source.length : nl };
+}
+
+function firstWord(text: string): string {
+  return /^\s*([A-Za-z_]\w*)/.exec(text)?.[1] ?? '';
+}
+
+// Whether `before` (the start of a line) ends inside a string literal and
+// not inside one of its `{...}` interpolations.
+function inString(before: string): boolean {
+  let quote: string | null = null;
+  let depth = 0;
+  for (let i = 0; i < before.length; i++) {
+    const c = before[i];
+    if (!quote) {
+      if (c === '"' || c === "'") quote = c;
+    } else if (depth > 0) {
+      if (c === '{') depth++;
+      else if (c === '}') depth--;
+    } else if (c === '\\') {
+      i++;
+    } else if (c === quote) {
+      quote = null;
+    } else if (c === '{' && quote === '"') {
+      depth = 1;
+    }
+  }
+  return quote !== null && depth === 0;
+}
+
+// Lines enclosing line `row`, innermost first.
+function ancestors(lines: string[], row: number, indent: number): string[] {
+  const out: string[] = [];
+  let current = indent;
+  for (let i = row - 1; i >= 0 && current > 0; i--) {
+    if (!lines[i].trim()) continue;
+    const ind = indentOf(lines[i]);
+    if (ind < current) {
+      out.push(lines[i]);
+      current = ind;
+    }
+  }
+  return out;
+}
+
+function placementOf(parents: string[]): Placement {
+  if (parents.length === 0) return 'top';
+  const words = parents.map(firstWord);
+  if (words.some(w => w === 'fn' || w === 'on' || w === 'watch')) return 'code';
+  if (words.length === 1 && (words[0] === 'page' || words[0] === 'component')) return 'member';
+  return 'render';
+}
+
+// Names visible at line `row`: the enclosing page or component's members,
+// loop variables and parameters around it, and the file's declarations.
+function namesInScope(lines: string[], row: number, parents: string[]): ScopeName[] {
+  const names = new Map<string, ScopeName>();
+  let top = row;
+  while (top > 0 && !(lines[top].trim() && indentOf(lines[top]) === 0)) top--;
+  for (let i = top + 1; i < lines.length; i++) {
+    if (lines[i].trim() && indentOf(lines[i]) === 0) break;
+    const decl = MEMBER_DECL.exec(lines[i]);
+    if (decl && !names.has(decl[2])) names.set(decl[2], { name: decl[2], kind: decl[1], declaration: lines[i].trim() });
+  }
+  for (const parent of parents) {
+    const loop = FOR_VAR.exec(parent);
+    if (loop) {
+      for (const v of [loop[1], loop[2]]) {
+        if (v) names.set(v, { name: v, kind: 'for', declaration: parent.trim() });
+      }
+    }
+    const params = FN_PARAMS.exec(parent);
+    if (params) {
+      for (const p of params[1].split(',').map(s => s.trim().split(/[\s:=]/)[0]).filter(Boolean)) {
+        names.set(p, { name: p, kind: 'param', declaration: parent.trim() });
+      }
+    }
+  }
+  for (const decl of outlineDeclarations(lines.join('\n'))) {
+    if (!names.has(decl.name)) {
+      names.set(decl.name, { name: decl.name, kind: decl.kind, declaration: lines[decl.line - 1].trim() });
+    }
+  }
+  return [...names.values()];
+}
+
+function identifierItems(names: ScopeName[]): CompletionItem[] {
+  return names.map(n => ({ label: n.name, kind: 'identifier', detail: n.kind, insert: n.name }));
+}
+
+function constructItems(placement: Placement): CompletionItem[] {
+  return CONSTRUCTS.filter(c => c.placement.includes(placement)).map(c => ({
+    label: c.name,
+    kind: c.kind === 'element' ? 'element' : 'keyword',
+    detail: c.syntax,
+    insert: `${c.name} `,
+  }));
+}
+
+function rank(items: CompletionItem[], prefix: string): CompletionItem[] {
+  const lower = prefix.toLowerCase();
+  const seen = new Set<string>();
+  return items
+    .filter(item => {
+      if (seen.has(item.label) || !item.label.toLowerCase().includes(lower)) return false;
+      seen.add(item.label);
+      return true;
+    })
+    // Stable, so schema order (xs..3xl) survives within each group.
+    .sort((a, b) => Number(!a.label.toLowerCase().startsWith(lower)) - Number(!b.label.toLowerCase().startsWith(lower)))
+    .slice(0, MAX_ITEMS);
+}
+
+// Suggestions at `offset`. Unless `explicit` (Ctrl+Space), nothing is offered
+// until the user has started a word or just typed `=`.
+export function completionsAt(source: string, offset: number, locale: Locale, explicit = false): Completion | null {
+  const { start, end } = lineBounds(source, offset);
+  const before = source.slice(start, offset);
+  if (inString(before)) return null;
+  const prefix = /[\w$]*$/.exec(before)![0];
+  const head = before.slice(0, before.length - prefix.length);
+  const to = offset + /^[\w$]*/.exec(source.slice(offset, end))![0].length;
+  if (!explicit && !prefix && !head.endsWith('=')) return null;
+  // Numbers and `#hex` colours are not worth completing.
+  if (/^\d/.test(prefix) || head.endsWith('#') || head.endsWith('.')) return null;
+
+  const lines = source.split('\n');
+  const row = source.slice(0, start).split('\n').length - 1;
+  const parents = ancestors(lines, row, indentOf(before.trim() ? before : lines[row]));
+  const placement = placementOf(parents);
+  const names = () => identifierItems(namesInScope(lines, row, parents));
+  let items: CompletionItem[];
+
+  const propValue = /(?<![=!<>])\b(\w+)=$/.exec(head);
+  const open = (head.match(/\{/g)?.length ?? 0) > (head.match(/\}/g)?.length ?? 0);
+  if (!head.trim()) {
+    items = [...constructItems(placement), ...(placement === 'code' ? names() : [])];
+  } else if (propValue) {
+    const prop = PROPS[propValue[1]];
+    if (!prop) return null;
+    items = (prop.values ?? []).map(v => ({ label: v, kind: 'value' as const, detail: prop.name, insert: v }));
+    if (prop.expression) items.push(...names());
+  } else if (open || head.includes('->') || placement === 'code' || /\b(?:if|for\s+\w+\s+in|elif)\s/.test(head)) {
+    items = names();
+  } else {
+    const element = CONSTRUCT_BY_NAME.get(firstWord(head));
+    if (!element) return null;
+    const used = new Set([...head.matchAll(/(\w+)=/g)].map(m => m[1]));
+    const onlyKeyword = head.trim() === element.name;
+    items = (element.props ?? [])
+      .filter(p => !used.has(p) && PROPS[p])
+      .map(p => ({ label: p, kind: 'prop' as const, detail: propSummary(locale, p), insert: `${p}=` }));
+    if (onlyKeyword) {
+      items.push(...(element.modifiers ?? []).map(m => ({ label: m, kind: 'value' as const, detail: element.name, insert: m })));
+      if (BINDING_ELEMENTS.has(element.name)) items.push(...names());
+    }
+  }
+
+  const ranked = rank(items, prefix);
+  if (ranked.length === 0 || (ranked.length === 1 && ranked[0].insert === prefix)) return null;
+  return { from: offset - prefix.length, to, items: ranked };
+}
+
+// Docs for the word at `offset`: a keyword or element starting the line, a
+// prop (`size=`), or a declared name.
+export function hoverAt(source: string, offset: number, locale: Locale): HoverInfo | null {
+  const { start, end } = lineBounds(source, offset);
+  const text = source.slice(start, end);
+  const col = offset - start;
+  if (!/[\w$]/.test(text[col] ?? '')) return null;
+  const from = col - /[\w$]*$/.exec(text.slice(0, col))![0].length;
+  const to = col + /^[\w$]*/.exec(text.slice(col))![0].length;
+  const word = text.slice(from, to);
+  if (inString(text.slice(0, from)) || /^\d/.test(word) || text[from - 1] === '.') return null;
+
+  if (text[to] === '=' && text[to + 1] !== '=') {
+    const prop = PROPS[word];
+    if (!prop) return { title: `${word}=`, summary: translate(locale, 'hover.unknownProp') };
+    return {
+      title: `${word}=`,
+      syntax: prop.values ? prop.values.join(' | ') : undefined,
+      summary: propSummary(locale, word),
+    };
+  }
+
+  const construct = CONSTRUCT_BY_NAME.get(word);
+  if (construct && from === text.length - text.trimStart().length) {
+    return { title: construct.name, syntax: construct.syntax, summary: constructSummary(locale, word) };
+  }
+
+  const lines = source.split('\n');
+  const row = source.slice(0, start).split('\n').length - 1;
+  const name = namesInScope(lines, row, ancestors(lines, row, indentOf(text))).find(n => n.name === word);
+  if (!name) return null;
+  return {
+    title: `${name.kind} ${name.name}`,
+    syntax: name.declaration,
+    summary: CONSTRUCT_BY_NAME.has(name.kind) ? constructSummary(locale, name.kind)
+      : name.kind === 'for' ? translate(locale, 'hover.loopVariable')
+      : name.kind === 'param' ? translate(locale, 'hover.parameter')
+      : '',
+  };
+}
@@ -0,0 +1,486 @@
+import { DEFAULT_COMPILE_OPTIONS } from './compileOptions';
+import { problemMessage } from './compilerProtocol';
+import { errorMessage, type Locale, type Localized } from './i18n';
+import { blockEnd, outlineDeclarations, outlineMembers, type DeclarationKind, type MemberKind } from './outline';
+import { singleFile } from './project';
+import { readStored, writeStored } from './storage';
+import type { Target } from './targets';
+import { createCompileSession } from './useCompiler';
+
+// The lessons curriculum: short steps that each introduce one construct,
+// with a starter to edit and checks run against the learner's code. Checks
+// look at the source structurally (see outline.ts) and at the code the
+// lesson's target compiles it to.
+
+export interface CheckContext {
+  source: string;
+  // The compiled code, or null when the source did not compile.
+  output: string | null;
+}
+
+export interface LessonCheck {
+  label: Localized;
+  test(context: CheckContext): boolean;
+}
+
+export interface Lesson {
+  id: string;
+  title: Localized;
+  // Paragraphs separated by blank lines; `backticks` mark code.
+  prose: Localized;
+  target: Target;
+  starter: string;
+  // One way to pass every check.
+  solution: string;
+  checks: LessonCheck[];
+}
+
+function hasMember(kind: MemberKind, name: string): (context: CheckContext) => boolean {
+  return ({ source }) => outlineMembers(source).some(m => m.kind === kind && m.name === name);
+}
+
+function hasDeclaration(kind: DeclarationKind): (context: CheckContext) => boolean {
+  return ({ source }) => outlineDeclarations(source).some(d => d.kind === kind);
+}
+
+function hasLine(pattern: RegExp): (context: CheckContext) => boolean {
+  return ({ source }) => source.split('\n').some(line => pattern.test(line));
+}
+
+// The lines nested under the first line matching `opener`, or null.
+function blockBody(source: string, opener: RegExp): string[] | null {
+  const lines = source.split('\n');
+  const start = lines.findIndex(line => opener.test(line));
+  return start === -1 ? null : lines.slice(start + 1, blockEnd(lines, start));
+}
+
+function outputHas(pattern: RegExp): (context: CheckContext) => boolean {
+  return ({ output }) => output !== null && pattern.test(output);
+}
+
+const compiles: LessonCheck = {
+  label: { en: 'The code compiles', ko: '코드가 컴파일된다' },
+  test: ({ output }) => output !== null,
+};
+
+const COUNTER_STATE = `page Counter:
+  state count: int = 0
+
+  layout col gap=16 padding=24:
+    text "Counter" size=2xl bold
+    text "{count}" size=3xl
+`;
+
+const COUNTER_DERIVED = `page Counter:
+  state count: int = 0
+  derived doubled = count * 2
+
+  layout col gap=16 padding=24:
+    text "Counter" size=2xl bold
+    text "{count}" size=3xl
+    text "Doubled: {doubled}"
+`;
+
+const COUNTER_FN = `page Counter:
+  state count: int = 0
+  derived doubled = count * 2
+
+  fn increment():
+    count += 1
+
+  layout col gap=16 padding=24:
+    text "Counter" size=2xl bold
+    text "{count}" size=3xl
+    text "Doubled: {doubled}"
+    button "+1" style=primary -> increment()
+`;
+
+export const LESSONS: Lesson[] = [
+  {
+    id: 'state',
+    title: { en: 'State', ko: '상태 (state)' },
+    prose: {
+      en: `A \`page\` is a screen. Values that change while it is open are declared with \`state\`, a name, a type and a starting value, like \`state count: int = 0\`.
+
+Declare a \`count\` state and show it with a \`text\` whose string contains \`{count}\`: braces inside strings insert values.`,
+      ko: `\`page\`는 하나의 화면입니다. 화면이 열려 있는 동안 바뀌는 값은 \`state\`로 이름, 타입, 초기값과 함께 선언합니다. 예: \`state count: int = 0\`.
+
+\`count\` 상태를 선언하고, 문자열에 \`{count}\`가 들어간 \`text\`로 화면에 보여 주세요. 문자열 안의 중괄호는 값을 끼워 넣습니다.`,
+    },
+    target: 'react',
+    starter: `page Counter:
+  layout col gap=16 padding=24:
+    text "Counter" size=2xl bold
+`,
+    solution: COUNTER_STATE,
+    checks: [
+      { label: { en: 'Declares `state count`', ko: '`state count`를 선언한다' }, test: hasMember('state', 'count') },
+      { label: { en: 'Shows `{count}` in a `text`', ko: '`text`에 `{count}`를 보여 준다' }, test: hasLine(/^\s+text\s+"[^"]*\{count\}/) },
+      compiles,
+      { label: { en: 'The React output keeps `count` in `useState`', ko: 'React 출력이 `count`를 `useState`로 관리한다' }, test: outputHas(/\bcount\b[^\n]*useState|useState[^\n]*\bcount\b/) },
+    ],
+  },
+  {
+    id: 'derived',
+    title: { en: 'Derived values', ko: '파생 값 (derived)' },
+    prose: {
+      en: `A \`derived\` value is computed from state and recomputed whenever that state changes: \`derived doubled = count * 2\`. You never assign to it.
+
+Add \`doubled\` and show it next to the count.`,
+      ko: `\`derived\` 값은 상태로부터 계산되고, 그 상태가 바뀔 때마다 다시 계산됩니다: \`derived doubled = count * 2\`. 직접 대입하지 않습니다.
+
+\`doubled\`를 추가하고 count 옆에 보여 주세요.`,
+    },
+    target: 'react',
+    starter: COUNTER_STATE,
+    solution: COUNTER_DERIVED,
+    checks: [
+      { label: { en: 'Declares `derived doubled`', ko: '`derived doubled`를 선언한다' }, test: hasMember('derived', 'doubled') },
+      { label: { en: '`doubled` is computed from `count`', ko: '`doubled`가 `count`로부터 계산된다' }, test: hasLine(/^\s+derived\s+doubled\s*=.*\bcount\b/) },
+      { label: { en: 'Shows `{doubled}` in a `text`', ko: '`text`에 `{doubled}`를 보여 준다' }, test: hasLine(/^\s+text\s+"[^"]*\{doubled\}/) },
+      compiles,
+    ],
+  },
+  {
+    id: 'fn',
+    title: { en: 'Functions and events', ko: '함수와 이벤트 (fn)' },
+    prose: {
+      en: `Behaviour lives in \`fn\` blocks. Assigning to state inside one, like \`count += 1\`, updates the screen.
+
+Elements run a function with an arrow: \`button "+1" -> increment()\`. Write \`increment\` and wire a button to it.`,
+      ko: `동작은 \`fn\` 블록에 씁니다. 그 안에서 \`count += 1\`처럼 상태에 대입하면 화면이 갱신됩니다.
+
+요소는 화살표로 함수를 실행합니다: \`button "+1" -> increment()\`. \`increment\`를 작성하고 버튼에 연결하세요.`,
+    },
+    target: 'react',
+    starter: COUNTER_DERIVED,
+    solution: COUNTER_FN,
+    checks: [
+      { label: { en: 'Declares `fn increment`', ko: '`fn increment`를 선언한다' }, test: hasMember('fn', 'increment') },
+      { label: { en: 'Something assigns to `count`', ko: '`count`에 대입하는 코드가 있다' }, test: hasLine(/^\s+count\s*(\+|-)?=/) },
+      { label: { en: 'A `button` runs `increment()`', ko: '`button`이 `increment()`를 실행한다' }, test: hasLine(/^\s+button\b.*->\s*increment\(\)/) },
+      compiles,
+      { label: { en: 'The output defines `increment`', ko: '출력에 `increment`가 정의된다' }, test: outputHas(/\bincrement\b/) },
+    ],
+  },
+  {
+    id: 'layout',
+    title: { en: 'Layout', ko: '레이아웃 (layout)' },
+    prose: {
+      en: `\`layout col\` stacks its children vertically and \`layout row\` puts them side by side. Props like \`gap=8\`, \`padding=24\` and \`center\` tune spacing and alignment, and layouts nest.
+
+Add a \`decrement\` function, then put a "-1" and a "+1" button next to each other in a \`layout row\` inside the column. This lesson compiles to Svelte.`,
+      ko: `\`layout col\`은 자식을 세로로 쌓고 \`layout row\`는 가로로 나란히 놓습니다. \`gap=8\`, \`padding=24\`, \`center\` 같은 속성으로 간격과 정렬을 조정하며, 레이아웃은 중첩할 수 있습니다.
+
+\`decrement\` 함수를 추가하고, 열 안의 \`layout row\`에 "-1"과 "+1" 버튼을 나란히 놓으세요. 이 레슨은 Svelte로 컴파일합니다.`,
+    },
+    target: 'svelte',
+    starter: COUNTER_FN,
+    solution: `page Counter:
+  state count: int = 0
+  derived doubled = count * 2
+
+  fn increment():
+    count += 1
+
+  fn decrement():
+    count -= 1
+
+  layout col gap=16 padding=24 center:
+    text "Counter" size=2xl bold
+    text "{count}" size=3xl
+    text "Doubled: {doubled}"
+
+    layout row gap=8:
+      button "-1" style=danger -> decrement()
+      button "+1" style=primary -> increment()
+`,
+    checks: [
+      { label: { en: 'Declares `fn decrement`', ko: '`fn decrement`를 선언한다' }, test: hasMember('fn', 'decrement') },
+      { label: { en: 'Nests a `layout row` inside the page layout', ko: '페이지 레이아웃 안에 `layout row`가 중첩된다' }, test: hasLine(/^\s{4,}layout\s+row\b/) },
+      {
+        label: { en: 'The row holds a button for each function', ko: 'row 안에 각 함수의 버튼이 있다' },
+        test: ({ source }) => {
+          const row = blockBody(source, /^\s{4,}layout\s+row\b/);
+          return !!row && ['increment', 'decrement'].every(name =>
+            row.some(line => new RegExp(`^\\s+button\\b.*->\\s*${name}\\(\\)`).test(line)));
+        },
+      },
+      compiles,
+    ],
+  },
+  {
+    id: 'for-if',
+    title: { en: 'Lists and conditions', ko: '반복과 조건 (for / if)' },
+    prose: {
+      en: `\`for item in items:\` repeats the block under it once per element, and \`if condition:\` (with an optional \`else:\`) shows a block only when the condition holds.
+
+Render each item of \`items\` as a \`text\`, and show "Nothing here" when the list is empty. This lesson compiles to Vue, where a loop becomes \`v-for\`.`,
+      ko: `\`for item in items:\`는 아래 블록을 요소마다 반복하고, \`if 조건:\`(필요하면 \`else:\`와 함께)은 조건이 참일 때만 블록을 보여 줍니다.
+
+\`items\`의 각 항목을 \`text\`로 보여 주고, 목록이 비어 있으면 "Nothing here"를 보여 주세요. 이 레슨은 Vue로 컴파일하며, 반복은 \`v-for\`가 됩니다.`,
+    },
+    target: 'vue',
+    starter: `page Groceries:
+  state items: list[str] = ["Milk", "Eggs", "Bread"]
+
+  fn clear():
+    items = []
+
+  layout col gap=8 padding=24:
+    text "Groceries" size=2xl bold
+    button "Clear" -> clear()
+`,
+    solution: `page Groceries:
+  state items: list[str] = ["Milk", "Eggs", "Bread"]
+
+  fn clear():
+    items = []
+
+  layout col gap=8 padding=24:
+    text "Groceries" size=2xl bold
+
+    for item in items:
+      text item
+
+    if items.length == 0:
+      text "Nothing here" color=#999
+
+    button "Clear" -> clear()
+`,
+    checks: [
+      { label: { en: 'Loops over `items` with `for`', ko: '`for`로 `items`를 반복한다' }, test: hasLine(/^\s+for\s+\w+\s+in\s+items\s*:/) },
+      { label: { en: 'Has an `if` on the list being empty', ko: '목록이 비었는지 `if`로 확인한다' }, test: hasLine(/^\s+if\s+.*\bitems\b.*:/) },
+      compiles,
+      { label: { en: 'The Vue output renders the list with `v-for`', ko: 'Vue 출력이 `v-for`로 목록을 그린다' }, test: outputHas(/\bv-for=/) },
+      { label: { en: 'The Vue output has a `v-if`', ko: 'Vue 출력에 `v-if`가 있다' }, test: outputHas(/\bv-if=/) },
+    ],
+  },
+  {
+    id: 'api',
+    title: { en: 'Loading data', ko: '데이터 불러오기 (api)' },
+    prose: {
+      en: `\`api getUsers = GET "/api/users"\` declares an endpoint you can call like a function with \`await\`. \`on mount:\` runs once when the page appears, which is where loading starts.
+
+Declare \`getUsers\`, load it into \`users\` on mount, and turn \`loading\` off afterwards. The Mocks panel answers the call in the preview.`,
+      ko: `\`api getUsers = GET "/api/users"\`는 \`await\`와 함께 함수처럼 호출하는 엔드포인트를 선언합니다. \`on mount:\`는 페이지가 나타날 때 한 번 실행되며, 보통 여기서 데이터를 불러옵니다.
+
+\`getUsers\`를 선언하고 mount 시 \`users\`에 불러온 뒤 \`loading\`을 끄세요. 미리보기에서는 목 응답 패널이 호출에 답합니다.`,
+    },
+    target: 'react',
+    starter: `page Users:
+  type User = {id: int, name: str}
+
+  state users: list[User] = []
+  state loading: bool = true
+
+  layout col gap=8 padding=24:
+    text "Users" size=2xl bold
+    if loading:
+      text "Loading..."
+    else:
+      for user in users:
+        text user.name
+`,
+    solution: `page Users:
+  type User = {id: int, name: str}
+
+  state users: list[User] = []
+  state loading: bool = true
+
+  api getUsers = GET "/api/users"
+
+  on mount:
+    users = await getUsers()
+    loading = false
+
+  layout col gap=8 padding=24:
+    text "Users" size=2xl bold
+    if loading:
+      text "Loading..."
+    else:
+      for user in users:
+        text user.name
+`,
+    checks: [
+      { label: { en: 'Declares `api getUsers` as a GET', ko: '`api getUsers`를 GET으로 선언한다' }, test: hasLine(/^\s+api\s+getUsers\s*=\s*GET\s+"/) },
+      { label: { en: 'Has an `on mount` block', ko: '`on mount` 블록이 있다' }, test: hasMember('on', 'mount') },
+      { label: { en: 'Assigns `await getUsers(...)` to `users`', ko: '`users`에 `await getUsers(...)`를 대입한다' }, test: hasLine(/^\s+users\s*=\s*await\s+getUsers\(/) },
+      { label: { en: 'Turns `loading` off', ko: '`loading`을 끈다' }, test: hasLine(/^\s+loading\s*=\s*false\b/) },
+      compiles,
+      { label: { en: 'The React output loads in `useEffect`', ko: 'React 출력이 `useEffect`에서 불러온다' }, test: outputHas(/\buseEffect\b/) },
+    ],
+  },
+  {
+    id: 'model',
+    title: { en: 'Models', ko: '모델 (model)' },
+    prose: {
+      en: `A top-level \`model\` describes stored data: typed fields, \`validate:\` rules with messages, and who may read or change it. Pages then list and edit it, for example with a \`table\`.
+
+Write a \`model Book\` with a \`title: str\` and a \`pages: int\` field, and a \`validate:\` rule that keeps \`pages\` positive.`,
+      ko: `최상위 \`model\`은 저장되는 데이터를 설명합니다. 타입이 있는 필드, 메시지가 붙은 \`validate:\` 규칙, 읽기·쓰기 권한을 적습니다. 페이지는 \`table\` 등으로 이를 보여 주고 편집합니다.
+
+\`title: str\`, \`pages: int\` 필드가 있는 \`model Book\`을 작성하고, \`pages\`가 양수가 되도록 \`validate:\` 규칙을 추가하세요.`,
+    },
+    target: 'react',
+    starter: `page Library:
+  data books = fetch("/api/books"):
+    loading: "Loading..."
+    empty: "No books yet"
+
+  layout col gap=16 padding=24:
+    text "Library" size=2xl bold
+    table books:
+      columns:
+        column "Title" title sortable
+        column "Pages" pages sortable
+`,
+    solution: `model Book:
+  title: str
+  pages: int
+
+  validate:
+    title.length >= 1 "A title is required"
+    pages > 0 "Pages must be positive"
+
+page Library:
+  data books = fetch("/api/books"):
+    loading: "Loading..."
+    empty: "No books yet"
+
+  layout col gap=16 padding=24:
+    text "Library" size=2xl bold
+    table books:
+      columns:
+        column "Title" title sortable
+        column "Pages" pages sortable
+`,
+    checks: [
+      { label: { en: 'Declares a top-level `model`', ko: '최상위 `model`을 선언한다' }, test: hasDeclaration('model') },
+      { label: { en: 'Has a `title: str` field', ko: '`title: str` 필드가 있다' }, test: hasLine(/^\s+title\s*:\s*str\b/) },
+      { label: { en: 'Has a `pages: int` field', ko: '`pages: int` 필드가 있다' }, test: hasLine(/^\s+pages\s*:\s*int\b/) },
+      { label: { en: 'Has a `validate:` block', ko: '`validate:` 블록이 있다' }, test: hasLine(/^\s+validate\s*:\s*$/) },
+      { label: { en: 'A rule keeps `pages` positive', ko: '`pages`를 양수로 제한하는 규칙이 있다' }, test: hasLine(/^\s+pages\s*(>\s*0|>=\s*1)\b.*"/) },
+      compiles,
+    ],
+  },
+  {
+    id: 'form',
+    title: { en: 'Forms', ko: '폼 (form)' },
+    prose: {
+      en: `\`form\` builds an input form from \`field\` declarations. Each field has a type and optional rules such as \`required: "message"\`, \`min: 2 "message"\` or \`format: email "message"\`, checked before \`submit\` runs.
+
+Add an \`email\` field that is required and must be an email address, then a \`submit\` that sends \`signupForm.data\`. This lesson compiles to Vue.`,
+      ko: `\`form\`은 \`field\` 선언으로 입력 폼을 만듭니다. 필드마다 타입과 \`required: "메시지"\`, \`min: 2 "메시지"\`, \`format: email "메시지"\` 같은 규칙을 붙일 수 있고, \`submit\` 전에 검사됩니다.
+
+필수이면서 이메일 형식이어야 하는 \`email\` 필드를 추가하고, \`signupForm.data\`를 보내는 \`submit\`을 작성하세요. 이 레슨은 Vue로 컴파일합니다.`,
+    },
+    target: 'vue',
+    starter: `page Signup:
+  form signupForm:
+    field name: str
+      label: "Name"
+      required: "Enter your name"
+
+  layout col gap=16 padding=24:
+    text "Sign up" size=2xl bold
+`,
+    solution: `page Signup:
+  form signupForm:
+    field name: str
+      label: "Name"
+      required: "Enter your name"
+
+    field email: str
+      label: "Email"
+      required: "Enter your email"
+      format: email "That is not an email address"
+
+    submit "Sign up" -> api.signup(signupForm.data):
+      success: toast("Welcome!")
+      error: toast("Sign-up failed")
+
+  layout col gap=16 padding=24:
+    text "Sign up" size=2xl bold
+`,
+    checks: [
+      { label: { en: 'Declares `field email`', ko: '`field email`을 선언한다' }, test: hasLine(/^\s+field\s+email\s*:/) },
+      {
+        label: { en: '`email` is required and checked as an email', ko: '`email`이 필수이며 이메일 형식으로 검사된다' },
+        test: ({ source }) => {
+          const field = blockBody(source, /^\s+field\s+email\s*:/);
+          return !!field && field.some(line => /^\s+required\s*:/.test(line))
+            && field.some(line => /^\s+format\s*:\s*email\b/.test(line));
+        },
+      },
+      { label: { en: 'Has a `submit` that sends `signupForm.data`', ko: '`signupForm.data`를 보내는 `submit`이 있다' }, test: hasLine(/^\s+submit\b.*->.*\bsignupForm\.data\b/) },
+      compiles,
+    ],
+  },
+];
+
+export function lessonById(id: string | null): Lesson | undefined {
+  return LESSONS.find(l => l.id === id);
+}
+
+export interface CheckResult {
+  label: Localized;
+  passed: boolean;
+}
+
+export interface LessonReport {
+  results: CheckResult[];
+  // Why the code did not compile, if it didn't.
+  error: string | null;
+}
+
+// Compiles `source` for the lesson's target with default options and runs
+// every check. Checks on the output fail when the code does not compile.
+export async function checkLesson(lesson: Lesson, source: string, compiler: string, locale: Locale): Promise<LessonReport> {
+  const session = createCompileSession();
+  let output: string | null = null;
+  let error: string | null = null;
+  try {
+    const { results } = await session.compile(singleFile(source), lesson.target, DEFAULT_COMPILE_OPTIONS, compiler);
+    const result = results[0];
+    if (result?.ok) output = result.code;
+    else error = result ? problemMessage(locale, result.error) : null;
+  } catch (e) {
+    error = errorMessage(locale, e);
+  } finally {
+    session.close();
+  }
+  const context: CheckContext = { source, output };
+  return {
+    results: lesson.checks.map(check => ({ label: check.label, passed: check.test(context) })),
+    error,
+  };
+}
+
+export interface LessonProgress {
+  completed: string[];
+  // The lesson last worked on, and the learner's code for each lesson.
+  current: string;
+  drafts: Record<string, string>;
+}
+
+const PROGRESS_KEY = '0x-playground.lessons';
+
+export function loadLessonProgress(): LessonProgress {
+  const fresh: LessonProgress = { completed: [], current: LESSONS[0].id, drafts: {} };
+  const stored = readStored(PROGRESS_KEY) as Partial<LessonProgress> | undefined;
+  if (typeof stored !== 'object' || stored === null) return fresh;
+  const drafts: Record<string, string> = {};
+  for (const [id, source] of Object.entries(stored.drafts ?? {})) {
+    if (lessonById(id) && typeof source === 'string') drafts[id] = source;
+  }
+  return {
+    completed: Array.isArray(stored.completed) ? stored.completed.filter(id => !!lessonById(id)) : [],
+    current: lessonById(stored.current ?? null) ? stored.current! : fresh.current,
+    drafts,
+  };
+}
+
+export function saveLessonProgress(progress: LessonProgress) {
+  writeStored(PROGRESS_KEY, progress);
+}
@@ -0,0 +1,76 @@
+// Line diff for comparing two compiler outputs: a longest-common-subsequence
+// table over the lines between the common prefix and suffix, which is all
+// generated code of playground size needs.
+
+export interface DiffLine {
+  kind: 'same' | 'removed' | 'added';
+  text: string;
+  // 1-based line in the old and new text; absent on the side it is missing from.
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+// Beyond this many cells the middle is reported as replaced wholesale.
+const MAX_CELLS = 4_000_000;
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const out: DiffLine[] = [];
+  for (let i = 0; i < start; i++) out.push({ kind: 'same', text: a[i], oldLine: i + 1, newLine: i + 1 });
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_CELLS) {
+    for (let i = start; i < endA; i++) out.push({ kind: 'removed', text: a[i], oldLine: i + 1 });
+    for (let j = start; j < endB; j++) out.push({ kind: 'added', text: b[j], newLine: j + 1 });
+  } else {
+    // lcs[i][j]: common lines between a[start+i..endA) and b[start+j..endB).
+    const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = a[start + i] === b[start + j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        out.push({ kind: 'same', text: a[start + i], oldLine: start + i + 1, newLine: start + j + 1 });
+        i++;
+        j++;
+      } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        out.push({ kind: 'removed', text: a[start + i], oldLine: start + i + 1 });
+        i++;
+      } else {
+        out.push({ kind: 'added', text: b[start + j], newLine: start + j + 1 });
+        j++;
+      }
+    }
+  }
+
+  const shift = b.length - a.length;
+  for (let i = endA; i < a.length; i++) out.push({ kind: 'same', text: a[i], oldLine: i + 1, newLine: i + shift + 1 });
+  return out;
+}
+
+export function diffStats(lines: DiffLine[]): DiffStats {
+  return {
+    added: lines.filter(l => l.kind === 'added').length,
+    removed: lines.filter(l => l.kind === 'removed').length,
+  };
+}
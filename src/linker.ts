@@ -0,0 +1,99 @@
+import type { SerializedProblem } from './compilerProtocol';
+import { outlineDeclarations, outlineReferences, type Declaration } from './outline';
+import { outputFileName, type SourceFile } from './project';
+import type { Target } from './targets';
+
+// Files are compiled one at a time, so a component used from another file
+// shows up in the output as a bare reference. Linking resolves those against
+// every file's declarations and adds the imports the generated code needs.
+// Types and models need no import in the generated JavaScript; they are only
+// checked for existence.
+
+interface Import {
+  name: string;
+  from: string;
+  isDefault: boolean;
+}
+
+export interface LinkResult {
+  imports: Import[];
+  problems: SerializedProblem[];
+}
+
+export function linkFile(file: SourceFile, files: SourceFile[], target: Target): LinkResult {
+  const own = outlineDeclarations(file.source);
+  const ownNames = new Set(own.map(d => d.name));
+  const elsewhere = new Map<string, { file: SourceFile; decl: Declaration; primary: boolean }>();
+  for (const other of files) {
+    if (other.name === file.name) continue;
+    const tops = outlineDeclarations(other.source);
+    const primary = tops.find(d => d.topLevel);
+    for (const decl of tops) {
+      if (!elsewhere.has(decl.name)) elsewhere.set(decl.name, { file: other, decl, primary: decl === primary });
+    }
+  }
+
+  const imports = new Map<string, Import>();
+  const problems: SerializedProblem[] = [];
+  for (const ref of outlineReferences(file.source)) {
+    if (ownNames.has(ref.name)) continue;
+    const found = elsewhere.get(ref.name);
+    if (!found) {
+      // Unknown types may be compiler built-ins; only components are certain.
+      if (ref.kind === 'component') {
+        problems.push({ message: `Component ${ref.name} is not declared in any file`, line: ref.line, column: ref.column, severity: 'warning' });
+      }
+      continue;
+    }
+    if (ref.kind !== 'component' || found.decl.kind !== 'component' || imports.has(ref.name)) continue;
+    // An SFC exports a single component, so only a file's first declaration
+    // can be imported from Vue or Svelte output.
+    if (!found.primary && target !== 'react') {
+      problems.push({
+        message: `${ref.name} is not the first declaration in ${found.file.name}; move it to its own file to import it from ${target} output`,
+        line: ref.line,
+        column: ref.column,
+        severity: 'warning',
+      });
+      continue;
+    }
+    imports.set(ref.name, { name: ref.name, from: `./${outputFileName(found.file.name, target)}`, isDefault: found.primary });
+  }
+  return { imports: [...imports.values()], problems };
+}
+
+function importLine({ name, from, isDefault }: Import): string {
+  return isDefault ? `import ${name} from '${from}';` : `import { ${name} } from '${from}';`;
+}
+
+// Inserts `lines` after the last import at the top of a script body.
+function insertAfterImports(script: string, lines: string[]): string {
+  const body = script.split('\n');
+  // Never insert on the line of an opening `<script>` tag.
+  let at = body[0].trim() ? 0 : 1;
+  for (let i = 0; i < body.length; i++) {
+    const text = body[i].trim();
+    if (text.startsWith('import ')) at = i + 1;
+    else if (text && !text.startsWith('//') && !text.startsWith('"use') && !text.startsWith("'use")) break;
+  }
+  body.splice(at, 0, ...lines);
+  return body.join('\n');
+}
+
+export function injectImports(code: string, imports: Import[], target: Target): string {
+  if (imports.length === 0) return code;
+  const lines = imports.map(importLine);
+  if (target === 'react') return insertAfterImports(code, lines);
+
+  const script = /<script\b(?![^>]*\bcontext=["']module["'])[^>]*>/.exec(code);
+  if (!script) {
+    const open = target === 'vue' ? '<script setup>' : '<script>';
+    return `${open}\n${lines.join('\n')}\n</script>\n\n${code}`;
+  }
+  const bodyStart = script.index + script[0].length;
+  const bodyEnd = code.indexOf('</script>', bodyStart);
+  const body = code.slice(bodyStart, bodyEnd === -1 ? code.length : bodyEnd);
+  const indent = /\n([ \t]*)\S/.exec(body)?.[1] ?? '';
+  const patched = insertAfterImports(body, lines.map(l => indent + l));
+  return code.slice(0, bodyStart) + patched + code.slice(bodyStart + body.length);
+}
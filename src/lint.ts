@@ -0,0 +1,514 @@
+import type { Diagnostic, Severity } from './diagnostics';
+import { PROP_NAMES, PROPS } from './languageSchema';
+import { indentOf } from './outline';
+import type { SourceFile } from './project';
+import { readStored, writeStored } from './storage';
+
+// Checks the compiler lets through: names that are never declared, state
+// nobody reads, literals that do not fit their declared type, and so on.
+// Like the outline, it reads indentation and leading keywords rather than
+// the compiler's AST, so it keeps working while the source does not compile.
+// Every finding is a warning carrying its rule ID.
+
+export type LintRule =
+  | 'undefined-identifier'
+  | 'undefined-handler'
+  | 'unused-state'
+  | 'unused-derived'
+  | 'type-mismatch'
+  | 'unreachable-check'
+  | 'unknown-prop';
+
+// Descriptions are the `lint.<rule>` i18n messages.
+export const LINT_RULES: Record<LintRule, Severity> = {
+  'undefined-identifier': 'warning',
+  'undefined-handler': 'warning',
+  'unused-state': 'warning',
+  'unused-derived': 'warning',
+  'type-mismatch': 'warning',
+  'unreachable-check': 'warning',
+  'unknown-prop': 'warning',
+};
+
+// Kinds of block, deciding how the lines inside are read.
+type BlockKind = 'members' | 'code' | 'render' | 'config';
+
+interface Line {
+  index: number;
+  text: string;
+  // The text with string literals blanked out, except for `{...}`
+  // interpolations inside double quotes. Same length as `text`.
+  code: string;
+  kind: BlockKind;
+  // Index of the top-level block the line belongs to, or -1.
+  scope: number;
+}
+
+interface Scope {
+  declared: Map<string, { kind: string; line: number }>;
+  locals: Set<string>;
+  // `state` types, for checking literals pushed into lists.
+  stateTypes: Map<string, string>;
+}
+
+const TOP_LEVEL_DECL = /^(page|component)\s+([A-Z]\w*)/;
+const PROJECT_DECL = /^(?:page|component|model)\s+([A-Z]\w*)/;
+const TYPE_ALIAS = /^\s*type\s+([A-Z]\w*)\s*=\s*\{([^}]*)\}/;
+const MEMBER_DECL = /^\s*(state|derived|prop|fn|api|data|realtime|form|upload|modal|drawer|field|style)\s+([A-Za-z_]\w*)/;
+const CHART_DECL = /^\s*chart\s+\w+\s+([A-Za-z_]\w*)/;
+const FN_PARAMS = /^\s*fn\s+\w+\s*\(([^)]*)\)/;
+const FOR_VAR = /^\s*for\s+(\w+)(?:\s*,\s*(\w+))?\s+in\b/;
+const ASSIGN = /^\s*([A-Za-z_]\w*)\s*(?:[+\-*/]?=)(?!=)/;
+const LAMBDA_PARAMS = /\(([\w\s,$]*)\)\s*=>|([A-Za-z_$][\w$]*)\s*=>/g;
+const IDENT = /(?<![\w$.#])[A-Za-z_$][\w$]*/g;
+const CONFIG_LINE = /^\s*[\w-]+\s*:\s*\S/;
+
+// Blocks whose children are layout.
+const RENDER_CONTAINERS = new Set([
+  'layout', 'if', 'elif', 'else', 'for', 'modal', 'drawer', 'nav', 'hero', 'crud', 'animate', 'mobile',
+  'desktop', 'tablet', 'search', 'social', 'pay', 'stats', 'card', 'section', 'footer', 'header', 'tabs', 'tab',
+]);
+
+// Elements whose first argument is an expression unless it is a string.
+const POSITIONAL_EXPR = new Set(['text', 'image', 'toggle', 'input', 'select', 'textarea', 'checkbox', 'slider', 'table']);
+
+// Props whose bare (unbraced) value is an expression rather than a keyword
+// such as `style=primary`.
+const EXPR_PROPS = new Set(Object.values(PROPS).filter(p => p.expression).map(p => p.name));
+
+const KEYWORDS = new Set([
+  'if', 'elif', 'else', 'for', 'in', 'and', 'or', 'not', 'true', 'false', 'null', 'none', 'await', 'async',
+  'return', 'new', 'typeof', 'instanceof', 'let', 'const', 'var', 'this', 'break', 'continue', 'while', 'is',
+]);
+
+const BUILTINS = new Set([
+  'Date', 'Math', 'JSON', 'Number', 'String', 'Boolean', 'Array', 'Object', 'Promise', 'Error', 'Intl', 'URL',
+  'console', 'window', 'document', 'localStorage', 'sessionStorage', 'navigator', 'location', 'fetch',
+  'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'parseInt', 'parseFloat', 'isNaN', 'alert',
+  'confirm', 'prompt', 'undefined', 'NaN', 'Infinity',
+  // 0x runtime helpers
+  'now', 'today', 'navigate', 'redirect', 'toast', 'back', 'refresh', 'user', 'auth', 'route', 'params', 'query',
+]);
+
+// Names an `on <event>:` body receives.
+const HANDLER_LOCALS = ['message', 'error', 'event', 'data', 'value', 'file'];
+
+// Blanks string literals, keeping `{...}` interpolations in double quotes.
+function maskStrings(text: string): string {
+  let out = '';
+  let quote: string | null = null;
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (!quote) {
+      if (c === '"' || c === "'") quote = c;
+      if (c === '/' && text[i + 1] === '/') return out + ' '.repeat(text.length - i);
+      out += c;
+    } else if (depth > 0) {
+      if (c === '{') depth++;
+      if (c === '}') depth--;
+      out += c;
+    } else if (c === '\\') {
+      out += '  ';
+      i++;
+    } else if (c === quote) {
+      quote = null;
+      out += c;
+    } else if (c === '{' && quote === '"') {
+      depth = 1;
+      out += c;
+    } else {
+      out += ' ';
+    }
+  }
+  return out;
+}
+
+function firstWord(text: string): string {
+  return /^\s*([A-Za-z_]\w*)/.exec(text)?.[1] ?? '';
+}
+
+function childKind(parent: BlockKind, line: string, topLevel: boolean): BlockKind {
+  const word = firstWord(line);
+  if (topLevel) {
+    if (TOP_LEVEL_DECL.test(line)) return 'members';
+    return RENDER_CONTAINERS.has(word) ? 'render' : 'config';
+  }
+  if (word === 'fn' || word === 'on' || word === 'watch') return 'code';
+  if (parent === 'code') return 'code';
+  if (parent === 'config') return 'config';
+  if (word === 'realtime') return 'members';
+  return RENDER_CONTAINERS.has(word) ? 'render' : 'config';
+}
+
+function classify(source: string): Line[] {
+  const texts = source.split('\n');
+  const stack: { indent: number; kind: BlockKind }[] = [];
+  let scope = -1;
+  return texts.map((text, index) => {
+    const code = maskStrings(text);
+    if (!text.trim()) return { index, text, code, kind: stack[stack.length - 1]?.kind ?? 'members', scope };
+    const indent = indentOf(text);
+    while (stack.length && stack[stack.length - 1].indent >= indent) stack.pop();
+    if (indent === 0) scope = TOP_LEVEL_DECL.test(text) ? index : -1;
+    const kind: BlockKind = stack[stack.length - 1]?.kind ?? (RENDER_CONTAINERS.has(firstWord(text)) ? 'render' : 'config');
+    if (code.trimEnd().endsWith(':')) stack.push({ indent, kind: childKind(kind, text, indent === 0) });
+    return { index, text, code, kind, scope };
+  });
+}
+
+function paramNames(list: string): string[] {
+  return list.split(',').map(p => p.trim().split(/[\s:=]/)[0]).filter(Boolean);
+}
+
+function collectScope(lines: Line[]): Scope {
+  const declared = new Map<string, { kind: string; line: number }>();
+  const locals = new Set<string>(HANDLER_LOCALS);
+  const stateTypes = new Map<string, string>();
+  for (const { text, code, kind, index } of lines) {
+    const member = MEMBER_DECL.exec(text);
+    if (member && kind !== 'code') {
+      declared.set(member[2], { kind: member[1], line: index + 1 });
+      const state = /^\s*state\s+\w+\s*:\s*([\w[\]]+)/.exec(text);
+      if (state) stateTypes.set(member[2], state[1]);
+    }
+    const chart = CHART_DECL.exec(text);
+    if (chart) declared.set(chart[1], { kind: 'chart', line: index + 1 });
+    const params = FN_PARAMS.exec(text);
+    if (params) paramNames(params[1]).forEach(p => locals.add(p));
+    const loop = FOR_VAR.exec(text);
+    if (loop) [loop[1], loop[2]].forEach(v => v && locals.add(v));
+    if (kind === 'code') {
+      const assign = ASSIGN.exec(code);
+      if (assign) locals.add(assign[1]);
+    }
+    for (const m of code.matchAll(LAMBDA_PARAMS)) {
+      (m[1] !== undefined ? paramNames(m[1]) : [m[2]]).forEach(p => locals.add(p));
+    }
+  }
+  return { declared, locals, stateTypes };
+}
+
+function distance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const next = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = row[j];
+      row[j] = next;
+    }
+  }
+  return row[b.length];
+}
+
+function suggestion(name: string, candidates: Iterable<string>): string {
+  let best: string | null = null;
+  let bestDistance = Math.min(2, Math.floor(name.length / 3));
+  for (const c of candidates) {
+    const d = distance(name.toLowerCase(), c.toLowerCase());
+    if (d <= bestDistance && c !== name) {
+      best = c;
+      bestDistance = d;
+    }
+  }
+  return best ? ` Did you mean \`${best}\`?` : '';
+}
+
+// Top-level keys of the object literal starting at `open` (a `{`).
+function objectKeys(text: string, open: number): { keys: string[]; end: number } | null {
+  let depth = 0;
+  let start = open + 1;
+  const parts: string[] = [];
+  for (let i = open; i < text.length; i++) {
+    const c = text[i];
+    if (c === '{' || c === '[' || c === '(') depth++;
+    else if (c === '}' || c === ']' || c === ')') depth--;
+    if (depth === 1 && c === ',') {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+    if (depth === 0) {
+      parts.push(text.slice(start, i));
+      const keys = parts.map(p => /^\s*([A-Za-z_]\w*)\s*(?::|$)/.exec(p)?.[1]).filter((k): k is string => !!k);
+      return { keys, end: i };
+    }
+  }
+  return null;
+}
+
+function literalKind(value: string): 'int' | 'float' | 'str' | 'bool' | 'list' | 'record' | null {
+  const v = value.trim();
+  if (/^-?\d+$/.test(v)) return 'int';
+  if (/^-?\d*\.\d+$/.test(v)) return 'float';
+  if (/^"|^'/.test(v)) return 'str';
+  if (v === 'true' || v === 'false') return 'bool';
+  if (v.startsWith('[')) return 'list';
+  if (v.startsWith('{')) return 'record';
+  return null;
+}
+
+function fits(literal: NonNullable<ReturnType<typeof literalKind>>, type: string, records: Map<string, string[]>): boolean {
+  if (type === 'float') return literal === 'int' || literal === 'float';
+  if (type === 'int' || type === 'str' || type === 'bool') return literal === type;
+  if (type === 'list' || type.startsWith('list[')) return literal === 'list';
+  if (records.has(type)) return literal === 'record';
+  return true;
+}
+
+export function lintProject(files: SourceFile[], disabled: ReadonlySet<string> = new Set()): Diagnostic[] {
+  // Names any file can use: pages, components, models and record types.
+  const project = new Set<string>();
+  const records = new Map<string, string[]>();
+  for (const file of files) {
+    for (const text of file.source.split('\n')) {
+      const decl = PROJECT_DECL.exec(text);
+      if (decl) project.add(decl[1]);
+      const alias = TYPE_ALIAS.exec(text);
+      if (alias) {
+        project.add(alias[1]);
+        records.set(alias[1], alias[2].split(',').map(f => f.split(':')[0].trim()).filter(Boolean));
+      } else {
+        const type = /^\s*type\s+([A-Z]\w*)/.exec(text);
+        if (type) project.add(type[1]);
+      }
+    }
+  }
+  return files.flatMap(file => lintFile(file, project, records)).filter(d => !disabled.has(d.rule!));
+}
+
+function lintFile(file: SourceFile, project: Set<string>, records: Map<string, string[]>): Diagnostic[] {
+  const lines = classify(file.source);
+  const scopes = new Map<number, Scope>();
+  for (const scope of new Set(lines.map(l => l.scope))) {
+    scopes.set(scope, collectScope(lines.filter(l => l.scope === scope)));
+  }
+  const out: Diagnostic[] = [];
+  const report = (rule: LintRule, line: Line, column: number, length: number, message: string) => {
+    out.push({
+      severity: LINT_RULES[rule],
+      message,
+      line: line.index + 1,
+      column: column + 1,
+      endColumn: column + 1 + length,
+      file: file.name,
+      rule,
+    });
+  };
+
+  const isKnown = (name: string, scope: Scope) =>
+    scope.declared.has(name) || scope.locals.has(name) || project.has(name) || BUILTINS.has(name) || KEYWORDS.has(name);
+
+  // Reports undefined names in `line.code` between `from` and `to`. With
+  // `handler`, the first name is the handler being called.
+  const checkNames = (line: Line, scope: Scope, from: number, to: number, handler = false) => {
+    const seen = new Set<string>();
+    let first = handler;
+    const segment = line.code.slice(0, to);
+    IDENT.lastIndex = from;
+    for (let m = IDENT.exec(segment); m; m = IDENT.exec(segment)) {
+      const name = m[0];
+      const before = segment.slice(0, m.index).trimEnd();
+      const after = line.code.slice(m.index + name.length).trimStart();
+      // Object keys and named arguments: `{id: 1}`, `load(page: 2)`, and keys
+      // on their own line in a multi-line literal.
+      if ((!before || /[{,(]$/.test(before)) && after.startsWith(':') && !after.startsWith('::')) continue;
+      const isHandler = first;
+      first = false;
+      if (isKnown(name, scope) || seen.has(name)) continue;
+      seen.add(name);
+      const candidates = [...scope.declared.keys(), ...scope.locals];
+      if (isHandler) {
+        const path = /^[\w$]+(?:\.[\w$]+)*/.exec(line.code.slice(m.index))![0];
+        report('undefined-handler', line, m.index, path.length, `Undefined handler \`${path}\`.${suggestion(name, candidates)}`);
+      } else {
+        report('undefined-identifier', line, m.index, name.length, `\`${name}\` is not defined.${suggestion(name, candidates)}`);
+      }
+    }
+  };
+
+  for (const line of lines) {
+    const scope = scopes.get(line.scope)!;
+    const { text, code, kind } = line;
+    if (!text.trim()) continue;
+
+    // Handlers can appear anywhere, including config blocks (`submit ... ->`).
+    const arrow = code.indexOf('->');
+    const body = arrow === -1 ? code.length : arrow;
+    if (arrow !== -1) checkNames(line, scope, arrow + 2, code.replace(/:\s*$/, '').length, true);
+
+    if (kind === 'code') {
+      const start = code.search(/\S/);
+      checkNames(line, scope, /^\s*(?:for\s+\w+(?:\s*,\s*\w+)?\s+in\b)/.exec(code)?.[0].length ?? start, body);
+      checkPush(line, lines, scope, records, report);
+      continue;
+    }
+
+    if (kind === 'members') {
+      lintMember(line, scope, records, report, checkNames);
+      if (RENDER_CONTAINERS.has(firstWord(code))) lintRender(line, scope, body, report, checkNames);
+      continue;
+    }
+
+    if (kind !== 'render' || CONFIG_LINE.test(text)) continue;
+    lintRender(line, scope, body, report, checkNames);
+  }
+
+  for (const [index, scope] of scopes) {
+    if (index === -1) continue;
+    const block = lines.filter(l => l.scope === index);
+    for (const [name, decl] of scope.declared) {
+      if (decl.kind !== 'state' && decl.kind !== 'derived') continue;
+      const word = new RegExp(`(?<![\\w$.])${name}(?![\\w$])`);
+      if (block.some(l => l.index + 1 !== decl.line && word.test(l.code))) continue;
+      const line = lines[decl.line - 1];
+      report(
+        decl.kind === 'state' ? 'unused-state' : 'unused-derived',
+        line,
+        line.text.indexOf(name, line.text.indexOf(decl.kind) + decl.kind.length),
+        name.length,
+        `${decl.kind === 'state' ? 'State' : 'Derived value'} \`${name}\` is never read.`,
+      );
+    }
+  }
+  return out;
+}
+
+type Report = (rule: LintRule, line: Line, column: number, length: number, message: string) => void;
+type CheckNames = (line: Line, scope: Scope, from: number, to: number, handler?: boolean) => void;
+
+function lintMember(line: Line, scope: Scope, records: Map<string, string[]>, report: Report, checkNames: CheckNames) {
+  const { text, code } = line;
+  const state = /^(\s*state\s+(\w+)\s*:\s*([\w[\]]+)\s*=\s*)(.+)$/.exec(text);
+  if (state) {
+    const [, prefix, name, type, init] = state;
+    checkNames(line, scope, prefix.length, code.length);
+    const literal = literalKind(init);
+    if (literal && !fits(literal, type, records)) {
+      report('type-mismatch', line, prefix.length, init.trimEnd().length, `\`${name}\` is declared \`${type}\` but starts as a ${literal} literal.`);
+    } else if (literal === 'record' && records.has(type)) {
+      checkRecord(line, prefix.length, type, records, report);
+    }
+    return;
+  }
+  const derived = /^(\s*derived\s+\w+\s*=\s*)/.exec(code);
+  if (derived) {
+    checkNames(line, scope, derived[1].length, code.length);
+    return;
+  }
+  const watch = /^(\s*watch\s+)/.exec(code);
+  if (watch) {
+    checkNames(line, scope, watch[1].length, code.replace(/:\s*$/, '').length);
+    return;
+  }
+  const check = /^(\s*check\s+)([^"]*)/.exec(code);
+  if (check) {
+    const [, prefix, expr] = check;
+    checkNames(line, scope, prefix.length, prefix.length + expr.length);
+    const reactive = [...expr.matchAll(IDENT)].some(m => {
+      const kind = scope.declared.get(m[0])?.kind;
+      return kind === 'state' || kind === 'derived' || kind === 'prop';
+    });
+    if (/\.length\s*(?:>=\s*0|>\s*-1)\b/.test(expr)) {
+      report('unreachable-check', line, prefix.length, expr.trimEnd().length, 'This check can never fail: a length is never negative.');
+    } else if (!reactive) {
+      report('unreachable-check', line, prefix.length, expr.trimEnd().length, 'This check reads no state, prop or derived value, so its outcome never changes.');
+    }
+  }
+}
+
+function lintRender(line: Line, scope: Scope, end: number, report: Report, checkNames: CheckNames) {
+  const { code } = line;
+  const word = firstWord(code);
+  const start = code.search(/\S/) + word.length;
+
+  // `{...}` props and interpolations. Everything else between them is
+  // keywords and literal props, unless listed below.
+  const outside = code.slice(0, end).split('');
+  for (let i = 0, depth = 0, open = 0; i < end; i++) {
+    if (code[i] === '{') {
+      if (depth++ === 0) open = i;
+    } else if (code[i] === '}' && depth > 0 && --depth === 0) {
+      checkNames(line, scope, open + 1, i);
+      for (let j = open; j <= i; j++) outside[j] = ' ';
+    }
+  }
+  const plain = outside.join('');
+
+  if (word === 'for' || word === 'if' || word === 'elif') {
+    const from = word === 'for' ? plain.indexOf(' in ') + 4 : start;
+    checkNames(line, scope, from, plain.replace(/:\s*$/, '').length);
+    return;
+  }
+  if (word === 'component') {
+    const args = /\(([^)]*)\)/.exec(plain);
+    if (args) checkNames(line, scope, args.index + 1, args.index + 1 + args[1].length);
+    return;
+  }
+  if (POSITIONAL_EXPR.has(word)) {
+    const arg = /^\s+([A-Za-z_$][\w$.]*)/.exec(plain.slice(start));
+    if (arg && !/=/.test(plain.slice(start + arg[0].length, start + arg[0].length + 1))) {
+      checkNames(line, scope, start, start + arg[0].length);
+    }
+  }
+
+  for (const m of plain.matchAll(/(?<![=!<>\w.])([A-Za-z]\w*)=(?!=)(\S*)/g)) {
+    const [, prop, value] = m;
+    const at = m.index!;
+    if (!PROP_NAMES.has(prop)) {
+      report('unknown-prop', line, at, prop.length, `Unknown prop \`${prop}\`.${suggestion(prop, PROP_NAMES)}`);
+    }
+    if (EXPR_PROPS.has(prop) && /^[A-Za-z_$]/.test(value)) {
+      checkNames(line, scope, at + prop.length + 1, at + prop.length + 1 + value.length);
+    }
+  }
+}
+
+function checkRecord(line: Line, open: number, type: string, records: Map<string, string[]>, report: Report) {
+  const literal = objectKeys(line.code, line.code.indexOf('{', open));
+  if (literal) checkKeys(line, open, literal.keys, type, records, report);
+}
+
+function checkKeys(line: Line, at: number, keys: string[], type: string, records: Map<string, string[]>, report: Report) {
+  const fields = records.get(type)!;
+  const unknown = keys.filter(k => !fields.includes(k));
+  const missing = fields.filter(f => !keys.includes(f));
+  if (unknown.length) {
+    report('type-mismatch', line, at, 1, `\`${type}\` has no field ${unknown.map(k => `\`${k}\``).join(', ')}.`);
+  }
+  if (missing.length) {
+    report('type-mismatch', line, at, 1, `\`${type}\` is missing ${missing.map(k => `\`${k}\``).join(', ')}.`);
+  }
+}
+
+// `list.push({...})` against the record type of a `list[Type]` state. The
+// literal may span several lines.
+function checkPush(line: Line, lines: Line[], scope: Scope, records: Map<string, string[]>, report: Report) {
+  const push = /([A-Za-z_]\w*)\.push\(\s*\{/.exec(line.code);
+  if (!push) return;
+  const type = /^list\[(\w+)\]$/.exec(scope.stateTypes.get(push[1]) ?? '')?.[1];
+  if (!type || !records.has(type)) return;
+  const open = push.index + push[0].length - 1;
+  let text = line.code;
+  for (let i = line.index + 1; i < lines.length && i < line.index + 50; i++) {
+    const literal = objectKeys(text, open);
+    if (literal) {
+      checkKeys(line, push.index + push[1].length + 1, literal.keys, type, records, report);
+      return;
+    }
+    text += '\n' + lines[i].code;
+  }
+}
+
+const DISABLED_RULES_KEY = '0x-playground.lint.disabled';
+
+// Rules switched off in the Problems panel, remembered per browser.
+export function loadDisabledRules(): Set<LintRule> {
+  const stored = readStored(DISABLED_RULES_KEY);
+  return new Set(Array.isArray(stored) ? stored.filter((r): r is LintRule => typeof r === 'string' && Object.hasOwn(LINT_RULES, r)) : []);
+}
+
+export function saveDisabledRules(rules: ReadonlySet<LintRule>) {
+  writeStored(DISABLED_RULES_KEY, [...rules]);
+}
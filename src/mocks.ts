@@ -0,0 +1,171 @@
+import { endpointKey, type Endpoint, type HttpMethod } from './endpoints';
+import type { SourceFile } from './project';
+
+// Fixtures the preview answers API calls with, keyed by `endpointKey`. Bodies
+// are kept as the JSON text being edited; only valid JSON reaches the frame.
+
+export interface MockRoute {
+  status: number;
+  delayMs: number;
+  // Never answer, to hold the page in its loading state.
+  hang: boolean;
+  body: string;
+}
+
+export type MockTable = Record<string, MockRoute>;
+
+// The statuses a fetch `Response` can be built with.
+export const MIN_MOCK_STATUS = 200;
+export const MAX_MOCK_STATUS = 599;
+
+export function clampStatus(status: number): number {
+  return Math.min(MAX_MOCK_STATUS, Math.max(MIN_MOCK_STATUS, Math.trunc(status)));
+}
+
+// Responses with these statuses have no body; `Response` rejects one.
+export function isNullBodyStatus(status: number): boolean {
+  return status === 204 || status === 205 || status === 304;
+}
+
+// What the preview frame needs to answer one route.
+export interface ResolvedMock {
+  method: HttpMethod;
+  path: string;
+  status: number;
+  delayMs: number;
+  hang: boolean;
+  body: string;
+}
+
+export type MockPreset = 'fixture' | 'empty' | 'error' | 'slow' | 'hang';
+
+// In menu order; labels are the `mocks.preset.<preset>` i18n messages.
+export const MOCK_PRESETS: MockPreset[] = ['fixture', 'empty', 'error', 'slow', 'hang'];
+
+const SAMPLE_ROWS = 3;
+const TYPE_ALIAS = /^\s*type\s+([A-Z]\w*)\s*=\s*\{([^}]*)\}/;
+const MODEL = /^model\s+([A-Z]\w*)\s*:/;
+const FIELD = /^\s+(\w+)\s*:\s*([\w[\]]+)/;
+const STATE = /^\s*state\s+(\w+)\s*:\s*([\w[\]]+)/;
+
+const SCALARS = new Set(['int', 'float', 'str', 'bool', 'date', 'datetime']);
+
+function isFieldType(type: string): boolean {
+  return SCALARS.has(type) || /^[A-Z]/.test(type) || type.startsWith('list[');
+}
+
+// Field lists of every `type X = {...}` and `model X:` in the project.
+function recordTypes(files: SourceFile[]): Map<string, [string, string][]> {
+  const types = new Map<string, [string, string][]>();
+  for (const file of files) {
+    const lines = file.source.split('\n');
+    lines.forEach((text, i) => {
+      const alias = TYPE_ALIAS.exec(text);
+      if (alias) {
+        const fields = alias[2].split(',').map(f => f.split(':').map(s => s.trim()) as [string, string]);
+        types.set(alias[1], fields.filter(([name, type]) => name && type));
+        return;
+      }
+      const model = MODEL.exec(text);
+      if (!model) return;
+      const fields: [string, string][] = [['id', 'int']];
+      for (let j = i + 1; j < lines.length && (!lines[j].trim() || /^\s/.test(lines[j])); j++) {
+        const field = FIELD.exec(lines[j]);
+        // Settings such as `search: name, category` share the field syntax.
+        if (field && isFieldType(field[2])) fields.push([field[1], field[2]]);
+      }
+      types.set(model[1], fields);
+    });
+  }
+  return types;
+}
+
+function sampleValue(name: string, type: string, row: number, types: Map<string, [string, string][]>, depth: number): unknown {
+  if (type.startsWith('list[')) return [];
+  switch (type) {
+    case 'int': return row;
+    case 'float': return Math.round(row * 12.5 * 100) / 100;
+    case 'bool': return row % 2 === 1;
+    case 'datetime':
+    case 'date': return new Date(Date.UTC(2025, 0, row)).toISOString();
+    case 'str': return name === 'image' || name.endsWith('Url') ? '' : `${name} ${row}`;
+  }
+  const fields = types.get(type);
+  if (!fields || depth > 2) return null;
+  return Object.fromEntries(fields.map(([field, t]) => [field, sampleValue(field, t, row, types, depth + 1)]));
+}
+
+// The record type a call to `endpoint` fills in: the model of a `crud`, the
+// type of the state its result is assigned to, or the model of the same name
+// as a `data` binding.
+function resultType(endpoint: Endpoint, files: SourceFile[], types: Map<string, [string, string][]>): string | null {
+  if (endpoint.kind === 'crud') return endpoint.name;
+  const stateTypes = new Map<string, string>();
+  const assigned = new Set<string>();
+  const call = new RegExp(`^\\s*(\\w+)\\s*=\\s*await\\s+${endpoint.name}\\(`);
+  for (const file of files) {
+    for (const text of file.source.split('\n')) {
+      const state = STATE.exec(text);
+      if (state) stateTypes.set(state[1], state[2]);
+      const assign = call.exec(text);
+      if (assign) assigned.add(assign[1]);
+    }
+  }
+  for (const name of assigned) {
+    const type = stateTypes.get(name);
+    if (type) return type.replace(/^list\[(\w+)\]$/, '$1');
+  }
+  if (endpoint.kind === 'fetch') {
+    const singular = endpoint.name.replace(/s$/, '');
+    for (const type of types.keys()) if (type.toLowerCase() === singular.toLowerCase()) return type;
+  }
+  return null;
+}
+
+export function sampleBody(endpoint: Endpoint, files: SourceFile[]): string {
+  const item = endpoint.path.includes(':');
+  if (endpoint.method !== 'GET') return JSON.stringify({ ok: true });
+  const types = recordTypes(files);
+  const type = resultType(endpoint, files, types);
+  if (!type || !types.has(type)) return item ? '{}' : '[]';
+  if (item) return JSON.stringify(sampleValue('', type, 1, types, 0), null, 2);
+  const rows = Array.from({ length: SAMPLE_ROWS }, (_, i) => sampleValue('', type, i + 1, types, 0));
+  return JSON.stringify(rows, null, 2);
+}
+
+export function defaultMock(endpoint: Endpoint, files: SourceFile[]): MockRoute {
+  return { status: 200, delayMs: 300, hang: false, body: sampleBody(endpoint, files) };
+}
+
+export function applyPreset(preset: MockPreset, endpoint: Endpoint, files: SourceFile[], route: MockRoute): MockRoute {
+  switch (preset) {
+    case 'fixture': return defaultMock(endpoint, files);
+    case 'empty': return { ...route, status: 200, hang: false, body: endpoint.path.includes(':') ? '{}' : '[]' };
+    case 'error': return { ...route, status: 500, hang: false, body: JSON.stringify({ error: 'Internal Server Error' }) };
+    case 'slow': return { ...route, delayMs: 2000, hang: false };
+    case 'hang': return { ...route, hang: true };
+  }
+}
+
+// Null when the body is valid JSON, else the parser's message.
+export function bodyError(body: string): string | null {
+  try {
+    JSON.parse(body);
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+// Routes for the declared endpoints, filling in defaults for those without a
+// fixture yet. Routes with invalid JSON are left out, so the frame falls back
+// to the network for them rather than answering with garbage.
+export function resolveMocks(endpoints: Endpoint[], table: MockTable, files: SourceFile[]): ResolvedMock[] {
+  const resolved: ResolvedMock[] = [];
+  for (const endpoint of endpoints) {
+    const route = table[endpointKey(endpoint)] ?? defaultMock(endpoint, files);
+    if (bodyError(route.body)) continue;
+    resolved.push({ method: endpoint.method, path: endpoint.path, ...route, status: clampStatus(route.status) });
+  }
+  return resolved;
+}
@@ -0,0 +1,118 @@
+// A structural skim of 0x source: which declarations a file makes and which
+// names it refers to. It reads indentation and leading keywords only, so it
+// works on sources the compiler would reject and needs no compiler internals.
+
+export type DeclarationKind = 'page' | 'component' | 'model' | 'type';
+
+export interface Declaration {
+  kind: DeclarationKind;
+  name: string;
+  // 1-based, inclusive. `endLine` is the last non-blank line of the block.
+  line: number;
+  endLine: number;
+  // True for top-level `page`, `component` and `model` blocks.
+  topLevel: boolean;
+}
+
+export interface Reference {
+  kind: 'component' | 'type';
+  name: string;
+  line: number;
+  column: number;
+}
+
+const TOP_LEVEL = /^(page|component|model)\s+([A-Z][\w]*)\s*:/;
+const TYPE_DECL = /^\s*type\s+([A-Z][\w]*)\s*=/;
+const COMPONENT_USE = /^(\s+)component\s+([A-Z][\w]*)\b/;
+const BUILTIN_TYPES = new Set(['Date']);
+
+export function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+// Last non-blank line (1-based) of the block opened at `start` (0-based).
+export function blockEnd(lines: string[], start: number): number {
+  const indent = indentOf(lines[start]);
+  let end = start;
+  for (let i = start + 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    if (indentOf(lines[i]) <= indent) break;
+    end = i;
+  }
+  return end + 1;
+}
+
+export function outlineDeclarations(source: string): Declaration[] {
+  const lines = source.split('\n');
+  const declarations: Declaration[] = [];
+  lines.forEach((text, i) => {
+    const top = TOP_LEVEL.exec(text);
+    if (top) {
+      declarations.push({ kind: top[1] as DeclarationKind, name: top[2], line: i + 1, endLine: blockEnd(lines, i), topLevel: true });
+      return;
+    }
+    const type = TYPE_DECL.exec(text);
+    if (type) declarations.push({ kind: 'type', name: type[1], line: i + 1, endLine: i + 1, topLevel: false });
+  });
+  return declarations;
+}
+
+export function outlineReferences(source: string): Reference[] {
+  const refs: Reference[] = [];
+  source.split('\n').forEach((text, i) => {
+    const use = COMPONENT_USE.exec(text);
+    if (use) refs.push({ kind: 'component', name: use[2], line: i + 1, column: text.indexOf(use[2]) + 1 });
+    // Type annotations (`name: Type`, `list[Type]`) and `crud Model`, ignoring
+    // anything inside string literals.
+    const code = text.replace(/"[^"]*"?/g, m => ' '.repeat(m.length));
+    for (const m of code.matchAll(/(?::\s*|\[|\bcrud\s+)([A-Z]\w*)/g)) {
+      const name = m[1];
+      if (BUILTIN_TYPES.has(name)) continue;
+      refs.push({ kind: 'type', name, line: i + 1, column: m.index! + m[0].length - name.length + 1 });
+    }
+  });
+  return refs;
+}
+
+// Statements directly inside a page or component that the compiler turns
+// into a recognisable piece of output.
+export type MemberKind = 'prop' | 'state' | 'derived' | 'fn' | 'api' | 'on' | 'watch' | 'layout';
+
+export interface Member {
+  kind: MemberKind;
+  // The declared name; for `on` the event, for `watch` the watched state.
+  // `layout` has none.
+  name: string;
+  line: number;
+  endLine: number;
+  // Top-level declaration the member belongs to.
+  parent: string;
+}
+
+const MEMBER = /^\s+(prop|state|derived|fn|api|on|watch|layout)\b\s*([A-Za-z_]\w*)?/;
+
+export function outlineMembers(source: string): Member[] {
+  const lines = source.split('\n');
+  const members: Member[] = [];
+  for (const decl of outlineDeclarations(source)) {
+    if (!decl.topLevel || decl.kind === 'model') continue;
+    let memberIndent = -1;
+    for (let i = decl.line; i < decl.endLine; i++) {
+      if (!lines[i].trim()) continue;
+      // Only the first level of the block; nested layouts belong to their parent.
+      if (memberIndent === -1) memberIndent = indentOf(lines[i]);
+      if (indentOf(lines[i]) !== memberIndent) continue;
+      const m = MEMBER.exec(lines[i]);
+      if (!m) continue;
+      const kind = m[1] as MemberKind;
+      members.push({
+        kind,
+        name: kind === 'layout' ? '' : m[2] ?? '',
+        line: i + 1,
+        endLine: blockEnd(lines, i),
+        parent: decl.name,
+      });
+    }
+  }
+  return members;
+}
@@ -0,0 +1,257 @@
+import type { Target } from './targets';
+import type { HighlightRange, TokenKind } from './tokenColors';
+
+// Lightweight lexers for the three output formats. They only need to be good
+// enough to colour generated code, which is regular and always well formed.
+
+interface Span {
+  start: number;
+  end: number;
+  kind: TokenKind;
+}
+
+const JS_KEYWORDS = new Set([
+  'import', 'export', 'default', 'from', 'as', 'const', 'let', 'var', 'function',
+  'return', 'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'break', 'continue',
+  'new', 'delete', 'typeof', 'instanceof', 'in', 'of', 'async', 'await', 'try',
+  'catch', 'finally', 'throw', 'class', 'extends', 'this', 'null', 'undefined',
+  'true', 'false', 'void', 'yield', 'interface', 'type',
+]);
+
+// Svelte 5 runes read like function calls but are compiler keywords.
+const RUNE = /^\$(state|derived|effect|props|bindable|inspect|host)$/;
+
+const JS_TOKEN = /(\/\*[\s\S]*?(?:\*\/|$))|(\/\/[^\n]*)|("(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?|`(?:[^`\\]|\\.)*`?)|(\b\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?n?\b)|([A-Za-z_$][\w$]*)|(=>|\.\.\.|[=!]==?|[<>]=?|&&|\|\||\?\?|\?\.|[-+*/%&|^~!?:;,.=(){}[\]<>])/gy;
+
+// Characters after which `<` starts a JSX element rather than a comparison.
+const JSX_CONTEXT = /(^|[(,=?:{}>&|!]|\breturn|\bdefault)\s*$/;
+
+function lexScript(code: string, from: number, to: number, out: Span[], jsx: boolean) {
+  let pos = from;
+  let braceDepth = 0;
+  let tagDepth = -1; // brace depth at which the open JSX tag ends, -1 outside tags
+  let closingTag = false;
+  // Brace depths at which we are inside an element's children.
+  const children: number[] = [];
+
+  while (pos < to) {
+    const inChildren = children.length > 0 && children[children.length - 1] === braceDepth && tagDepth === -1;
+    if (jsx && code[pos] === '<' && tagDepth === -1) {
+      const tag = /^<\/?([A-Za-z][\w.:-]*)?/.exec(code.slice(pos, to));
+      if (tag && (tag[0].length > 1 || code[pos + 1] === '>') &&
+        (inChildren || JSX_CONTEXT.test(code.slice(Math.max(from, pos - 40), pos)))) {
+        out.push({ start: pos, end: pos + tag[0].length, kind: 'element' });
+        pos += tag[0].length;
+        tagDepth = braceDepth;
+        closingTag = tag[0].startsWith('</');
+        continue;
+      }
+    }
+    if (tagDepth === braceDepth && (code.startsWith('/>', pos) || code[pos] === '>')) {
+      const len = code[pos] === '>' ? 1 : 2;
+      out.push({ start: pos, end: pos + len, kind: 'element' });
+      if (closingTag) children.pop();
+      else if (len === 1) children.push(braceDepth);
+      pos += len;
+      tagDepth = -1;
+      continue;
+    }
+    // JSX text is left uncoloured up to the next tag or expression.
+    if (inChildren && code[pos] !== '{') {
+      const next = code.slice(pos, to).search(/[<{]/);
+      pos = next <= 0 ? (next === 0 ? pos + 1 : to) : pos + next;
+      continue;
+    }
+
+    JS_TOKEN.lastIndex = pos;
+    const m = JS_TOKEN.exec(code);
+    if (!m || m.index >= to) {
+      pos++;
+      continue;
+    }
+    const end = Math.min(m.index + m[0].length, to);
+    const word = m[5];
+    let kind: TokenKind;
+    if (m[1] || m[2]) kind = 'comment';
+    else if (m[3]) kind = 'string';
+    else if (m[4]) kind = 'number';
+    else if (word) {
+      if (tagDepth === braceDepth && tagDepth !== -1 && code[end] === '=') kind = 'prop';
+      else if (RUNE.test(word) || JS_KEYWORDS.has(word)) kind = 'keyword';
+      else if (/^\s*\(/.test(code.slice(end, end + 8))) kind = 'function';
+      else if (/^[A-Z]/.test(word)) kind = 'type';
+      else kind = 'identifier';
+    } else {
+      if (m[0] === '{') braceDepth++;
+      if (m[0] === '}') braceDepth--;
+      kind = 'operator';
+    }
+    out.push({ start: m.index, end, kind });
+    pos = end;
+  }
+}
+
+const CSS_TOKEN = /(\/\*[\s\S]*?(?:\*\/|$))|("[^"]*"?|'[^']*'?)|(#[0-9a-fA-F]{3,8}\b)|(-?\d*\.?\d+(?:px|em|rem|%|vh|vw|s|ms|deg|fr)?\b)|([\w-]+)(?=\s*:(?!:))|([.#]?[A-Za-z_-][\w-]*)|([{}:;,>+~()])/g;
+
+function lexStyle(code: string, from: number, to: number, out: Span[]) {
+  let depth = 0;
+  for (const m of code.slice(from, to).matchAll(CSS_TOKEN)) {
+    const start = from + m.index!;
+    const end = start + m[0].length;
+    let kind: TokenKind;
+    if (m[1]) kind = 'comment';
+    else if (m[2]) kind = 'string';
+    else if (m[3]) kind = 'color';
+    else if (m[4]) kind = 'number';
+    else if (m[5] && depth > 0) kind = 'prop';
+    else if (m[5] || m[6]) kind = depth > 0 ? 'identifier' : 'element';
+    else {
+      if (m[7] === '{') depth++;
+      if (m[7] === '}') depth = Math.max(0, depth - 1);
+      kind = 'operator';
+    }
+    out.push({ start, end, kind });
+  }
+}
+
+// Index of the brace closing the one at `open`, skipping nested braces.
+function closingBrace(code: string, open: number, to: number): number {
+  let depth = 0;
+  for (let i = open; i < to; i++) {
+    if (code[i] === '{') depth++;
+    else if (code[i] === '}' && --depth === 0) return i;
+  }
+  return to;
+}
+
+function lexMarkup(code: string, from: number, to: number, out: Span[], target: Target) {
+  let pos = from;
+  while (pos < to) {
+    if (code.startsWith('<!--', pos)) {
+      const close = code.indexOf('-->', pos);
+      const end = close === -1 || close > to ? to : close + 3;
+      out.push({ start: pos, end, kind: 'comment' });
+      pos = end;
+      continue;
+    }
+
+    const tag = /^<\/?[A-Za-z][\w:.-]*/.exec(code.slice(pos, Math.min(to, pos + 64)));
+    if (tag) {
+      out.push({ start: pos, end: pos + tag[0].length, kind: 'element' });
+      pos = lexAttributes(code, pos + tag[0].length, to, out, target);
+      continue;
+    }
+
+    if (target === 'vue' && code.startsWith('{{', pos)) {
+      const close = code.indexOf('}}', pos);
+      const end = close === -1 || close > to ? to : close;
+      out.push({ start: pos, end: pos + 2, kind: 'operator' });
+      lexScript(code, pos + 2, end, out, false);
+      if (end < to) out.push({ start: end, end: end + 2, kind: 'operator' });
+      pos = Math.min(to, end + 2);
+      continue;
+    }
+
+    if (target === 'svelte' && code[pos] === '{') {
+      const close = closingBrace(code, pos, to);
+      const block = /^\{\s*([#:/@][a-z]+)/.exec(code.slice(pos, close));
+      let inner = pos + 1;
+      out.push({ start: pos, end: pos + 1, kind: 'operator' });
+      if (block) {
+        out.push({ start: pos + 1, end: pos + block[0].length, kind: 'keyword' });
+        inner = pos + block[0].length;
+      }
+      lexScript(code, inner, close, out, false);
+      if (close < to) out.push({ start: close, end: close + 1, kind: 'operator' });
+      pos = close + 1;
+      continue;
+    }
+    pos++;
+  }
+}
+
+// Lexes attributes of an open tag and returns the offset just past it.
+function lexAttributes(code: string, pos: number, to: number, out: Span[], target: Target): number {
+  while (pos < to) {
+    const ch = code[pos];
+    if (ch === '>' || code.startsWith('/>', pos)) {
+      const len = ch === '>' ? 1 : 2;
+      out.push({ start: pos, end: pos + len, kind: 'element' });
+      return pos + len;
+    }
+    if (ch === '{' && target === 'svelte') {
+      const close = closingBrace(code, pos, to);
+      lexScript(code, pos + 1, close, out, false);
+      pos = close + 1;
+      continue;
+    }
+    const name = /^[^\s=>/"'{]+/.exec(code.slice(pos, pos + 128));
+    if (name) {
+      out.push({ start: pos, end: pos + name[0].length, kind: 'prop' });
+      const directive = /^(?:[:@#]|v-)/.test(name[0]);
+      pos += name[0].length;
+      const value = /^\s*=\s*("[^"]*"?|'[^']*'?)/.exec(code.slice(pos, to));
+      if (value) {
+        const valueStart = pos + value[0].length - value[1].length;
+        out.push({ start: pos, end: valueStart, kind: 'operator' });
+        if (directive && target === 'vue') {
+          lexScript(code, valueStart + 1, valueStart + value[1].length - 1, out, false);
+        } else {
+          out.push({ start: valueStart, end: valueStart + value[1].length, kind: 'string' });
+        }
+        pos = valueStart + value[1].length;
+      }
+      continue;
+    }
+    pos++;
+  }
+  return pos;
+}
+
+// `<script>` and `<style>` blocks are lexed as code; everything else in a
+// `.vue` or `.svelte` file is markup.
+function lexComponentFile(code: string, out: Span[], target: Target) {
+  const blocks = /<(script|style)\b[^>]*>([\s\S]*?)<\/\1>/g;
+  let pos = 0;
+  for (const m of code.matchAll(blocks)) {
+    const open = m.index!;
+    const bodyStart = open + m[0].indexOf('>') + 1;
+    const bodyEnd = bodyStart + m[2].length;
+    lexMarkup(code, pos, bodyStart, out, target);
+    if (m[1] === 'script') lexScript(code, bodyStart, bodyEnd, out, /lang=["']tsx["']/.test(m[0]));
+    else lexStyle(code, bodyStart, bodyEnd, out);
+    pos = bodyEnd;
+    lexMarkup(code, pos, open + m[0].length, out, target);
+    pos = open + m[0].length;
+  }
+  lexMarkup(code, pos, code.length, out, target);
+}
+
+function toLineRanges(code: string, spans: Span[]): HighlightRange[] {
+  const starts = [0];
+  for (let i = 0; i < code.length; i++) if (code[i] === '\n') starts.push(i + 1);
+
+  const ranges: HighlightRange[] = [];
+  let line = 0;
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    while (line + 1 < starts.length && starts[line + 1] <= span.start) line++;
+    // Multi-line comments and template literals are split at each newline.
+    let l = line;
+    let start = span.start;
+    while (start < span.end) {
+      const lineEnd = l + 1 < starts.length ? starts[l + 1] - 1 : code.length;
+      const end = Math.min(span.end, lineEnd);
+      if (end > start) ranges.push({ line: l, start: start - starts[l], end: end - starts[l], kind: span.kind });
+      l++;
+      start = lineEnd + 1;
+    }
+  }
+  return ranges;
+}
+
+export function highlightOutput(code: string, target: Target): HighlightRange[] {
+  const spans: Span[] = [];
+  if (target === 'react') lexScript(code, 0, code.length, spans, true);
+  else lexComponentFile(code, spans, target);
+  return toLineRanges(code, spans);
+}
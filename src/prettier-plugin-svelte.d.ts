@@ -0,0 +1,5 @@
+// The browser build has the same surface as the Node entry but ships
+// without its own declarations.
+declare module 'prettier-plugin-svelte/browser' {
+  export * from 'prettier-plugin-svelte';
+}
@@ -0,0 +1,66 @@
+import type { PreviewEvent, PreviewRequest } from '../previewProtocol';
+import type { Target } from '../targets';
+import { setMocks } from './mockFetch';
+import type { Mount } from './module';
+import { pushSocket, setSockets } from './socketSim';
+
+// Runtimes are split per target so the frame only pulls in what it renders.
+const MOUNTERS: Record<Target, () => Promise<{ mount: Mount }>> = {
+  react: () => import('./react'),
+  vue: () => import('./vue'),
+  svelte: () => import('./svelte'),
+};
+
+let currentId = 0;
+let teardown: (() => void) | null = null;
+
+function post(event: PreviewEvent) {
+  window.parent.postMessage(event, '*');
+}
+
+function reportError(id: number, error: unknown) {
+  // Errors from a page that has already been replaced are noise.
+  if (id !== currentId) return;
+  const err = error instanceof Error ? error : new Error(String(error));
+  post({ type: 'runtime-error', id, message: err.message, stack: err.stack });
+}
+
+function resetRoot(): HTMLElement {
+  try {
+    teardown?.();
+  } catch {
+    // A component that failed to mount cannot always unmount cleanly.
+  }
+  teardown = null;
+  const old = document.getElementById('app')!;
+  const root = document.createElement('div');
+  root.id = 'app';
+  old.replaceWith(root);
+  return root;
+}
+
+async function render({ id, target, entry, files, mocks, sockets }: Extract<PreviewRequest, { type: 'render' }>) {
+  currentId = id;
+  const root = resetRoot();
+  setMocks(mocks, request => post({ type: 'request', id, request }));
+  setSockets(sockets, event => post({ type: 'socket', id, event }));
+  try {
+    const { mount } = await MOUNTERS[target]();
+    if (id !== currentId) return;
+    teardown = await mount(files, entry, root, error => reportError(id, error));
+    post({ type: 'rendered', id });
+  } catch (error) {
+    reportError(id, error);
+  }
+}
+
+window.addEventListener('message', (event: MessageEvent<PreviewRequest>) => {
+  if (event.source !== window.parent) return;
+  if (event.data?.type === 'render') render(event.data);
+  else if (event.data?.type === 'socket') pushSocket(event.data.url, event.data.action, event.data.data);
+});
+
+window.addEventListener('error', event => reportError(currentId, event.error ?? event.message));
+window.addEventListener('unhandledrejection', event => reportError(currentId, event.reason));
+
+post({ type: 'ready' });
@@ -0,0 +1,67 @@
+import { matchesPath } from '../endpoints';
+import { isNullBodyStatus, type ResolvedMock } from '../mocks';
+import type { PreviewRequestLog } from '../previewProtocol';
+
+// Replaces `fetch` in the frame so the page's API calls are answered from the
+// playground's fixtures. Requests without a matching route go to the network
+// as usual. The routes are swapped on every render; requests still pending
+// from an earlier page are answered with the routes they started under.
+
+type Report = (request: PreviewRequestLog) => void;
+
+let routes: ResolvedMock[] = [];
+let report: Report = () => {};
+
+export function setMocks(next: ResolvedMock[], onRequest: Report) {
+  routes = next;
+  report = onRequest;
+}
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => reject(signal!.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+    if (signal?.aborted) return abort();
+    const timer = ms === Infinity ? undefined : setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      abort();
+    }, { once: true });
+  });
+}
+
+function requestOf(input: RequestInfo | URL, init?: RequestInit): { method: string; url: URL } {
+  const request = input instanceof Request ? input : null;
+  const method = (init?.method ?? request?.method ?? 'GET').toUpperCase();
+  const url = new URL(request ? request.url : String(input), window.location.href);
+  return { method, url };
+}
+
+const networkFetch = window.fetch.bind(window);
+
+window.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+  const { method, url } = requestOf(input, init);
+  const log = report;
+  const entry = { method, url: url.pathname + url.search, at: Date.now() };
+  const route = url.origin === window.location.origin
+    ? routes.find(r => r.method === method && matchesPath(r.path, url.pathname))
+    : undefined;
+
+  if (!route) {
+    try {
+      const response = await networkFetch(input, init);
+      log({ ...entry, mocked: false, status: response.status });
+      return response;
+    } catch (error) {
+      log({ ...entry, mocked: false, status: null });
+      throw error;
+    }
+  }
+
+  if (route.hang) log({ ...entry, mocked: true, status: null });
+  await wait(route.hang ? Infinity : route.delayMs, init?.signal ?? (input instanceof Request ? input.signal : null));
+  log({ ...entry, mocked: true, status: route.status });
+  return new Response(isNullBodyStatus(route.status) ? null : route.body, {
+    status: route.status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
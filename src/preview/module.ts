@@ -0,0 +1,72 @@
+import { transform } from 'sucrase';
+
+export type Transform = 'jsx' | 'typescript';
+
+export type ModuleTable = Record<string, unknown>;
+
+type Exports = Record<string, unknown>;
+
+// Turns an ES module into CommonJS and evaluates it with the given `require`.
+export function evaluateModule(
+  code: string,
+  require: (name: string) => unknown,
+  transforms: Transform[] = [],
+): Exports {
+  const { code: cjs } = transform(code, {
+    transforms: ['imports', ...transforms],
+    jsxRuntime: 'automatic',
+    production: true,
+  });
+  const module = { exports: {} as Exports };
+  new Function('require', 'module', 'exports', cjs)(require, module, module.exports);
+  return module.exports;
+}
+
+// Prepares one output file for evaluation: plain JavaScript plus the sucrase
+// transforms it still needs.
+export type CompileFile = (name: string, code: string) => { js: string; transforms: Transform[] };
+
+// Resolves imports against a fixed table of framework runtimes plus the
+// project's other output files (`./Name.ext`). Compiled output never imports
+// anything else, so unknown modules are reported instead of fetched.
+export function createLoader(runtime: ModuleTable, files: Record<string, string>, compileFile: CompileFile) {
+  const cache = new Map<string, Exports>();
+
+  const load = (name: string): Exports => {
+    const cached = cache.get(name);
+    if (cached) return cached;
+    if (!(name in files)) throw new Error(`Module "./${name}" is not part of this project`);
+    const exports: Exports = {};
+    // Registered before evaluation so circular imports see partial exports,
+    // as they would under a bundler.
+    cache.set(name, exports);
+    const { js, transforms } = compileFile(name, files[name]);
+    Object.assign(exports, evaluateModule(js, require, transforms));
+    return exports;
+  };
+
+  const require = (spec: string): unknown => {
+    if (spec in runtime) return runtime[spec];
+    if (spec.startsWith('./')) return load(spec.slice(2));
+    throw new Error(`Module "${spec}" is not available in the preview`);
+  };
+
+  return load;
+}
+
+export function pickComponent(exports: Exports): unknown {
+  if (exports.default) return exports.default;
+  const named = Object.values(exports).find(v => typeof v === 'function' || (typeof v === 'object' && v !== null));
+  if (!named) throw new Error('Compiled output has no exported component');
+  return named;
+}
+
+export type ReportError = (error: unknown) => void;
+
+// Mounts the `entry` output file into `root` and returns its teardown.
+export type Mount = (
+  files: Record<string, string>,
+  entry: string,
+  root: HTMLElement,
+  report: ReportError,
+) => Promise<() => void>;
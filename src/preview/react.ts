@@ -0,0 +1,38 @@
+import React from 'react';
+import * as ReactDOM from 'react-dom';
+import { createRoot } from 'react-dom/client';
+import * as jsxRuntime from 'react/jsx-runtime';
+import { createLoader, pickComponent, type Mount, type ReportError } from './module';
+
+const modules = {
+  react: React,
+  'react-dom': ReactDOM,
+  'react-dom/client': { createRoot },
+  'react/jsx-runtime': jsxRuntime,
+};
+
+// React 18 rethrows render errors after logging them, so a boundary is the
+// only way to report them without tearing down the whole frame.
+class Boundary extends React.Component<{ report: ReportError; children?: React.ReactNode }, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: unknown) {
+    this.props.report(error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+export const mount: Mount = async (files, entry, root, report) => {
+  const load = createLoader(modules, files, (_name, code) => ({ js: code, transforms: ['jsx'] }));
+  const Component = pickComponent(load(entry)) as React.ComponentType;
+  const reactRoot = createRoot(root);
+  reactRoot.render(React.createElement(Boundary, { report }, React.createElement(Component)));
+  return () => reactRoot.unmount();
+};
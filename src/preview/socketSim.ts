@@ -0,0 +1,117 @@
+import type { SocketAction, SocketLog } from '../realtime';
+
+// Replaces `WebSocket` in the frame. Connections to the simulated URLs get a
+// stand-in that opens on the next tick, records what the page sends and
+// delivers whatever the playground pushes; other URLs use the real socket.
+
+type Report = (event: SocketLog) => void;
+
+let simulated = new Set<string>();
+let report: Report = () => {};
+const live = new Set<SimulatedSocket>();
+
+const NetworkSocket = window.WebSocket;
+
+class SimulatedSocket extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+  readonly CONNECTING = 0;
+  readonly OPEN = 1;
+  readonly CLOSING = 2;
+  readonly CLOSED = 3;
+
+  // Resolved against the page, as a real socket reports it.
+  readonly url: string;
+  readonly protocol = '';
+  readonly extensions = '';
+  binaryType: BinaryType = 'blob';
+  bufferedAmount = 0;
+  readyState = 0;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  // As the page wrote it, which is how the playground names the socket.
+  private readonly requested: string;
+  private log: Report;
+
+  constructor(url: string) {
+    super();
+    this.requested = url;
+    this.url = normalize(url);
+    this.log = report;
+    live.add(this);
+    this.log({ url, kind: 'connecting', at: Date.now() });
+    setTimeout(() => {
+      if (this.readyState !== 0) return;
+      this.readyState = 1;
+      this.log({ url, kind: 'open', at: Date.now() });
+      this.emit(new Event('open'));
+    });
+  }
+
+  send(data: unknown) {
+    if (this.readyState === 0) throw new DOMException('Still in CONNECTING state.', 'InvalidStateError');
+    if (this.readyState !== 1) return;
+    this.log({ url: this.requested, kind: 'sent', data: typeof data === 'string' ? data : String(data), at: Date.now() });
+  }
+
+  close(code = 1000, reason = '') {
+    this.shutdown(code, reason, true);
+  }
+
+  // Applies a push from the playground.
+  simulate(action: SocketAction, data?: string) {
+    if (this.readyState !== 1) return;
+    if (action === 'message') {
+      this.log({ url: this.requested, kind: 'received', data, at: Date.now() });
+      this.emit(new MessageEvent('message', { data: data ?? '', origin: new URL(this.url).origin }));
+    } else if (action === 'error') {
+      this.log({ url: this.requested, kind: 'error', at: Date.now() });
+      this.emit(new Event('error'));
+      this.shutdown(1006, '', false);
+    } else {
+      this.shutdown(1006, '', false);
+    }
+  }
+
+  private shutdown(code: number, reason: string, wasClean: boolean) {
+    if (this.readyState >= 2) return;
+    this.readyState = 3;
+    live.delete(this);
+    this.log({ url: this.requested, kind: 'close', data: reason || String(code), at: Date.now() });
+    this.emit(new CloseEvent('close', { code, reason, wasClean }));
+  }
+
+  private emit(event: Event) {
+    const handler = this[`on${event.type}` as 'onopen' | 'onmessage' | 'onerror' | 'onclose'] as ((e: Event) => void) | null;
+    handler?.call(this, event);
+    this.dispatchEvent(event);
+  }
+}
+
+function normalize(url: string | URL): string {
+  return new URL(String(url), window.location.href).href;
+}
+
+window.WebSocket = function WebSocket(url: string | URL, protocols?: string | string[]) {
+  if (simulated.has(normalize(url))) return new SimulatedSocket(String(url));
+  return new NetworkSocket(url, protocols);
+} as unknown as typeof window.WebSocket;
+Object.assign(window.WebSocket, { CONNECTING: 0, OPEN: 1, CLOSING: 2, CLOSED: 3 });
+
+// Closes the previous page's sockets and simulates `urls` from now on.
+export function setSockets(urls: string[], onEvent: Report) {
+  for (const socket of [...live]) socket.close(1001, 'Page reloaded');
+  simulated = new Set(urls.map(normalize));
+  report = onEvent;
+}
+
+export function pushSocket(url: string, action: SocketAction, data?: string) {
+  const target = normalize(url);
+  for (const socket of [...live]) {
+    if (socket.url === target) socket.simulate(action, data);
+  }
+}
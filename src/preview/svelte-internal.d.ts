@@ -0,0 +1,5 @@
+// Svelte ships its compiler-facing internals without type declarations; the
+// preview only forwards them to compiled components.
+declare module 'svelte/internal/client';
+declare module 'svelte/internal/disclose-version';
+declare module 'svelte/internal/flags/legacy';
@@ -0,0 +1,25 @@
+import * as svelte from 'svelte';
+import { compile } from 'svelte/compiler';
+import * as client from 'svelte/internal/client';
+import * as discloseVersion from 'svelte/internal/disclose-version';
+import * as legacyFlags from 'svelte/internal/flags/legacy';
+import { createLoader, pickComponent, type Mount } from './module';
+
+const modules = {
+  svelte,
+  'svelte/internal/client': client,
+  'svelte/internal/disclose-version': discloseVersion,
+  'svelte/internal/flags/legacy': legacyFlags,
+};
+
+export const mount: Mount = async (files, entry, root) => {
+  const load = createLoader(modules, files, (name, code) => ({
+    js: compile(code, { filename: name, generate: 'client', css: 'injected' }).js.code,
+    transforms: [],
+  }));
+  const exports = load(entry);
+  // Svelte has no per-app error hook; runtime errors surface through the
+  // frame's global handlers.
+  const instance = svelte.mount(pickComponent(exports) as svelte.Component, { target: root });
+  return () => svelte.unmount(instance);
+};
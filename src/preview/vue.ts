@@ -0,0 +1,69 @@
+import * as Vue from 'vue';
+import { parse, compileScript, compileTemplate, compileStyle } from 'vue/compiler-sfc';
+import { createLoader, pickComponent, type Mount } from './module';
+
+// Scoped styles need an id that is stable per file and unique per project.
+function scopeIdFor(name: string): string {
+  let hash = 0;
+  for (const ch of name) hash = (hash * 31 + ch.charCodeAt(0)) | 0;
+  return (hash >>> 0).toString(36);
+}
+
+function compileSfc(name: string, code: string): { js: string; css: string; ts: boolean } {
+  const { descriptor, errors } = parse(code, { filename: name });
+  if (errors.length) throw errors[0];
+
+  const id = scopeIdFor(name);
+  const scoped = descriptor.styles.some(s => s.scoped);
+  const scopeId = `data-v-${id}`;
+  let js: string;
+
+  if (descriptor.script || descriptor.scriptSetup) {
+    const script = compileScript(descriptor, {
+      id,
+      inlineTemplate: true,
+      templateOptions: { scoped, compilerOptions: { scopeId: scoped ? scopeId : undefined } },
+    });
+    js = script.content.replace('export default', 'const __sfc__ =');
+  } else if (descriptor.template) {
+    const template = compileTemplate({
+      source: descriptor.template.content,
+      filename: name,
+      id,
+      scoped,
+      compilerOptions: { scopeId: scoped ? scopeId : undefined },
+    });
+    if (template.errors.length) throw template.errors[0];
+    js = `${template.code}\nconst __sfc__ = { render };`;
+  } else {
+    throw new Error('Vue component has neither <script> nor <template>');
+  }
+  if (scoped) js += `\n__sfc__.__scopeId = ${JSON.stringify(scopeId)};`;
+  js += '\nexport default __sfc__;';
+
+  const css = descriptor.styles
+    .map(style => compileStyle({ source: style.content, filename: name, id: scopeId, scoped: style.scoped }).code)
+    .join('\n');
+  const lang = descriptor.scriptSetup?.lang ?? descriptor.script?.lang;
+  return { js, css, ts: lang === 'ts' || lang === 'tsx' };
+}
+
+export const mount: Mount = async (files, entry, root, report) => {
+  const styles: HTMLStyleElement[] = [];
+  const load = createLoader({ vue: Vue }, files, (name, code) => {
+    const { js, css, ts } = compileSfc(name, code);
+    const style = document.createElement('style');
+    style.textContent = css;
+    document.head.appendChild(style);
+    styles.push(style);
+    return { js, transforms: ts ? ['typescript'] : [] };
+  });
+
+  const app = Vue.createApp(pickComponent(load(entry)) as Vue.Component);
+  app.config.errorHandler = error => report(error);
+  app.mount(root);
+  return () => {
+    app.unmount();
+    styles.forEach(style => style.remove());
+  };
+};
@@ -0,0 +1,44 @@
+import type { ResolvedMock } from './mocks';
+import type { SocketAction, SocketLog } from './realtime';
+import type { Target } from './targets';
+
+// Messages exchanged between the playground and the sandboxed preview frame.
+// The frame has an opaque origin, so both sides check `event.source` instead
+// of the origin.
+
+// `files` maps output file names to compiled code; `entry` names the one to
+// mount. The others are available to it through relative imports. `mocks`
+// answers the page's `fetch` calls in place of a backend, and WebSockets to
+// the `sockets` URLs are simulated; `socket` drives those simulations.
+export type PreviewRequest =
+  | {
+    type: 'render';
+    id: number;
+    target: Target;
+    entry: string;
+    files: Record<string, string>;
+    mocks: ResolvedMock[];
+    sockets: string[];
+  }
+  | { type: 'socket'; url: string; action: SocketAction; data?: string };
+
+// A `fetch` made by the page. `status` is null while a mock is holding the
+// request open and when the network request failed outright.
+export interface PreviewRequestLog {
+  method: string;
+  url: string;
+  mocked: boolean;
+  status: number | null;
+  at: number;
+}
+
+export type PreviewEvent =
+  | { type: 'ready' }
+  | { type: 'rendered'; id: number }
+  | { type: 'runtime-error'; id: number; message: string; stack?: string }
+  | { type: 'request'; id: number; request: PreviewRequestLog }
+  | { type: 'socket'; id: number; event: SocketLog };
+
+export function isPreviewEvent(data: unknown): data is PreviewEvent {
+  return typeof data === 'object' && data !== null && typeof (data as { type?: unknown }).type === 'string';
+}
@@ -0,0 +1,79 @@
+import type { LocalizedMessage } from './i18n';
+import { outlineDeclarations } from './outline';
+import { TARGET_EXT, type Target } from './targets';
+
+// A playground project is an ordered list of 0x source files. Each file
+// compiles to exactly one output file named after it.
+
+export interface SourceFile {
+  name: string;
+  source: string;
+}
+
+export const SOURCE_EXT = '.0x';
+
+export function baseName(fileName: string): string {
+  return fileName.endsWith(SOURCE_EXT) ? fileName.slice(0, -SOURCE_EXT.length) : fileName;
+}
+
+export function outputFileName(fileName: string, target: Target): string {
+  return baseName(fileName) + TARGET_EXT[target];
+}
+
+// Names a single-file project after its first declaration, e.g. `Counter.0x`.
+export function fileNameFor(source: string): string {
+  const first = outlineDeclarations(source).find(d => d.topLevel);
+  return (first ? first.name : 'main') + SOURCE_EXT;
+}
+
+export function singleFile(source: string): SourceFile[] {
+  return [{ name: fileNameFor(source), source }];
+}
+
+// Returns what is wrong with `name`, or null when it can be used for a new
+// file (or for renaming `current`).
+export function validateFileName(name: string, files: SourceFile[], current?: string): LocalizedMessage | null {
+  if (!/^[A-Za-z_][\w-]*\.0x$/.test(name)) return { code: 'files.invalidName' };
+  if (files.some(f => f.name === name && f.name !== current)) return { code: 'files.nameTaken', params: { name } };
+  return null;
+}
+
+export function uniqueFileName(files: SourceFile[], base = 'Untitled'): string {
+  let name = base + SOURCE_EXT;
+  for (let n = 2; files.some(f => f.name === name); n++) name = `${base}${n}${SOURCE_EXT}`;
+  return name;
+}
+
+// Splits a file holding several top-level declarations into one file per
+// declaration. Lines before the first declaration (e.g. `roles:` or `auth`
+// blocks) stay with the first file.
+export function splitDeclarations(file: SourceFile, files: SourceFile[]): SourceFile[] {
+  const lines = file.source.split('\n');
+  const tops = outlineDeclarations(file.source).filter(d => d.topLevel);
+  if (tops.length < 2) return [file];
+
+  const others = files.filter(f => f.name !== file.name);
+  return tops.map((decl, i) => {
+    const start = i === 0 ? 0 : decl.line - 1;
+    const end = i + 1 < tops.length ? tops[i + 1].line - 1 : lines.length;
+    const chunk = lines.slice(start, end);
+    const name = uniqueFileName(others, decl.name);
+    const part = { name, source: chunk.join('\n').trimEnd() };
+    others.push(part);
+    return part;
+  });
+}
+
+// Reads files from untrusted input (share links, snippets, imports).
+export function normalizeFiles(value: unknown): SourceFile[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const files: SourceFile[] = [];
+  for (const entry of value) {
+    if (typeof entry !== 'object' || entry === null) return null;
+    const { name, source } = entry as Record<string, unknown>;
+    if (typeof name !== 'string' || typeof source !== 'string') return null;
+    if (validateFileName(name, files) !== null) return null;
+    files.push({ name, source });
+  }
+  return files;
+}
@@ -0,0 +1,204 @@
+import { strToU8, zipSync } from 'fflate';
+import { endpointKey, findEndpoints, type Endpoint } from './endpoints';
+import { outputFileName, type SourceFile } from './project';
+import { TARGET_LABELS, type Target } from './targets';
+
+// Builds a minimal, runnable Vite project around the compiled output, entirely
+// in the browser. Output files keep the names the compiler's cross-file
+// imports refer to, which are the 0x file names (by default the name of the
+// file's page or component).
+
+export interface ArchiveInput {
+  // Used for the zip and package name.
+  name: string;
+  target: Target;
+  files: SourceFile[];
+  // Compiled code by source file name; every file must be present.
+  outputs: Record<string, string>;
+  // Source file whose output is mounted by the entry file.
+  entry: string;
+}
+
+const DEPENDENCIES: Record<Target, { dependencies: Record<string, string>; devDependencies: Record<string, string> }> = {
+  react: {
+    dependencies: { react: '^18.3.1', 'react-dom': '^18.3.1' },
+    devDependencies: { '@vitejs/plugin-react': '^4.3.0', vite: '^5.4.0' },
+  },
+  vue: {
+    dependencies: { vue: '^3.4.0' },
+    devDependencies: { '@vitejs/plugin-vue': '^5.0.0', vite: '^5.4.0' },
+  },
+  svelte: {
+    dependencies: { svelte: '^5.0.0' },
+    devDependencies: { '@sveltejs/vite-plugin-svelte': '^4.0.0', vite: '^5.4.0' },
+  },
+};
+
+const PLUGIN_IMPORT: Record<Target, string> = {
+  react: "import react from '@vitejs/plugin-react';",
+  vue: "import vue from '@vitejs/plugin-vue';",
+  svelte: "import { svelte } from '@sveltejs/vite-plugin-svelte';",
+};
+
+const PLUGIN_CALL: Record<Target, string> = {
+  react: 'react()',
+  vue: 'vue()',
+  svelte: 'svelte()',
+};
+
+export function packageName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '') || '0x-app';
+}
+
+function packageJson(input: ArchiveInput): string {
+  return JSON.stringify({
+    name: packageName(input.name),
+    private: true,
+    version: '0.0.0',
+    type: 'module',
+    scripts: { dev: 'vite', build: 'vite build', preview: 'vite preview' },
+    ...DEPENDENCIES[input.target],
+  }, null, 2) + '\n';
+}
+
+function viteConfig(target: Target): string {
+  return `import { defineConfig } from 'vite';
+${PLUGIN_IMPORT[target]}
+import handlers from './api/handlers.js';
+
+// Serves the stub handlers in api/handlers.js during \`vite dev\`. Remove this
+// plugin once the app talks to a real backend.
+function mockApi() {
+  const routes = Object.entries(handlers).map(([key, handler]) => {
+    const [method, path] = key.split(' ');
+    const pattern = new RegExp('^' + path.replace(/:\\w+/g, '[^/]+') + '$');
+    return { method, pattern, handler };
+  });
+  return {
+    name: 'mock-api',
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        const url = new URL(req.url, 'http://localhost');
+        const route = routes.find(r => r.method === req.method && r.pattern.test(url.pathname));
+        if (!route) return next();
+        const body = await route.handler({ url, method: req.method });
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(body ?? null));
+      });
+    },
+  };
+}
+
+export default defineConfig({
+  plugins: [${PLUGIN_CALL[target]}, mockApi()],
+});
+`;
+}
+
+// Collections start empty; single items and writes answer with a plain object.
+function stubBody(endpoint: Endpoint): string {
+  if (endpoint.method === 'GET') return endpoint.path.includes(':') ? '{}' : '[]';
+  return '{ ok: true }';
+}
+
+function apiHandlers(endpoints: Endpoint[]): string {
+  const entries = endpoints.map(e =>
+    `  // ${e.kind} ${e.name} (${e.file}:${e.line})\n  ${JSON.stringify(endpointKey(e))}: ({ url }) => ${stubBody(e)},`);
+  return `// Stub handlers for the endpoints declared in the 0x source, keyed by
+// "METHOD /path" (\`:param\` segments match anything). Each returns the JSON
+// body the app receives.
+export default {
+${entries.join('\n')}
+};
+`;
+}
+
+function indexHtml(input: ArchiveInput, entryFile: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${input.name.replace(/[<&]/g, c => (c === '<' ? '&lt;' : '&amp;'))}</title>
+  </head>
+  <body>
+    <div id="app"></div>
+    <script type="module" src="/src/${entryFile}"></script>
+  </body>
+</html>
+`;
+}
+
+function mainFile(target: Target, component: string): { name: string; code: string } {
+  const from = `./${component}`;
+  if (target === 'react') {
+    return {
+      name: 'main.jsx',
+      code: `import { createRoot } from 'react-dom/client';
+import * as page from '${from}';
+
+const App = page.default ?? Object.values(page).find(v => typeof v === 'function');
+createRoot(document.getElementById('app')).render(<App />);
+`,
+    };
+  }
+  if (target === 'vue') {
+    return {
+      name: 'main.js',
+      code: `import { createApp } from 'vue';
+import App from '${from}';
+
+createApp(App).mount('#app');
+`,
+    };
+  }
+  return {
+    name: 'main.js',
+    code: `import { mount } from 'svelte';
+import App from '${from}';
+
+mount(App, { target: document.getElementById('app') });
+`,
+  };
+}
+
+function readme(input: ArchiveInput): string {
+  return `# ${input.name}
+
+Generated by the 0x playground (${TARGET_LABELS[input.target]} target).
+
+    npm install
+    npm run dev
+
+API calls are answered by the stubs in \`api/handlers.js\`.
+`;
+}
+
+export function buildProjectArchive(input: ArchiveInput): Uint8Array<ArrayBuffer> {
+  const { target, files, outputs } = input;
+  const main = mainFile(target, outputFileName(input.entry, target));
+  const root = packageName(input.name);
+  const entries: Record<string, string> = {
+    'package.json': packageJson(input),
+    'vite.config.js': viteConfig(target),
+    'index.html': indexHtml(input, main.name),
+    'README.md': readme(input),
+    'api/handlers.js': apiHandlers(findEndpoints(files)),
+    [`src/${main.name}`]: main.code,
+  };
+  for (const file of files) entries[`src/${outputFileName(file.name, target)}`] = outputs[file.name];
+
+  const zip: Record<string, Uint8Array> = {};
+  for (const [path, text] of Object.entries(entries)) zip[`${root}/${path}`] = strToU8(text);
+  return zipSync(zip, { level: 6 }) as Uint8Array<ArrayBuffer>;
+}
+
+export function downloadProjectArchive(input: ArchiveInput) {
+  const blob = new Blob([buildProjectArchive(input)], { type: 'application/zip' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${packageName(input.name)}-${input.target}.zip`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
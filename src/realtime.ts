@@ -0,0 +1,66 @@
+import type { SourceFile } from './project';
+
+// Realtime connections a 0x project opens, found by reading its declarations:
+//
+//   realtime ws = subscribe("wss://chat.example.com"):
+//     on message:
+//       ...
+//
+// The preview answers these with a simulated socket driven from the
+// playground, so the page never reaches the real server.
+
+export interface SocketDeclaration {
+  name: string;
+  url: string;
+  // Events the block handles (`message`, `error`, ...).
+  handlers: string[];
+  file: string;
+  line: number;
+}
+
+// One thing that happened on a simulated socket. `sent` is the page calling
+// `send()`; `received` is a message pushed from the playground.
+export interface SocketLog {
+  url: string;
+  kind: 'connecting' | 'open' | 'sent' | 'received' | 'error' | 'close';
+  data?: string;
+  at: number;
+}
+
+export type SocketAction = 'message' | 'error' | 'close';
+
+export type SocketState = 'idle' | 'connecting' | 'open' | 'closed';
+
+const REALTIME = /^(\s*)realtime\s+(\w+)\s*=\s*subscribe\(\s*"([^"]+)"\s*\)/;
+const HANDLER = /^\s+on\s+(\w+)\s*:/;
+
+export function findSockets(files: SourceFile[]): SocketDeclaration[] {
+  const found: SocketDeclaration[] = [];
+  for (const file of files) {
+    const lines = file.source.split('\n');
+    lines.forEach((text, i) => {
+      const match = REALTIME.exec(text);
+      if (!match) return;
+      const indent = match[1].length;
+      const handlers: string[] = [];
+      for (let j = i + 1; j < lines.length; j++) {
+        if (!lines[j].trim()) continue;
+        if (lines[j].length - lines[j].trimStart().length <= indent) break;
+        const handler = HANDLER.exec(lines[j]);
+        if (handler) handlers.push(handler[1]);
+      }
+      found.push({ name: match[2], url: match[3], handlers, file: file.name, line: i + 1 });
+    });
+  }
+  return found;
+}
+
+// The state of the most recent socket for `url`, from a newest-first log.
+export function socketState(log: SocketLog[], url: string): SocketState {
+  for (const event of log) {
+    if (event.url !== url) continue;
+    if (event.kind === 'connecting' || event.kind === 'open') return event.kind;
+    if (event.kind === 'close') return 'closed';
+  }
+  return 'idle';
+}
@@ -0,0 +1,132 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+import { compileOptionsFromParams, normalizeCompileOptions, type CompileOptions } from './compileOptions';
+import { DEFAULT_COMPILER, isCompilerId } from './compilerVersions';
+import { LocalizedError, type MessageKey, type MessageParams } from './i18n';
+import { normalizeFiles, singleFile, type SourceFile } from './project';
+import { isTarget, type Target } from './targets';
+
+// Share links carry the playground state in the URL hash as
+// `#s=<version>.<payload>`, where the payload is deflated JSON in base64url.
+// Bump the version whenever the JSON shape changes incompatibly and teach
+// `decodePayload` to read the older shapes by version.
+//
+// v1: `{ src, target, options, example }` — a single source file.
+// v2: `{ files, active, target, options, example, compiler? }`; links without
+// `compiler` (or naming one this build lacks) use the default release.
+export const SHARE_FORMAT_VERSION = 2;
+
+export interface SharedState {
+  files: SourceFile[];
+  activeFile: string;
+  target: Target;
+  options: CompileOptions;
+  example: string | null;
+  // A CompilerRelease id.
+  compiler: string;
+}
+
+export class ShareLinkError extends LocalizedError {
+  constructor(code: MessageKey, readonly reason: 'corrupt' | 'unsupported-version', params?: MessageParams) {
+    super(code, params);
+    this.name = 'ShareLinkError';
+  }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+export function encodeShareState(state: SharedState): string {
+  const json = JSON.stringify({
+    files: state.files,
+    active: state.activeFile,
+    target: state.target,
+    options: state.options,
+    example: state.example,
+    compiler: state.compiler,
+  });
+  return `s=${SHARE_FORMAT_VERSION}.${toBase64Url(deflateSync(strToU8(json), { level: 9 }))}`;
+}
+
+export function shareUrlFor(state: SharedState): string {
+  return `${window.location.origin}${window.location.pathname}#${encodeShareState(state)}`;
+}
+
+function decodePayload(version: number, payload: string): SharedState {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(strFromU8(inflateSync(fromBase64Url(payload))));
+  } catch {
+    throw new ShareLinkError('error.shareCorrupt', 'corrupt');
+  }
+  if (typeof data !== 'object' || data === null) {
+    throw new ShareLinkError('error.shareNoSource', 'corrupt');
+  }
+  const files = version === 1
+    ? (typeof data.src === 'string' ? singleFile(data.src) : null)
+    : normalizeFiles(data.files);
+  if (!files) throw new ShareLinkError('error.shareNoSource', 'corrupt');
+  return {
+    files,
+    activeFile: files.some(f => f.name === data.active) ? data.active as string : files[0].name,
+    target: isTarget(data.target) ? data.target : 'react',
+    options: normalizeCompileOptions(data.options),
+    example: typeof data.example === 'string' ? data.example : null,
+    compiler: isCompilerId(data.compiler) ? data.compiler : DEFAULT_COMPILER,
+  };
+}
+
+// Reads shared state from the current location. Returns null when the URL
+// carries none; throws ShareLinkError when it carries something unreadable.
+export function decodeShareLocation(location: { hash: string; search: string }): SharedState | null {
+  const shared = new URLSearchParams(location.hash.replace(/^#/, '')).get('s');
+  if (shared !== null) {
+    const match = /^(\d+)\.([\w-]+)$/.exec(shared);
+    if (!match) throw new ShareLinkError('error.shareCorrupt', 'corrupt');
+    const version = Number(match[1]);
+    if (version > SHARE_FORMAT_VERSION) {
+      throw new ShareLinkError('error.shareNewerVersion', 'unsupported-version', {
+        version,
+        supported: SHARE_FORMAT_VERSION,
+      });
+    }
+    return decodePayload(version, match[2]);
+  }
+
+  // Links from before the hash format: `?src=<uri-encoded source>&target=`,
+  // optionally with per-option overrides (see compileOptionsFromParams).
+  const params = new URLSearchParams(location.search);
+  const source = params.get('src');
+  if (source === null) return null;
+  const target = params.get('target');
+  const files = singleFile(source);
+  return {
+    files,
+    activeFile: files[0].name,
+    target: isTarget(target) ? target : 'react',
+    options: compileOptionsFromParams(params),
+    example: null,
+    compiler: DEFAULT_COMPILER,
+  };
+}
+
+// The current URL without its shared state (the `#s=` hash or legacy `?src=`
+// parameters). Once the shared project is open, reloading should restore the
+// autosaved edits to it rather than the link's original.
+export function urlWithoutShare(location: { pathname: string; search: string }): string {
+  const params = new URLSearchParams(location.search);
+  if (params.has('src')) {
+    for (const key of ['src', 'target', 'validate']) params.delete(key);
+  }
+  const search = params.toString();
+  return `${location.pathname}${search ? `?${search}` : ''}`;
+}
@@ -0,0 +1,194 @@
+import { readStored, writeStored } from './storage';
+
+// Playground commands and their keyboard shortcuts. Every command is listed
+// in the command palette; the shortcut map says which key combination, if
+// any, runs it, and can be changed from the cheat sheet.
+
+export type CommandGroup = 'general' | 'target' | 'project' | 'panels';
+
+export type CommandId =
+  | 'palette'
+  | 'shortcuts'
+  | 'examples'
+  | 'target.react'
+  | 'target.vue'
+  | 'target.svelte'
+  | 'format'
+  | 'copyOutput'
+  | 'share'
+  | 'saveSnippet'
+  | 'addFile'
+  | 'download'
+  | 'toggle.snippets'
+  | 'toggle.lessons'
+  | 'toggle.inspect'
+  | 'toggle.mocks'
+  | 'toggle.realtime'
+  | 'toggle.options'
+  | 'toggle.compare'
+  | 'toggle.prettify'
+  | 'report'
+  | 'versions';
+
+export interface Command {
+  id: CommandId;
+  group: CommandGroup;
+}
+
+export const COMMANDS: Command[] = [
+  { id: 'palette', group: 'general' },
+  { id: 'shortcuts', group: 'general' },
+  { id: 'examples', group: 'general' },
+  { id: 'target.react', group: 'target' },
+  { id: 'target.vue', group: 'target' },
+  { id: 'target.svelte', group: 'target' },
+  { id: 'format', group: 'project' },
+  { id: 'copyOutput', group: 'project' },
+  { id: 'share', group: 'project' },
+  { id: 'saveSnippet', group: 'project' },
+  { id: 'addFile', group: 'project' },
+  { id: 'download', group: 'project' },
+  { id: 'toggle.snippets', group: 'panels' },
+  { id: 'toggle.lessons', group: 'panels' },
+  { id: 'toggle.inspect', group: 'panels' },
+  { id: 'toggle.mocks', group: 'panels' },
+  { id: 'toggle.realtime', group: 'panels' },
+  { id: 'toggle.options', group: 'panels' },
+  { id: 'toggle.compare', group: 'panels' },
+  { id: 'toggle.prettify', group: 'panels' },
+  { id: 'report', group: 'panels' },
+  { id: 'versions', group: 'panels' },
+];
+
+export const COMMAND_GROUPS: CommandGroup[] = ['general', 'target', 'project', 'panels'];
+
+// A shortcut is written as modifiers then a key, joined by '+', e.g.
+// "Mod+Shift+E". `Mod` is Cmd on macOS and Ctrl elsewhere; `null` means the
+// command has no shortcut.
+export type ShortcutMap = Record<CommandId, string | null>;
+
+export const DEFAULT_SHORTCUTS: ShortcutMap = {
+  'palette': 'Mod+K',
+  'shortcuts': 'Mod+/',
+  'examples': 'Mod+Shift+E',
+  'target.react': 'Alt+1',
+  'target.vue': 'Alt+2',
+  'target.svelte': 'Alt+3',
+  'format': 'Alt+Shift+F',
+  'copyOutput': 'Alt+Shift+C',
+  'share': 'Alt+Shift+L',
+  'saveSnippet': 'Mod+S',
+  'addFile': null,
+  'download': null,
+  'toggle.snippets': 'Mod+B',
+  'toggle.lessons': null,
+  'toggle.inspect': null,
+  'toggle.mocks': null,
+  'toggle.realtime': null,
+  'toggle.options': null,
+  'toggle.compare': null,
+  'toggle.prettify': null,
+  'report': null,
+  'versions': null,
+};
+
+export const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent);
+
+// Keys named by their physical position, so Alt and Shift (which change
+// `key` on most layouts) don't change the combination.
+const CODE_KEYS: Record<string, string> = {
+  Slash: '/',
+  Backslash: '\\',
+  Comma: ',',
+  Period: '.',
+  Semicolon: ';',
+  Quote: '\'',
+  Backquote: '`',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Minus: '-',
+  Equal: '=',
+  Space: 'Space',
+};
+
+type KeyInput = Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>;
+
+// The combination a key press makes, or null for a lone modifier or one the
+// map can't express (Meta outside macOS).
+export function comboFromEvent(e: KeyInput, mac = IS_MAC): string | null {
+  if (['Control', 'Meta', 'Alt', 'Shift', 'AltGraph'].includes(e.key)) return null;
+  if (!mac && e.metaKey) return null;
+  const key = /^Key[A-Z]$/.test(e.code) ? e.code.slice(3)
+    : /^Digit\d$/.test(e.code) ? e.code.slice(5)
+    : CODE_KEYS[e.code] ?? (e.key.length === 1 ? e.key.toUpperCase() : e.key);
+  const parts: string[] = [];
+  if (mac ? e.metaKey : e.ctrlKey) parts.push('Mod');
+  if (mac && e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  return [...parts, key].join('+');
+}
+
+// Whether a combination uses a modifier other than Shift; bare keys only
+// count outside text fields, where they would otherwise be typed.
+export function hasCommandModifier(combo: string): boolean {
+  return /^(Mod|Ctrl|Alt)\+/.test(combo);
+}
+
+// Keys that move focus, scroll or press the focused control. Taking them
+// without a modifier would break keyboard navigation.
+const NAVIGATION_KEYS = new Set([
+  'Tab', 'Enter', 'Space', 'Escape', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Home', 'End', 'PageUp', 'PageDown',
+]);
+
+// Whether a combination may be used as a shortcut.
+export function isBindable(combo: string): boolean {
+  return hasCommandModifier(combo) || !NAVIGATION_KEYS.has(combo.replace(/^Shift\+/, ''));
+}
+
+const MAC_SYMBOLS: Record<string, string> = { Mod: '⌘', Ctrl: '⌃', Alt: '⌥', Shift: '⇧' };
+
+export function formatCombo(combo: string, mac = IS_MAC): string {
+  const parts = combo.split(/\+(?!$)/);
+  if (mac) return parts.map(p => MAC_SYMBOLS[p] ?? p).join('');
+  return parts.map(p => (p === 'Mod' ? 'Ctrl' : p)).join('+');
+}
+
+// The command a combination runs.
+export function commandForCombo(map: ShortcutMap, combo: string): CommandId | undefined {
+  return COMMANDS.find(c => map[c.id] === combo)?.id;
+}
+
+// `map` with `combo` bound to `id`. A combination runs one command, so any
+// other command that had it loses it.
+export function bindShortcut(map: ShortcutMap, id: CommandId, combo: string | null): ShortcutMap {
+  const next = { ...map };
+  if (combo !== null) {
+    for (const c of COMMANDS) if (next[c.id] === combo) next[c.id] = null;
+  }
+  next[id] = combo;
+  return next;
+}
+
+const SHORTCUTS_KEY = '0x-playground.shortcuts';
+
+// Only changes from the defaults are stored, so new defaults still reach
+// people who customized something else.
+export function loadShortcuts(): ShortcutMap {
+  let map = { ...DEFAULT_SHORTCUTS };
+  const stored = readStored(SHORTCUTS_KEY);
+  if (typeof stored !== 'object' || stored === null) return map;
+  for (const { id } of COMMANDS) {
+    const combo = (stored as Record<string, unknown>)[id];
+    if (combo === null || (typeof combo === 'string' && isBindable(combo))) map = bindShortcut(map, id, combo);
+  }
+  return map;
+}
+
+export function saveShortcuts(map: ShortcutMap) {
+  const changed: Partial<ShortcutMap> = {};
+  for (const { id } of COMMANDS) {
+    if (map[id] !== DEFAULT_SHORTCUTS[id]) changed[id] = map[id];
+  }
+  writeStored(SHORTCUTS_KEY, changed);
+}
@@ -0,0 +1,273 @@
+import { parse } from '0x-lang/parser';
+import type { CompileOptions } from './compileOptions';
+import { LocalizedError } from './i18n';
+import { CONSTRUCT_BY_NAME } from './languageSchema';
+import type { SourceFile } from './project';
+import { tokenRanges } from './sourceHighlight';
+import { TARGETS } from './targets';
+import type { HighlightRange, TokenKind } from './tokenColors';
+import { createCompileSession } from './useCompiler';
+
+// Canonical layout for 0x source: two-space indentation, single spaces
+// between tokens, `name=value` props in schema order, at most one blank line
+// in a row and one between sibling `fn` blocks and top-level declarations.
+// Token boundaries come from `0x-lang/tokenizer`, so the formatter only ever
+// changes whitespace between tokens and the order of props; string literals,
+// comments and any text the tokenizer leaves unaccounted for are copied as-is.
+// Only sources that parse are formatted, and callers still confirm the
+// compiled output is unchanged before applying.
+//
+// Known limits: continuation lines of a bracket that spans lines keep their
+// offset from the line that opened it, and spacing the layout has no rule for
+// (around `=` in code, `?`/`:` in expressions) is collapsed but not added or
+// removed.
+
+export class FormatError extends LocalizedError {}
+
+export interface FormatSourceOptions {
+  // Sort `name=value` props into schema order. Off when the order turns out
+  // to matter to the compiled output.
+  reorderProps: boolean;
+}
+
+const INDENT = '  ';
+// Blocks whose bodies are statements, where `input = ""` is an assignment.
+const CODE_BLOCKS = new Set(['fn', 'on', 'watch', 'mount', 'destroy']);
+const OPENERS = new Set(['(', '[', '{']);
+const CLOSERS = new Set([')', ']', '}']);
+
+// A token on one line, or a run of text the tokenizer did not account for.
+interface Piece {
+  text: string;
+  kind: TokenKind | 'raw';
+  // Whether the source had whitespace before it.
+  spaced: boolean;
+}
+
+// Splits every line into its tokens, in order.
+function linePieces(source: string, lines: string[]): Piece[][] {
+  const byLine = lines.map((): HighlightRange[] => []);
+  for (const range of tokenRanges(source)) byLine[range.line]?.push(range);
+  return lines.map((text, line) => {
+    const pieces: Piece[] = [];
+    let cursor = 0;
+    const loose = (to: number) => {
+      const between = text.slice(cursor, to);
+      if (!between.trim()) return between.length > 0;
+      pieces.push({ text: between.trim(), kind: 'raw', spaced: /^\s/.test(between) });
+      return /\s$/.test(between);
+    };
+    for (const range of byLine[line].sort((a, b) => a.start - b.start)) {
+      // Recovered comments can overlap a string that contains `// `.
+      if (range.start < cursor) continue;
+      const spaced = loose(range.start);
+      const token = text.slice(range.start, range.end);
+      pieces.push({ text: token.trim(), kind: range.kind, spaced: spaced || /^\s/.test(token) });
+      cursor = range.end;
+    }
+    loose(text.length);
+    return pieces;
+  });
+}
+
+// Net change in bracket depth across `pieces`.
+function bracketDelta(pieces: Piece[]): number {
+  let delta = 0;
+  for (const p of pieces) {
+    if (p.kind !== 'operator') continue;
+    if (OPENERS.has(p.text)) delta++;
+    else if (CLOSERS.has(p.text)) delta--;
+  }
+  return delta;
+}
+
+function isInfix(piece: Piece): boolean {
+  return piece.kind === 'operator' && !OPENERS.has(piece.text) && !CLOSERS.has(piece.text);
+}
+
+// `name=value`: a word followed by `=`.
+function isProp(arg: Piece[]): boolean {
+  return /^[\w$]+$/.test(arg[0].text) && arg[0].kind !== 'string' && arg[1]?.text === '=';
+}
+
+// Splits an element head into its arguments. Whitespace at bracket depth 0
+// separates them unless an operator sits on either side (`value=a + b`).
+function splitArguments(pieces: Piece[]): Piece[][] {
+  const args: Piece[][] = [];
+  let depth = 0;
+  pieces.forEach((piece, i) => {
+    if (i === 0 || (depth === 0 && piece.spaced && !isInfix(pieces[i - 1]) && !isInfix(piece))) args.push([]);
+    args[args.length - 1].push(piece);
+    depth += bracketDelta([piece]);
+  });
+  return args;
+}
+
+// Puts an element line's props into the order the schema lists them. Props
+// keep the slots they occupied, so positional arguments and flags like
+// `bold` stay where they were.
+function reorderProps(args: Piece[][], element: string): Piece[][] {
+  const order = CONSTRUCT_BY_NAME.get(element)?.props ?? [];
+  const rank = (arg: Piece[]) => {
+    const i = order.indexOf(arg[0].text);
+    return i === -1 ? order.length : i;
+  };
+  const slots = args.flatMap((arg, i) => (isProp(arg) ? [i] : []));
+  const sorted = slots.map(i => args[i]).sort((a, b) => rank(a) - rank(b));
+  const out = [...args];
+  slots.forEach((slot, i) => (out[slot] = sorted[i]));
+  return out;
+}
+
+// Joins pieces with the canonical spacing. Pairs without a rule keep
+// whether the source separated them.
+function join(pieces: Piece[]): string {
+  let last = pieces.length - 1;
+  while (last > 0 && pieces[last].kind === 'comment') last--;
+  let out = pieces[0]?.text ?? '';
+  for (let i = 1; i < pieces.length; i++) {
+    const prev = pieces[i - 1].text;
+    const next = pieces[i];
+    const space = next.kind === 'comment' || prev === ',' || prev === '->' || next.text === '->' ? true
+      : next.text === ',' || next.text === ')' || next.text === ']' || prev === '(' || prev === '[' ? false
+      : next.text === ':' && i === last ? false
+      : next.spaced;
+    out += (space ? ' ' : '') + next.text;
+  }
+  return out;
+}
+
+// Lays out one line's pieces. `render` lines may be elements, whose props are
+// normalized too.
+function formatLine(pieces: Piece[], render: boolean, options: FormatSourceOptions): string {
+  const keyword = pieces[0]?.text ?? '';
+  const construct = CONSTRUCT_BY_NAME.get(keyword);
+  if (!render || !construct || (construct.kind !== 'element' && keyword !== 'layout')) return join(pieces);
+
+  const arrow = pieces.findIndex(p => p.text === '->');
+  let head = arrow === -1 ? pieces : pieces.slice(0, arrow);
+  const tail = arrow === -1 ? [] : pieces.slice(arrow);
+  const colon = head.length > 1 && head[head.length - 1].text === ':' && bracketDelta(head) === 0;
+  if (colon) head = head.slice(0, -1);
+  // `gap = 16` → `gap=16`; `==` and friends are separate tokens.
+  head = head.map((p, i) =>
+    (i > 0 && isProp(head.slice(i - 1, i + 1))) || (i > 1 && isProp(head.slice(i - 2, i))) ? { ...p, spaced: false } : p);
+  let args = splitArguments(head);
+  if (options.reorderProps) args = [args[0], ...reorderProps(args.slice(1), keyword)];
+  const ordered = args.flatMap((arg, i) => arg.map((p, j) => (j === 0 && i > 0 ? { ...p, spaced: true } : p)));
+  return join([...ordered, ...(colon ? [{ text: ':', kind: 'operator' as const, spaced: false }] : []), ...tail]);
+}
+
+function indentWidth(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+export function formatSource(source: string, options: FormatSourceOptions = { reorderProps: true }): string {
+  const normalized = source.replace(/\r\n?/g, '\n');
+  const lines = normalized.split('\n');
+  let pieces: Piece[][];
+  try {
+    parse(normalized);
+    pieces = linePieces(normalized, lines);
+  } catch (e) {
+    throw new FormatError('error.formatSyntax', { message: e instanceof Error ? e.message : String(e) });
+  }
+
+  const out: string[] = [];
+  // Raw indentation widths of the open blocks; index = depth.
+  let stack = [0];
+  // Keyword of the last line emitted at each depth, for blank-line rules.
+  const lastAt: string[] = [];
+  // Inside a bracket that spans lines: the opener's raw and new indent.
+  let open = 0;
+  let opener = { raw: 0, indent: 0 };
+  let pendingBlank = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    if (!line) {
+      pendingBlank = out.length > 0;
+      continue;
+    }
+    const width = indentWidth(line);
+
+    if (open > 0) {
+      // Continuation lines keep their offset from the line that opened them.
+      out.push(' '.repeat(Math.max(opener.indent + width - opener.raw, 0)) + formatLine(pieces[i], false, options));
+      open += bracketDelta(pieces[i]);
+      pendingBlank = false;
+      continue;
+    }
+
+    // Comments sit at the depth of whatever follows them and never open a block.
+    const comment = line.trimStart().startsWith('//');
+    const next = comment ? lines.slice(i + 1).find(l => l.trim() && !l.trim().startsWith('//')) : undefined;
+    const reference = comment ? (next ? indentWidth(next) : 0) : width;
+    const levels = [...stack];
+    while (levels.length > 1 && levels[levels.length - 1] > reference) levels.pop();
+    if (levels[levels.length - 1] < reference) levels.push(reference);
+    const depth = levels.length - 1;
+    if (!comment) stack = levels;
+    const body = formatLine(pieces[i], !lastAt.slice(0, depth).some(k => CODE_BLOCKS.has(k)), options);
+
+    const keyword = /^(\w+)/.exec(next?.trim() ?? body)?.[1] ?? '';
+    const previous = out[out.length - 1];
+    const afterOpener = previous !== undefined && previous.endsWith(':') && indentWidth(previous) < depth * INDENT.length;
+    const sibling = lastAt[depth];
+    const separate = !previous?.trimStart().startsWith('//') &&
+      ((depth === 0 && sibling !== undefined) || (keyword === 'fn' && sibling === 'fn'));
+    if (previous !== undefined && !afterOpener && (pendingBlank || separate)) out.push('');
+    pendingBlank = false;
+
+    const indent = INDENT.repeat(depth);
+    out.push(indent + body);
+    lastAt.length = Math.min(lastAt.length, depth + 1);
+    if (!comment) lastAt[depth] = keyword;
+
+    open = bracketDelta(pieces[i]);
+    if (open > 0) opener = { raw: width, indent: indent.length };
+  }
+
+  const formatted = out.join('\n') + '\n';
+  try {
+    parse(formatted);
+  } catch (e) {
+    throw new FormatError('error.formatUnparsable', { message: e instanceof Error ? e.message : String(e) });
+  }
+  return formatted;
+}
+
+// Formats file `name` of a project, returning the new source only if every
+// target compiles it to exactly the same code as before. Prop reordering is
+// dropped first if it is what changed the output.
+export async function formatProjectFile(
+  files: SourceFile[],
+  name: string,
+  options: CompileOptions,
+  compiler: string,
+): Promise<string> {
+  const file = files.find(f => f.name === name);
+  if (!file) throw new FormatError('error.formatNoFile', { name });
+  const session = createCompileSession();
+  const outputs = async (source: string) => {
+    const project = files.map(f => (f.name === name ? { ...f, source } : f));
+    const codes: string[] = [];
+    for (const target of TARGETS) {
+      const result = (await session.compile(project, target, options, compiler)).results.find(r => r.name === name);
+      if (!result?.ok) return null;
+      codes.push(result.code);
+    }
+    return codes.join('\0');
+  };
+  try {
+    const before = await outputs(file.source);
+    if (before === null) throw new FormatError('error.formatCompile');
+    for (const reorderProps of [true, false]) {
+      const formatted = formatSource(file.source, { reorderProps });
+      if (formatted === file.source || (await outputs(formatted)) === before) return formatted;
+    }
+    throw new FormatError('error.formatChangesOutput');
+  } finally {
+    session.close();
+  }
+}
@@ -0,0 +1,132 @@
+import { tokenize } from '0x-lang/tokenizer';
+import type { HighlightRange, TokenKind } from './tokenColors';
+
+export const KEYWORDS = new Set([
+  'page', 'component', 'model', 'type', 'prop', 'state', 'derived', 'fn', 'layout',
+  'watch', 'on', 'mount', 'destroy', 'api', 'data', 'check', 'if', 'elif', 'else',
+  'for', 'in', 'return', 'await', 'style', 'auth', 'route', 'guard', 'roles',
+  'realtime', 'form', 'field', 'submit', 'validate', 'permission', 'crud', 'import',
+  'GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'true', 'false', 'null',
+]);
+
+export const ELEMENTS = new Set([
+  'text', 'button', 'input', 'toggle', 'select', 'image', 'link', 'table', 'chart',
+  'stat', 'stats', 'modal', 'upload', 'toast', 'nav', 'hero', 'seo', 'breadcrumb',
+  'animate', 'mobile', 'drawer', 'search', 'social', 'pay', 'media', 'confirm',
+  'columns', 'column', 'actions', 'features', 'textarea', 'checkbox', 'radio',
+  'slider', 'icon', 'divider', 'spacer', 'row', 'col', 'grid', 'stack',
+]);
+
+export const TYPES = new Set(['int', 'float', 'str', 'bool', 'datetime', 'list', 'map', 'any']);
+
+interface RawToken {
+  type?: unknown;
+  value?: unknown;
+  line?: unknown;
+  column?: unknown;
+}
+
+function kindOf(type: string, value: string, next: string | undefined): TokenKind {
+  const t = type.toUpperCase();
+  if (t.includes('COMMENT')) return 'comment';
+  if (t.includes('STRING')) return 'string';
+  if (t.includes('NUMBER') || t.includes('INT') || t.includes('FLOAT')) return 'number';
+  if (t.includes('COLOR') || /^#[0-9a-f]{3,8}$/i.test(value)) return 'color';
+  if (/^[\w$]+$/.test(value)) {
+    if (KEYWORDS.has(value)) return 'keyword';
+    if (TYPES.has(value)) return 'type';
+    if (next === '=') return 'prop';
+    if (next === '(') return 'function';
+    if (ELEMENTS.has(value)) return 'element';
+    if (/^\d/.test(value)) return 'number';
+    return 'identifier';
+  }
+  return /^[^\w\s"']+$/.test(value) ? 'operator' : 'plain';
+}
+
+// Locates a token's text on its line. Tokenizers disagree on 0- vs 1-based
+// columns and usually strip quotes from string values, so the column is only
+// a hint and the search falls back to scanning forward from the last match.
+function locate(text: string, value: string, isString: boolean, column: number | undefined, from: number): [number, number] | null {
+  for (const hint of column === undefined ? [] : [column - 1, column]) {
+    if (hint < from) continue;
+    if (isString && (text[hint] === '"' || text[hint] === "'")) {
+      const close = text.indexOf(text[hint], hint + 1);
+      return [hint, close === -1 ? text.length : close + 1];
+    }
+    if (value && text.startsWith(value, hint)) return [hint, hint + value.length];
+  }
+  if (isString) {
+    const open = text.slice(from).search(/["']/);
+    if (open !== -1) {
+      const start = from + open;
+      const close = text.indexOf(text[start], start + 1);
+      return [start, close === -1 ? text.length : close + 1];
+    }
+  }
+  if (!value) return null;
+  const idx = text.indexOf(value, from);
+  return idx === -1 ? null : [idx, idx + value.length];
+}
+
+function fromTokens(lines: string[], tokens: RawToken[]): HighlightRange[] {
+  const ranges: HighlightRange[] = [];
+  const cursor = new Map<number, number>();
+  const meaningful = tokens.filter(t => typeof t.line === 'number' && typeof t.value === 'string' && t.value.trim() !== '');
+
+  meaningful.forEach((token, i) => {
+    const line = (token.line as number) - 1;
+    const text = lines[line];
+    if (text === undefined) return;
+    const value = token.value as string;
+    const type = String(token.type ?? '');
+    const isString = type.toUpperCase().includes('STRING');
+    const next = meaningful[i + 1]?.line === token.line ? meaningful[i + 1].value as string : undefined;
+    const span = locate(text, value, isString, typeof token.column === 'number' ? token.column : undefined, cursor.get(line) ?? 0);
+    if (!span) return;
+    cursor.set(line, span[1]);
+    ranges.push({ line, start: span[0], end: span[1], kind: kindOf(type, value, next) });
+  });
+
+  // Comments are usually dropped by the tokenizer; recover them per line.
+  lines.forEach((text, line) => {
+    const hash = text.search(/(^|\s)\/\/ /);
+    if (hash !== -1) ranges.push({ line, start: hash, end: text.length, kind: 'comment' });
+  });
+  return ranges;
+}
+
+const FALLBACK_LEXER = /("(?:[^"\\]|\\.)*"?|'(?:[^'\\]|\\.)*'?)|(#[0-9a-fA-F]{3,8}\b)|(\b\d+(?:\.\d+)?\w*)|([A-Za-z_$][\w$]*)|(->|=>|[=!<>]=|&&|\|\||[-+*/%=<>!?:.,()[\]{}])/g;
+
+// Used while the buffer is mid-edit and the tokenizer rejects it, so colours
+// do not flicker away on every unterminated string.
+function fromRegex(lines: string[]): HighlightRange[] {
+  const ranges: HighlightRange[] = [];
+  lines.forEach((text, line) => {
+    for (const m of text.matchAll(FALLBACK_LEXER)) {
+      const start = m.index!;
+      const end = start + m[0].length;
+      const rest = text.slice(end).trimStart();
+      const kind: TokenKind = m[1] ? 'string'
+        : m[2] ? 'color'
+        : m[3] ? 'number'
+        : m[4] ? kindOf('IDENTIFIER', m[4], rest[0] === '=' && rest[1] !== '=' ? '=' : rest[0])
+        : 'operator';
+      ranges.push({ line, start, end, kind });
+    }
+  });
+  return ranges;
+}
+
+// Token spans straight from the tokenizer; throws where it rejects the source.
+export function tokenRanges(source: string): HighlightRange[] {
+  return fromTokens(source.split('\n'), tokenize(source) as RawToken[]);
+}
+
+export function highlightSource(source: string): HighlightRange[] {
+  try {
+    return tokenRanges(source);
+  } catch {
+    return fromRegex(source.split('\n'));
+  }
+}
@@ -0,0 +1,65 @@
+import { alignOutput } from './alignment';
+import type { Target } from './targets';
+
+// Line-range mapping between a 0x source file and its generated output. The
+// compiler does not emit source maps, so ranges are derived from the
+// construct anchors: a construct's output runs from its anchor to the next
+// anchor at the same or an outer level.
+
+export interface LineRange {
+  // 0-based, inclusive.
+  start: number;
+  end: number;
+}
+
+export interface Mapping {
+  label: string;
+  level: number;
+  source: LineRange;
+  output: LineRange;
+}
+
+export function buildMappings(source: string, output: string, target: Target): Mapping[] {
+  const lines = output.split('\n');
+  const anchors = alignOutput(source, output, target);
+  const mappings: Mapping[] = [];
+  anchors.forEach((anchor, i) => {
+    const parent = [...mappings].reverse().find(m => m.level < anchor.level);
+    const next = anchors.slice(i + 1).find(a => a.level <= anchor.level);
+    let end = parent ? parent.output.end : lines.length - 1;
+    if (next && next.outputLine - 1 < end) {
+      end = next.outputLine - 1;
+    } else if (anchor.level >= 2) {
+      // The last element of a layout is followed by closing tags that belong
+      // to its parent; assume it spans as many lines as its source.
+      end = Math.min(end, anchor.outputLine + anchor.sourceEnd - anchor.sourceLine);
+    }
+    while (end > anchor.outputLine && !lines[end].trim()) end--;
+    mappings.push({
+      label: anchor.label,
+      level: anchor.level,
+      source: { start: anchor.sourceLine, end: anchor.sourceEnd },
+      output: { start: anchor.outputLine, end: Math.max(end, anchor.outputLine) },
+    });
+  });
+  return mappings;
+}
+
+function innermost(mappings: Mapping[], line: number, side: 'source' | 'output'): Mapping | null {
+  let found: Mapping | null = null;
+  for (const m of mappings) {
+    const range = m[side];
+    if (line < range.start || line > range.end) continue;
+    if (!found || m.level >= found.level) found = m;
+  }
+  return found;
+}
+
+// The most specific construct covering a source line, with its output range.
+export function mappingForSourceLine(mappings: Mapping[], line: number): Mapping | null {
+  return innermost(mappings, line, 'source');
+}
+
+export function mappingForOutputLine(mappings: Mapping[], line: number): Mapping | null {
+  return innermost(mappings, line, 'output');
+}
@@ -0,0 +1,20 @@
+// Settings remembered per browser, as JSON in localStorage. Storage can be
+// blocked or full; reads then come back empty and writes are dropped, so a
+// setting simply doesn't persist.
+
+export function readStored(key: string): unknown {
+  try {
+    const text = localStorage.getItem(key);
+    return text === null ? undefined : JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+export function writeStored(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Nothing to do: the setting lasts for this page only.
+  }
+}
@@ -0,0 +1,19 @@
+export type Target = 'react' | 'vue' | 'svelte';
+
+export const TARGET_LABELS: Record<Target, string> = {
+  react: 'React',
+  vue: 'Vue 3',
+  svelte: 'Svelte 5',
+};
+
+export const TARGET_EXT: Record<Target, string> = {
+  react: '.jsx',
+  vue: '.vue',
+  svelte: '.svelte',
+};
+
+export const TARGETS = Object.keys(TARGET_LABELS) as Target[];
+
+export function isTarget(value: unknown): value is Target {
+  return typeof value === 'string' && Object.hasOwn(TARGET_LABELS, value);
+}
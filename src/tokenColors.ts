@@ -0,0 +1,37 @@
+export type TokenKind =
+  | 'keyword'
+  | 'element'
+  | 'type'
+  | 'string'
+  | 'number'
+  | 'color'
+  | 'comment'
+  | 'operator'
+  | 'prop'
+  | 'function'
+  | 'identifier'
+  | 'plain';
+
+export interface HighlightRange {
+  // 0-based line and [start, end) character offsets within it.
+  line: number;
+  start: number;
+  end: number;
+  kind: TokenKind;
+}
+
+// GitHub dark palette, shared by the source editor and the output viewer.
+export const TOKEN_COLORS: Record<TokenKind, string> = {
+  keyword: '#ff7b72',
+  element: '#d2a8ff',
+  type: '#ffa657',
+  string: '#a5d6ff',
+  number: '#79c0ff',
+  color: '#a5d6ff',
+  comment: '#8b949e',
+  operator: '#ff7b72',
+  prop: '#79c0ff',
+  function: '#d2a8ff',
+  identifier: '#e6edf3',
+  plain: '#e6edf3',
+};
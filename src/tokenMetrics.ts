@@ -0,0 +1,98 @@
+import { tokenize } from '0x-lang/tokenizer';
+
+// Size metrics for comparing 0x source with generated code. Both sides are
+// always measured with the same counter; mixing counters (say, whitespace
+// words for the source and the compiler's own count for the output) makes
+// the savings figure meaningless.
+//
+// - `bpe`: tokens as an LLM sees them, using the o200k_base encoding bundled
+//   with gpt-tokenizer. Loaded on first use; it is a large module.
+// - `lexical`: identifiers, numbers, strings and punctuation from one
+//   language-neutral lexer. Cheap, and the fallback if BPE fails to load.
+//
+// The editor's counts are taken in the compile worker and come back with
+// each FileResult, so typing never waits on the BPE encoder.
+
+export type TokenMethod = 'bpe' | 'lexical';
+
+// Labels are the `tokenMethod.<method>` i18n messages.
+export const TOKEN_METHODS: TokenMethod[] = ['bpe', 'lexical'];
+
+export type TokenCounter = (text: string) => number;
+
+export interface SideMetrics {
+  // Non-blank lines.
+  lines: number;
+  tokens: number;
+}
+
+export interface Metrics {
+  method: TokenMethod;
+  source: SideMetrics;
+  output: SideMetrics;
+  // Share of output tokens the source saves, in percent; negative when the
+  // source is the larger of the two. Null when there is no output to compare.
+  savings: number | null;
+}
+
+const LEXICAL = /"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?|`(?:[^`\\]|\\.)*`?|\d+(?:\.\d+)?|[A-Za-z_$][\w$]*|=>|->|[=!<>]=+|&&|\|\||\?\?|\.\.\.|[^\s\w]/g;
+
+export function countLexical(text: string): number {
+  return text.match(LEXICAL)?.length ?? 0;
+}
+
+export function countLines(text: string): number {
+  return text.split('\n').filter(l => l.trim()).length;
+}
+
+// The 0x tokenizer's own count, including layout tokens. Only meaningful for
+// 0x source, so it is reported next to the comparable metrics, never in them.
+export function countZeroXTokens(source: string): number | null {
+  try {
+    return tokenize(source).length;
+  } catch {
+    return null;
+  }
+}
+
+let bpe: Promise<TokenCounter> | null = null;
+
+export function loadBpeCounter(): Promise<TokenCounter> {
+  if (!bpe) {
+    bpe = import('gpt-tokenizer/encoding/o200k_base').then(m => (text: string) => m.countTokens(text));
+    bpe.catch(() => {
+      bpe = null;
+    });
+  }
+  return bpe;
+}
+
+export function savingsPercent(sourceTokens: number, outputTokens: number): number | null {
+  if (outputTokens <= 0) return null;
+  return Math.round((1 - sourceTokens / outputTokens) * 100);
+}
+
+// The counter for `method`, or the lexical one (labelled as such) if the
+// BPE encoding fails to load.
+export async function tokenCounter(method: TokenMethod): Promise<{ method: TokenMethod; count: TokenCounter }> {
+  if (method === 'bpe') {
+    try {
+      return { method, count: await loadBpeCounter() };
+    } catch {
+      // Fall through to lexical.
+    }
+  }
+  return { method: 'lexical', count: countLexical };
+}
+
+export function sideMetrics(text: string, count: TokenCounter): SideMetrics {
+  return { lines: countLines(text), tokens: count(text) };
+}
+
+export function compareSides(method: TokenMethod, source: SideMetrics, output: SideMetrics): Metrics {
+  return { method, source, output, savings: savingsPercent(source.tokens, output.tokens) };
+}
+
+export function measure(source: string, output: string, method: TokenMethod, count: TokenCounter): Metrics {
+  return compareSides(method, sideMetrics(source, count), sideMetrics(output, count));
+}
@@ -0,0 +1,147 @@
+import { useEffect, useRef, useState } from 'react';
+import type { CompileOptions } from './compileOptions';
+import { localizedProblem, type CompileRequest, type CompileResponse } from './compilerProtocol';
+import { DEFAULT_COMPILER } from './compilerVersions';
+import { LocalizedError } from './i18n';
+import type { SourceFile } from './project';
+import type { Target } from './targets';
+import { countLexical, sideMetrics, type TokenMethod } from './tokenMetrics';
+
+const DEBOUNCE_MS = 200;
+const TIMEOUT_MS = 5000;
+
+export interface CompileOutcome {
+  // The files the response was compiled from, for mapping diagnostics.
+  files: SourceFile[];
+  target: Target;
+  response: CompileResponse;
+}
+
+function spawnWorker(): Worker {
+  return new Worker(new URL('./compile.worker.ts', import.meta.url), { type: 'module' });
+}
+
+// One-off compiles outside the editing loop (e.g. batch reports). Requests
+// are answered in order by a single worker, which is replaced if a compile
+// times out; `close` terminates it.
+export function createCompileSession() {
+  let worker: Worker | null = null;
+  let nextRequest = 0;
+  const waiting = new Map<number, (response: CompileResponse) => void>();
+
+  const ensureWorker = () => {
+    if (worker) return worker;
+    worker = spawnWorker();
+    worker.onmessage = (event: MessageEvent<CompileResponse>) => {
+      waiting.get(event.data.id)?.(event.data);
+      waiting.delete(event.data.id);
+    };
+    return worker;
+  };
+
+  const compile = (
+    files: SourceFile[],
+    target: Target,
+    options: CompileOptions,
+    compiler = DEFAULT_COMPILER,
+    tokenMethod: TokenMethod = 'lexical',
+  ) =>
+    new Promise<CompileResponse>((resolve, reject) => {
+      const request: CompileRequest = { id: ++nextRequest, files, target, options, compiler, tokenMethod };
+      const timer = setTimeout(() => {
+        waiting.delete(request.id);
+        worker?.terminate();
+        worker = null;
+        reject(new LocalizedError('error.compileTimedOut', { seconds: TIMEOUT_MS / 1000 }));
+      }, TIMEOUT_MS);
+      waiting.set(request.id, response => {
+        clearTimeout(timer);
+        resolve(response);
+      });
+      ensureWorker().postMessage(request);
+    });
+
+  return { compile, close: () => worker?.terminate() };
+}
+
+// Compiles every file of a project off the main thread. Edits are debounced, results for
+// anything but the newest request are dropped, and a compile that is still
+// running when a newer one arrives (or that exceeds the timeout) is cancelled
+// by replacing the worker.
+export function useCompiler(
+  files: SourceFile[],
+  target: Target,
+  options: CompileOptions,
+  compiler = DEFAULT_COMPILER,
+  tokenMethod: TokenMethod = 'lexical',
+) {
+  const [outcome, setOutcome] = useState<CompileOutcome | null>(null);
+  const [compiling, setCompiling] = useState(false);
+
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<{ id: number; files: SourceFile[]; target: Target } | null>(null);
+  const nextId = useRef(0);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const lastFiles = useRef<SourceFile[] | null>(null);
+
+  const handleMessage = (event: MessageEvent<CompileResponse>) => {
+    const pending = pendingRef.current;
+    if (!pending || event.data.id !== pending.id) return;
+    clearTimeout(timeoutRef.current);
+    pendingRef.current = null;
+    setOutcome({ files: pending.files, target: pending.target, response: event.data });
+    setCompiling(false);
+  };
+
+  const resetWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = spawnWorker();
+    workerRef.current.onmessage = handleMessage;
+  };
+
+  const send = (fs: SourceFile[], tgt: Target, opts: CompileOptions, release: string, method: TokenMethod) => {
+    if (!workerRef.current || pendingRef.current) resetWorker();
+    const request: CompileRequest = { id: ++nextId.current, files: fs, target: tgt, options: opts, compiler: release, tokenMethod: method };
+    pendingRef.current = { id: request.id, files: fs, target: tgt };
+    setCompiling(true);
+    workerRef.current!.postMessage(request);
+
+    clearTimeout(timeoutRef.current);
+    timeoutRef.current = setTimeout(() => {
+      if (pendingRef.current?.id !== request.id) return;
+      pendingRef.current = null;
+      resetWorker();
+      const error = localizedProblem('error.compileCancelled', { seconds: TIMEOUT_MS / 1000 });
+      setOutcome({
+        files: fs,
+        target: tgt,
+        response: {
+          id: request.id,
+          // The worker never answered, so the source is counted here, cheaply.
+          results: fs.map(f => ({ name: f.name, ok: false, error, warnings: [], sourceSize: sideMetrics(f.source, countLexical) })),
+          durationMs: TIMEOUT_MS,
+          tokenMethod: 'lexical',
+        },
+      });
+      setCompiling(false);
+    }, TIMEOUT_MS);
+  };
+
+  useEffect(() => {
+    // Only typing is debounced; switching targets, options, compilers or
+    // token methods compiles right away.
+    const delay = lastFiles.current === null || lastFiles.current === files ? 0 : DEBOUNCE_MS;
+    lastFiles.current = files;
+    const timer = setTimeout(() => send(files, target, options, compiler, tokenMethod), delay);
+    return () => clearTimeout(timer);
+  }, [files, target, options, compiler, tokenMethod]);
+
+  useEffect(() => () => {
+    clearTimeout(timeoutRef.current);
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    pendingRef.current = null;
+  }, []);
+
+  return { outcome, compiling };
+}
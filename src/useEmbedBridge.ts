@@ -0,0 +1,90 @@
+import { useEffect, useRef } from 'react';
+import type { Diagnostic } from './diagnostics';
+import {
+  commandFiles,
+  envelope,
+  parseEmbedCommand,
+  type EmbedConfig,
+  type EmbedEvent,
+  type EmbedFileOutput,
+} from './embedProtocol';
+import { outputFileName, type SourceFile } from './project';
+import { TARGETS, type Target } from './targets';
+
+export interface EmbedSnapshot {
+  files: SourceFile[];
+  activeFile: string;
+  target: Target;
+  // The latest compile: outputs by source file name and the files that failed.
+  compiledTarget: Target;
+  outputs: Record<string, { code: string }>;
+  stale: string[];
+  diagnostics: Diagnostic[];
+}
+
+export interface EmbedHandlers {
+  openFiles(files: SourceFile[], activeFile: string): void;
+  setTarget(target: Target): void;
+}
+
+// Connects an embedded playground to its host page (see embedProtocol).
+// Does nothing outside embed mode, when the page is not framed, or when the
+// configured host origin is invalid.
+export function useEmbedBridge(config: EmbedConfig | null, snapshot: EmbedSnapshot, handlers: EmbedHandlers) {
+  const framed = config !== null && config.hostOrigin !== null && window.parent !== window;
+  const latest = useRef({ snapshot, handlers });
+  latest.current = { snapshot, handlers };
+  // Files a command put in place, so the change they cause isn't reported
+  // back as an edit.
+  const hostFiles = useRef<SourceFile[] | null>(null);
+  const firstFiles = useRef(snapshot.files);
+
+  const post = (event: EmbedEvent, replyTo?: number) => {
+    if (framed) window.parent.postMessage(envelope(event, replyTo), config!.hostOrigin!);
+  };
+
+  useEffect(() => {
+    if (!framed) return;
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent) return;
+      if (config!.hostOrigin !== '*' && event.origin !== config!.hostOrigin) return;
+      const parsed = parseEmbedCommand(event.data);
+      if (!parsed) return;
+      if (!parsed.ok) {
+        post({ type: 'error', message: parsed.error }, parsed.id);
+        return;
+      }
+      const { command } = parsed;
+      const { snapshot: current, handlers: actions } = latest.current;
+      if (command.type === 'set-source' || command.type === 'set-files') {
+        const files = commandFiles(command);
+        hostFiles.current = files;
+        actions.openFiles(files, (command.type === 'set-files' && command.activeFile) || files[0].name);
+      } else if (command.type === 'set-target') {
+        actions.setTarget(command.target);
+      } else {
+        post({ type: 'state', files: current.files, activeFile: current.activeFile, target: current.target }, parsed.id);
+      }
+    };
+    window.addEventListener('message', onMessage);
+    post({ type: 'ready', targets: TARGETS, readOnly: config!.readOnly });
+    return () => window.removeEventListener('message', onMessage);
+  }, [framed]);
+
+  useEffect(() => {
+    if (snapshot.files === firstFiles.current || snapshot.files === hostFiles.current) return;
+    post({ type: 'change', files: snapshot.files, activeFile: snapshot.activeFile });
+  }, [snapshot.files]);
+
+  useEffect(() => {
+    const { compiledTarget, outputs, stale } = snapshot;
+    if (Object.keys(outputs).length === 0 && stale.length === 0) return;
+    const files: EmbedFileOutput[] = snapshot.files.map(f => ({
+      name: f.name,
+      outputName: outputFileName(f.name, compiledTarget),
+      ok: f.name in outputs && !stale.includes(f.name),
+      code: outputs[f.name]?.code ?? null,
+    }));
+    post({ type: 'compiled', target: compiledTarget, outputs: files, diagnostics: snapshot.diagnostics });
+  }, [snapshot.outputs, snapshot.stale, snapshot.diagnostics]);
+}
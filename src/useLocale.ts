@@ -0,0 +1,30 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { loadLocale, saveLocale, translate, type Locale, type MessageKey, type MessageParams } from './i18n';
+
+// The UI language is one value shared by every component, so it lives in a
+// tiny store rather than being passed down through props.
+let current = loadLocale();
+const listeners = new Set<() => void>();
+
+document.documentElement.lang = current;
+
+export function setLocale(locale: Locale) {
+  if (locale === current) return;
+  current = locale;
+  saveLocale(locale);
+  document.documentElement.lang = locale;
+  for (const listener of listeners) listener();
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export function useLocale(): { locale: Locale; setLocale: typeof setLocale; t: Translate } {
+  const locale = useSyncExternalStore(subscribe, () => current);
+  const t = useCallback<Translate>((key, params) => translate(locale, key, params), [locale]);
+  return { locale, setLocale, t };
+}
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useState } from 'react';
+import { errorMessage } from './i18n';
+import { useLocale } from './useLocale';
+import {
+  deleteSnippet,
+  exportWorkspace,
+  importWorkspace,
+  listSnippets,
+  newSnippet,
+  putSnippet,
+  saveAutosave,
+  type Autosave,
+  type Snippet,
+} from './workspace';
+
+const AUTOSAVE_MS = 500;
+
+// Snippet CRUD plus autosave of the editor state. The buffer is written
+// shortly after it stops changing, and while a snippet is open its record is
+// kept in sync too, so snippets behave like files. Nothing is written until
+// `autosaveEnabled`, so restoring the last session can finish first.
+export function useWorkspace(current: Omit<Autosave, 'savedAt'>, autosaveEnabled: boolean) {
+  const [snippets, setSnippets] = useState<Snippet[]>([]);
+  const { locale, t } = useLocale();
+  // The thrown value, translated when read so it follows the UI language.
+  const [failure, setFailure] = useState<unknown>(null);
+
+  const refresh = useCallback(() => listSnippets().then(setSnippets, setFailure), []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const { files, activeFile, target, options, compiler, example, snippetId } = current;
+  useEffect(() => {
+    if (!autosaveEnabled) return;
+    const timer = setTimeout(async () => {
+      try {
+        await saveAutosave({ files, activeFile, target, options, compiler, example, snippetId, savedAt: Date.now() });
+        const snippet = snippetId ? (await listSnippets()).find(s => s.id === snippetId) : undefined;
+        if (snippet && (snippet.activeFile !== activeFile || snippet.target !== target || snippet.compiler !== compiler ||
+          JSON.stringify(snippet.files) !== JSON.stringify(files) ||
+          JSON.stringify(snippet.options) !== JSON.stringify(options))) {
+          await putSnippet({ ...snippet, files, activeFile, target, options, compiler, updatedAt: Date.now() });
+          await refresh();
+        }
+      } catch (e) {
+        setFailure(e);
+      }
+    }, AUTOSAVE_MS);
+    return () => clearTimeout(timer);
+  }, [files, activeFile, target, options, compiler, example, snippetId, autosaveEnabled, refresh]);
+
+  const guard = async <T,>(action: () => Promise<T>): Promise<T | undefined> => {
+    try {
+      const result = await action();
+      await refresh();
+      return result;
+    } catch (e) {
+      setFailure(e);
+      return undefined;
+    }
+  };
+
+  const create = (fields: Pick<Snippet, 'files' | 'activeFile' | 'target' | 'options' | 'compiler'>) =>
+    guard(async () => {
+      const taken = new Set(snippets.map(s => s.name));
+      let n = 1;
+      while (taken.has(t('snippets.untitled', { n }))) n++;
+      const snippet = newSnippet(t('snippets.untitled', { n }), fields);
+      await putSnippet(snippet);
+      return snippet;
+    });
+
+  const rename = (id: string, name: string) =>
+    guard(async () => {
+      const snippet = snippets.find(s => s.id === id);
+      if (snippet && name.trim()) await putSnippet({ ...snippet, name: name.trim(), updatedAt: Date.now() });
+    });
+
+  const duplicate = (id: string) =>
+    guard(async () => {
+      const snippet = snippets.find(s => s.id === id);
+      if (!snippet) return undefined;
+      const copy = newSnippet(t('snippets.copyName', { name: snippet.name }), snippet);
+      await putSnippet(copy);
+      return copy;
+    });
+
+  const remove = (id: string) => guard(() => deleteSnippet(id));
+
+  const exportToFile = () =>
+    guard(async () => {
+      const data = await exportWorkspace();
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `0x-workspace-${data.exportedAt.slice(0, 10)}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+    });
+
+  const importFromFile = (file: File) => guard(async () => importWorkspace(await file.text()));
+
+  const error = failure === null ? '' : errorMessage(locale, failure);
+
+  return { snippets, error, clearError: () => setFailure(null), create, rename, duplicate, remove, exportToFile, importFromFile };
+}
@@ -0,0 +1,200 @@
+import { normalizeCompileOptions, type CompileOptions } from './compileOptions';
+import { DEFAULT_COMPILER, isCompilerId } from './compilerVersions';
+import { LocalizedError } from './i18n';
+import { normalizeFiles, singleFile, type SourceFile } from './project';
+import { isTarget, type Target } from './targets';
+
+// Local persistence in IndexedDB: named snippets plus a single autosave
+// record holding whatever was in the editor last. Records written before
+// projects had several files carry a single `source` string instead of
+// `files`; they are upgraded as they are read.
+
+const DB_NAME = '0x-playground';
+const DB_VERSION = 1;
+const SNIPPETS = 'snippets';
+const META = 'meta';
+const AUTOSAVE_KEY = 'autosave';
+
+export const WORKSPACE_FILE_FORMAT = '0x-playground-workspace';
+export const WORKSPACE_FILE_VERSION = 2;
+
+export interface Snippet {
+  id: string;
+  name: string;
+  files: SourceFile[];
+  activeFile: string;
+  target: Target;
+  options: CompileOptions;
+  // A CompilerRelease id.
+  compiler: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Autosave {
+  files: SourceFile[];
+  activeFile: string;
+  target: Target;
+  options: CompileOptions;
+  compiler: string;
+  example: string | null;
+  snippetId: string | null;
+  savedAt: number;
+}
+
+export interface WorkspaceFile {
+  format: typeof WORKSPACE_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  snippets: Snippet[];
+  autosave: Autosave | null;
+}
+
+export class WorkspaceError extends LocalizedError {
+  name = 'WorkspaceError';
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new WorkspaceError('error.noIndexedDb'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNIPPETS)) db.createObjectStore(SNIPPETS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new WorkspaceError('error.openWorkspace', { message: request.error?.message ?? '' }));
+    });
+    // Let a later call retry if opening failed (e.g. a blocked upgrade).
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDb();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+export async function listSnippets(): Promise<Snippet[]> {
+  const all = await promisify((await store(SNIPPETS, 'readonly')).getAll() as IDBRequest<unknown[]>);
+  return all.map(normalizeSnippet).filter((s): s is Snippet => s !== null).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function putSnippet(snippet: Snippet): Promise<void> {
+  await promisify((await store(SNIPPETS, 'readwrite')).put(snippet));
+}
+
+export async function deleteSnippet(id: string): Promise<void> {
+  await promisify((await store(SNIPPETS, 'readwrite')).delete(id));
+}
+
+export async function loadAutosave(): Promise<Autosave | null> {
+  const value = await promisify((await store(META, 'readonly')).get(AUTOSAVE_KEY));
+  return value ? normalizeAutosave(value) : null;
+}
+
+export async function saveAutosave(autosave: Autosave): Promise<void> {
+  await promisify((await store(META, 'readwrite')).put(autosave, AUTOSAVE_KEY));
+}
+
+export function newSnippet(
+  name: string,
+  fields: Pick<Snippet, 'files' | 'activeFile' | 'target' | 'options' | 'compiler'>,
+): Snippet {
+  const now = Date.now();
+  const { files, activeFile, target, options, compiler } = fields;
+  return { id: crypto.randomUUID(), name, files, activeFile, target, options, compiler, createdAt: now, updatedAt: now };
+}
+
+function normalizeProject(v: Record<string, unknown>): Pick<Snippet, 'files' | 'activeFile'> | null {
+  const files = normalizeFiles(v.files) ?? (typeof v.source === 'string' ? singleFile(v.source) : null);
+  if (!files) return null;
+  const activeFile = files.some(f => f.name === v.activeFile) ? v.activeFile as string : files[0].name;
+  return { files, activeFile };
+}
+
+function normalizeSnippet(value: unknown): Snippet | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const v = value as Record<string, unknown>;
+  const project = normalizeProject(v);
+  if (typeof v.id !== 'string' || typeof v.name !== 'string' || !project) return null;
+  const now = Date.now();
+  return {
+    id: v.id,
+    name: v.name,
+    ...project,
+    target: isTarget(v.target) ? v.target : 'react',
+    options: normalizeCompileOptions(v.options),
+    compiler: isCompilerId(v.compiler) ? v.compiler : DEFAULT_COMPILER,
+    createdAt: typeof v.createdAt === 'number' ? v.createdAt : now,
+    updatedAt: typeof v.updatedAt === 'number' ? v.updatedAt : now,
+  };
+}
+
+function normalizeAutosave(value: unknown): Autosave | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const v = value as Record<string, unknown>;
+  const project = normalizeProject(v);
+  if (!project) return null;
+  return {
+    ...project,
+    target: isTarget(v.target) ? v.target : 'react',
+    options: normalizeCompileOptions(v.options),
+    compiler: isCompilerId(v.compiler) ? v.compiler : DEFAULT_COMPILER,
+    example: typeof v.example === 'string' ? v.example : null,
+    snippetId: typeof v.snippetId === 'string' ? v.snippetId : null,
+    savedAt: typeof v.savedAt === 'number' ? v.savedAt : Date.now(),
+  };
+}
+
+export async function exportWorkspace(): Promise<WorkspaceFile> {
+  return {
+    format: WORKSPACE_FILE_FORMAT,
+    version: WORKSPACE_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    snippets: await listSnippets(),
+    autosave: await loadAutosave(),
+  };
+}
+
+// Merges an exported workspace into the local one. Snippets with the same id
+// are replaced; the autosave is left alone so importing never clobbers the
+// buffer being edited. Returns the number of snippets imported.
+export async function importWorkspace(text: string): Promise<number> {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new WorkspaceError('error.importNotJson');
+  }
+  if (data?.format !== WORKSPACE_FILE_FORMAT || !Array.isArray(data.snippets)) {
+    throw new WorkspaceError('error.importNotWorkspace');
+  }
+  if (typeof data.version !== 'number' || data.version > WORKSPACE_FILE_VERSION) {
+    throw new WorkspaceError('error.importNewerVersion', { version: String(data.version) });
+  }
+  const snippets = data.snippets.map(normalizeSnippet);
+  if (snippets.some(s => s === null)) {
+    throw new WorkspaceError('error.importMalformed');
+  }
+  const snippetStore = await store(SNIPPETS, 'readwrite');
+  await Promise.all(snippets.map(s => promisify(snippetStore.put(s))));
+  return snippets.length;
+}
@@ -1,9 +1,26 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import fs from 'fs';
 import path from 'path';
 
+// The installed compiler's version, shown in the footer and version picker.
+const zeroXVersion: string = JSON.parse(
+  fs.readFileSync(path.resolve(__dirname, 'node_modules/0x-lang/package.json'), 'utf8'),
+).version;
+
 export default defineConfig({
   plugins: [react()],
+  define: {
+    __ZERO_X_VERSION__: JSON.stringify(zeroXVersion),
+  },
+  build: {
+    rollupOptions: {
+      input: {
+        main: path.resolve(__dirname, 'index.html'),
+        preview: path.resolve(__dirname, 'preview.html'),
+      },
+    },
+  },
   resolve: {
     alias: {
       'ailang': path.resolve(__dirname, '../src'),